@@ -25,6 +25,7 @@ import { generateSessionId } from "./utils/id"
 import { AnthropicProvider } from "./llm/anthropic"
 import { OpenAIProvider } from "./llm/openai"
 import { GeminiProvider } from "./llm/gemini"
+import { OllamaProvider } from "./llm/ollama"
 
 /**
  * Global session manager instance (lazy initialized)
@@ -95,6 +96,7 @@ export function setDefaultStorage(storage: SessionStorage): void {
  * - ANTHROPIC_API_KEY -> AnthropicProvider
  * - OPENAI_API_KEY -> OpenAIProvider
  * - GEMINI_API_KEY/GOOGLE_API_KEY -> GeminiProvider
+ * - OLLAMA_HOST -> OllamaProvider
  */
 function getGlobalManager(): SessionManagerImpl {
   if (!globalManager) {
@@ -112,9 +114,11 @@ function getGlobalManager(): SessionManagerImpl {
           apiKey: process.env.GEMINI_API_KEY ?? process.env.GOOGLE_API_KEY,
           baseUrl: process.env.GEMINI_BASE_URL,
         })
+      } else if (process.env.OLLAMA_HOST) {
+        defaultProvider = new OllamaProvider()
       } else {
         throw new Error(
-          "No default provider set. Set ANTHROPIC_API_KEY, OPENAI_API_KEY, or GEMINI_API_KEY environment variable, " +
+          "No default provider set. Set ANTHROPIC_API_KEY, OPENAI_API_KEY, GEMINI_API_KEY or OLLAMA_HOST environment variable, " +
           "call setDefaultProvider(), or pass a provider in the options."
         )
       }
@@ -170,9 +174,11 @@ export async function createSession(options?: CreateSessionOptions): Promise<Ses
           apiKey: process.env.GEMINI_API_KEY ?? process.env.GOOGLE_API_KEY,
           baseUrl: process.env.GEMINI_BASE_URL,
         })
+      } else if (process.env.OLLAMA_HOST) {
+        provider = new OllamaProvider()
       } else {
         throw new Error(
-          "No provider available. Set ANTHROPIC_API_KEY, OPENAI_API_KEY, or GEMINI_API_KEY environment variable, " +
+          "No provider available. Set ANTHROPIC_API_KEY, OPENAI_API_KEY, GEMINI_API_KEY or OLLAMA_HOST environment variable, " +
           "call setDefaultProvider(), or pass a provider in the options."
         )
       }
@@ -270,12 +276,15 @@ export async function prompt(
     let text = ""
     let message: SDKMessage | undefined
     let usage: ExtendedUsageInfo = { input_tokens: 0, output_tokens: 0 }
+    let structuredOutput: Record<string, unknown> | undefined
 
     for await (const event of session.receive()) {
       if (event.type === "text") {
         text += event.text
       } else if (event.type === "message") {
         message = event.message
+      } else if (event.type === "result") {
+        structuredOutput = event.structured_output
       } else if (event.type === "stop") {
         usage = event.usage
       } else if (event.type === "error") {
@@ -290,6 +299,7 @@ export async function prompt(
         message: message!,
         usage,
         sessionId: session.id,
+        structuredOutput,
       }
     }
 
@@ -353,6 +363,7 @@ export async function* query(
       let finalMessage: SDKMessage | undefined
       let finalUsage: ExtendedUsageInfo = { input_tokens: 0, output_tokens: 0 }
       let stopReason = "end_turn"
+      let structuredOutput: Record<string, unknown> | undefined
 
       for await (const event of session.receive()) {
         if (event.type === "text") {
@@ -385,6 +396,16 @@ export async function* query(
         } else if (event.type === "message") {
           finalMessage = event.message
           options?.onMessage?.(event.message)
+        } else if (event.type === "result") {
+          structuredOutput = event.structured_output
+          const output: QueryOutput = {
+            type: "result",
+            subtype: event.subtype,
+            structured_output: event.structured_output,
+            error: event.error,
+            session_id: sessionId,
+          }
+          yield output
         } else if (event.type === "stop") {
           finalUsage = event.usage
           stopReason = event.stop_reason
@@ -415,50 +436,101 @@ export async function* query(
         messages: session.getMessages(),
         usage: finalUsage,
         stopReason,
+        structuredOutput,
+        cost: session.getCost(),
       }
     }
 
     // Handle async generator input (streaming mode)
+    // Input is read in the background so messages that arrive while the agent
+    // is working are steered into the running turn instead of waiting for it.
     let finalMessage: SDKMessage | undefined
     let finalUsage: ExtendedUsageInfo = { input_tokens: 0, output_tokens: 0 }
     let stopReason = "end_turn"
+    let structuredOutput: Record<string, unknown> | undefined
+
+    const inbox: Array<string | SDKMessage> = []
+    let inputDone = false
+    let inputError: unknown
+    let wake = (): void => {}
+
+    const reader = (async () => {
+      try {
+        for await (const inputMessage of input) {
+          if (inputMessage.type === "user_message" && inputMessage.message) {
+            inbox.push(
+              typeof inputMessage.message === "string"
+                ? inputMessage.message
+                : { role: "user", content: inputMessage.message }
+            )
+            wake()
+          }
+        }
+      } catch (error) {
+        inputError = error
+      } finally {
+        inputDone = true
+        wake()
+      }
+    })()
 
-    for await (const inputMessage of input) {
-      if (inputMessage.type === "user_message" && inputMessage.message) {
-        await session.send(
-          typeof inputMessage.message === "string"
-            ? inputMessage.message
-            : { role: "user", content: inputMessage.message }
-        )
+    while (inbox.length > 0 || !inputDone) {
+      if (inbox.length === 0) {
+        await new Promise<void>((resolve) => {
+          wake = resolve
+        })
+        continue
+      }
 
-        for await (const event of session.receive()) {
-          if (event.type === "text") {
-            const output: QueryOutput = {
-              type: "text",
-              text: event.text,
-              session_id: sessionId,
-            }
-            yield output
-            options?.onText?.(event.text)
-          } else if (event.type === "message") {
-            finalMessage = event.message
-            options?.onMessage?.(event.message)
-          } else if (event.type === "stop") {
-            finalUsage = event.usage
-            stopReason = event.stop_reason
-          } else if (event.type === "error") {
-            const output: QueryOutput = {
-              type: "error",
-              error: event.error,
-              session_id: sessionId,
-            }
-            yield output
-            options?.onError?.(event.error)
+      await session.send(inbox.shift()!)
+
+      for await (const event of session.receive()) {
+        // Forward messages that arrived during the turn
+        for (const message of inbox.splice(0)) {
+          await session.steer(message)
+        }
+
+        if (event.type === "text") {
+          const output: QueryOutput = {
+            type: "text",
+            text: event.text,
+            session_id: sessionId,
           }
+          yield output
+          options?.onText?.(event.text)
+        } else if (event.type === "message") {
+          finalMessage = event.message
+          options?.onMessage?.(event.message)
+        } else if (event.type === "result") {
+          structuredOutput = event.structured_output
+          const output: QueryOutput = {
+            type: "result",
+            subtype: event.subtype,
+            structured_output: event.structured_output,
+            error: event.error,
+            session_id: sessionId,
+          }
+          yield output
+        } else if (event.type === "stop") {
+          finalUsage = event.usage
+          stopReason = event.stop_reason
+        } else if (event.type === "error") {
+          const output: QueryOutput = {
+            type: "error",
+            error: event.error,
+            session_id: sessionId,
+          }
+          yield output
+          options?.onError?.(event.error)
         }
       }
     }
 
+    await reader
+    if (inputError) {
+      throw inputError
+    }
+
     // Yield complete event
     const completeOutput: QueryOutput = {
       type: "complete",
@@ -475,6 +547,8 @@ export async function* query(
       messages: session.getMessages(),
       usage: finalUsage,
       stopReason,
+      structuredOutput,
+      cost: session.getCost(),
     }
   } catch (error) {
     const errorOutput: QueryOutput = {
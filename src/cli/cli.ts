@@ -7,7 +7,7 @@ import * as readline from "node:readline"
 import { homedir } from "node:os"
 import { join } from "node:path"
 import { existsSync } from "node:fs"
-import { readFileSync } from "node:fs"
+import { readFileSync, readdirSync, writeFileSync } from "node:fs"
 
 import { createSession } from "../api"
 import { AnthropicProvider } from "../llm/anthropic"
@@ -19,7 +19,27 @@ import { SkillLoader } from "../skills/loader"
 import { createSkillTool } from "../tools/skill"
 import { CLI_AGENT_PRESET, generateEnvContext } from "../prompt"
 import { loadEnvOverride } from "../utils/env"
-import type { Session } from "../types/session"
+import { FileSessionStorage, listSessionSummaries } from "../session/storage"
+import { JsonlSessionStorage } from "../session/jsonl-storage"
+import { SqliteSessionStorage } from "../session/sqlite-storage"
+import { migrateSessionStorage, sessionMigrations } from "../session/migrations"
+import { pruneSessions } from "../session/retention"
+import { ArtifactStore } from "../session/artifacts"
+import { followSession } from "../session/follow"
+import {
+  exportSessionArchive,
+  exportSessionHtml,
+  exportSessionMarkdown,
+  importSessionArchive,
+} from "../session/export"
+import type {
+  PruneOptions,
+  RetentionPolicy,
+  Session,
+  SessionState,
+  SessionStorage,
+  SessionSummary,
+} from "../types/session"
 
 // Load .env and override shell environment variables
 loadEnvOverride()
@@ -135,6 +155,14 @@ ${c.bold("Usage:")}
   ${c.cyan("npx formagent --help")}       Show this help
   ${c.cyan("npx formagent --version")}    Show version
 
+${c.bold("Session Commands:")}
+  ${c.cyan("npx formagent sessions list <dir>")}      List sessions with their titles and summaries
+  ${c.cyan("npx formagent sessions migrate <dir>")}   Upgrade stored sessions to the current schema
+  ${c.cyan("npx formagent sessions prune <dir>")}     Delete sessions outside a retention policy
+  ${c.cyan("npx formagent sessions export <dir> <id>")}   Export a session as Markdown, HTML or an archive
+  ${c.cyan("npx formagent sessions import <dir> <file>")} Import a .formagent archive
+  ${c.cyan("npx formagent sessions follow <dir> <id>")}   Stream new messages of a running session
+
 ${c.bold("Interactive Commands:")}
   ${c.cyan("/help")}     Show available commands
   ${c.cyan("/clear")}    Clear conversation history
@@ -143,6 +171,7 @@ ${c.bold("Interactive Commands:")}
   ${c.cyan("/models")}   Show or switch provider/model
   ${c.cyan("/todos")}    Show current todo list
   ${c.cyan("/usage")}    Show token usage statistics
+  ${c.cyan("/rewind")}   List checkpoints or rewind to one
   ${c.cyan("/debug")}    Show debug info (prompt, model, env)
   ${c.cyan("/exit")}     Exit the CLI
 
@@ -210,6 +239,7 @@ function printInteractiveHelp() {
   console.log(`  ${c.cyan("/models")}   Show or switch provider/model`)
   console.log(`  ${c.cyan("/todos")}    Show current todo list`)
   console.log(`  ${c.cyan("/usage")}    Show token usage statistics`)
+  console.log(`  ${c.cyan("/rewind")}   List checkpoints or rewind to one`)
   console.log(`  ${c.cyan("/debug")}    Show debug info (prompt, model, env)`)
   console.log(`  ${c.cyan("/exit")}     Exit the CLI`)
   console.log()
@@ -302,6 +332,52 @@ function printUsage() {
   console.log()
 }
 
+/**
+ * List checkpoints, or rewind to one with /rewind <n> [--keep-files]
+ */
+async function handleRewindCommand(args: string[]): Promise<void> {
+  const checkpoints = session?.getCheckpoints() ?? []
+  console.log()
+
+  if (!session || checkpoints.length === 0) {
+    console.log(c.dim("  No checkpoints yet."))
+    console.log()
+    return
+  }
+
+  if (args.length === 0) {
+    console.log(c.bold("Checkpoints:"))
+    console.log()
+    checkpoints.forEach((checkpoint, index) => {
+      const prompt = checkpoint.prompt.split("\n")[0]
+      const files = checkpoint.files.length > 0 ? c.yellow(` (${checkpoint.files.length} files changed since)`) : ""
+      console.log(`  ${c.cyan(String(index + 1).padStart(2))}  ${prompt.slice(0, 60)}${prompt.length > 60 ? "..." : ""}${files}`)
+    })
+    console.log()
+    console.log(c.dim("  Use /rewind <n> to rewind and restore files, or /rewind <n> --keep-files."))
+    console.log()
+    return
+  }
+
+  const number = Number.parseInt(args[0], 10)
+  const checkpoint = checkpoints[number - 1]
+  if (!checkpoint) {
+    console.log(c.yellow(`  Invalid checkpoint: ${args[0]}. Use /rewind to list checkpoints.`))
+    console.log()
+    return
+  }
+
+  const result = await session.rewind(checkpoint.messageId, {
+    restoreFiles: !args.includes("--keep-files"),
+  })
+  console.log(c.green(`  ✓ Rewound to before: ${checkpoint.prompt.split("\n")[0].slice(0, 60)}`))
+  console.log(c.dim(`    Removed ${result.removedMessages} messages, restored ${result.restoredFiles.length} files.`))
+  for (const file of result.restoredFiles) {
+    console.log(c.dim(`    ${file}`))
+  }
+  console.log()
+}
+
 async function resetSessionForModelChange(): Promise<void> {
   if (session) {
     await session.close()
@@ -961,6 +1037,10 @@ async function handleInput(input: string): Promise<boolean> {
         printDebug()
         return true
 
+      case "/rewind":
+        await handleRewindCommand(args)
+        return true
+
       case "/exit":
       case "/quit":
       case "/q":
@@ -1067,10 +1147,446 @@ async function runInteractive(): Promise<void> {
   prompt()
 }
 
+/**
+ * Find the session storages present in a directory
+ */
+function detectStorages(dir: string): Array<{ name: string; storage: SessionStorage }> {
+  const files = existsSync(dir) ? readdirSync(dir) : []
+  const storages: Array<{ name: string; storage: SessionStorage }> = []
+
+  if (files.some((f) => f.endsWith(".json"))) {
+    storages.push({ name: "json", storage: new FileSessionStorage(dir) })
+  }
+  if (files.some((f) => f.endsWith(".jsonl"))) {
+    storages.push({ name: "jsonl", storage: new JsonlSessionStorage(dir) })
+  }
+  if (files.includes("sessions.db")) {
+    storages.push({ name: "sqlite", storage: new SqliteSessionStorage({ path: join(dir, "sessions.db") }) })
+  }
+
+  return storages
+}
+
+const SESSIONS_USAGE = `
+${c.bold("Usage:")}
+  ${c.cyan("npx formagent sessions list <dir>")}      List sessions with their titles and summaries
+  ${c.cyan("npx formagent sessions migrate <dir>")}   Upgrade stored sessions to the current schema
+  ${c.cyan("npx formagent sessions prune <dir>")}     Delete sessions outside a retention policy
+  ${c.cyan("npx formagent sessions export <dir> <id>")}   Export a session (Markdown, HTML or .formagent archive)
+  ${c.cyan("npx formagent sessions import <dir> <file>")} Import a .formagent archive
+  ${c.cyan("npx formagent sessions follow <dir> <id>")}   Stream new messages of a session another process is running
+
+${c.bold("List Options:")}
+  ${c.cyan("--limit <n>")}            Show the n most recently updated sessions (default: 20)
+
+${c.bold("Prune Options:")}
+  ${c.cyan("--max-age <duration>")}   Delete sessions not updated for this long (e.g. 30d, 12h)
+  ${c.cyan("--max-count <n>")}        Keep at most n sessions
+  ${c.cyan("--max-size <size>")}      Keep sessions up to this total size (e.g. 500MB)
+  ${c.cyan("--pin <id>")}             Never delete this session (repeatable)
+  ${c.cyan("--temp-dir <dir>")}       Truncated output directory to sweep
+  ${c.cyan("--artifact-dir <dir>")}   Artifact store to remove deleted sessions' artifacts from
+  ${c.cyan("--dry-run")}              Show what would be deleted
+
+${c.bold("Export Options:")}
+  ${c.cyan("--format <format>")}      markdown (default), html or archive
+  ${c.cyan("--output <file>")}        Write to a file (default: stdout, or <id>.formagent for archives)
+  ${c.cyan("--artifact-dir <dir>")}   Artifact store to pack into archives
+
+${c.bold("Import Options:")}
+  ${c.cyan("--id <id>")}              Store the session under a new ID
+  ${c.cyan("--overwrite")}            Replace an existing session with the same ID
+  ${c.cyan("--artifact-dir <dir>")}   Artifact store to restore archived artifacts into
+
+${c.bold("Follow Options:")}
+  ${c.cyan("--from-start")}           Print the messages already stored first
+  ${c.cyan("--interval <ms>")}        How often to check for new messages (default: 500)
+`
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 }
+
+/**
+ * Parse a duration such as "30d" or "12h" into milliseconds
+ */
+function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhdw])$/i)
+  if (!match) {
+    throw new Error(`Invalid duration: "${value}" (use e.g. 30d, 12h, 90m)`)
+  }
+  return parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()]
+}
+
+/**
+ * Parse a size such as "500MB" into bytes
+ */
+function parseSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i)
+  if (!match) {
+    throw new Error(`Invalid size: "${value}" (use e.g. 500MB, 2GB)`)
+  }
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[(match[2] ?? "b").toLowerCase()])
+}
+
+/**
+ * Format a byte count for display
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`
+}
+
+/**
+ * Parse `formagent sessions prune` options
+ */
+function parsePruneArgs(args: string[]): { policy: RetentionPolicy; options: PruneOptions } {
+  const policy: RetentionPolicy = {}
+  const options: PruneOptions = {}
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i]
+    if (flag === "--dry-run") {
+      options.dryRun = true
+      continue
+    }
+
+    const value = args[++i]
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`)
+    }
+
+    switch (flag) {
+      case "--max-age":
+        policy.maxAgeMs = parseDuration(value)
+        break
+      case "--max-count":
+        policy.maxCount = parseInt(value, 10)
+        if (!Number.isInteger(policy.maxCount) || policy.maxCount < 0) {
+          throw new Error(`Invalid count: "${value}"`)
+        }
+        break
+      case "--max-size":
+        policy.maxTotalBytes = parseSize(value)
+        break
+      case "--pin":
+        policy.pinned = [...(policy.pinned ?? []), value]
+        break
+      case "--temp-dir":
+        options.tempDir = value
+        break
+      case "--artifact-dir":
+        options.artifactStore = new ArtifactStore(value)
+        break
+      default:
+        throw new Error(`Unknown option: ${flag}`)
+    }
+  }
+
+  if (policy.maxAgeMs === undefined && policy.maxCount === undefined && policy.maxTotalBytes === undefined) {
+    throw new Error("Specify at least one of --max-age, --max-count or --max-size")
+  }
+
+  return { policy, options }
+}
+
+/**
+ * Read `--flag value` options (flags listed in `booleans` take no value)
+ */
+function parseFlags(args: string[], booleans: string[] = []): Record<string, string | true> {
+  const flags: Record<string, string | true> = {}
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i]
+    if (!flag.startsWith("--")) {
+      throw new Error(`Unexpected argument: ${flag}`)
+    }
+    if (booleans.includes(flag)) {
+      flags[flag] = true
+      continue
+    }
+
+    const value = args[++i]
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`)
+    }
+    flags[flag] = value
+  }
+
+  return flags
+}
+
+/**
+ * Handle `formagent sessions list <dir>`
+ */
+async function listSessionsCommand(dir: string, args: string[]): Promise<void> {
+  const flags = parseFlags(args)
+  const limit = typeof flags["--limit"] === "string" ? parseInt(flags["--limit"], 10) : 20
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid limit: "${flags["--limit"]}"`)
+  }
+
+  const summaries: SessionSummary[] = []
+  for (const { storage } of detectStorages(dir)) {
+    summaries.push(...(await listSessionSummaries(storage, limit)))
+    if (storage instanceof SqliteSessionStorage) {
+      await storage.close()
+    }
+  }
+
+  if (summaries.length === 0) {
+    console.log(c.yellow(`  No sessions found in ${dir}`))
+    return
+  }
+
+  summaries.sort((a, b) => b.updatedAt - a.updatedAt)
+  for (const summary of summaries.slice(0, limit)) {
+    const updated = new Date(summary.updatedAt).toLocaleString()
+    console.log(`  ${c.bold(summary.title ?? c.dim("(untitled)"))}  ${c.dim(`${updated} · ${summary.messageCount} messages`)}`)
+    console.log(`    ${c.cyan(summary.id)}`)
+    if (summary.summary) {
+      const line = summary.summary.replace(/\s+/g, " ")
+      console.log(c.dim(`    ${line.length > 160 ? `${line.slice(0, 157)}...` : line}`))
+    }
+  }
+}
+
+/**
+ * Handle `formagent sessions export <dir> <id>`
+ */
+async function exportSessionCommand(dir: string, args: string[]): Promise<void> {
+  const [id, ...rest] = args
+  if (!id) {
+    throw new Error("Missing session ID")
+  }
+
+  const flags = parseFlags(rest)
+  const format = typeof flags["--format"] === "string" ? flags["--format"] : "markdown"
+  if (!["markdown", "md", "html", "archive"].includes(format)) {
+    throw new Error(`Unknown format: ${format}`)
+  }
+
+  let state: SessionState | undefined
+  for (const { storage } of detectStorages(dir)) {
+    if (!state && (await storage.list()).includes(id)) {
+      state = await storage.load(id)
+    }
+    if (storage instanceof SqliteSessionStorage) {
+      await storage.close()
+    }
+  }
+  if (!state) {
+    throw new Error(`Session not found in ${dir}: ${id}`)
+  }
+
+  const output = typeof flags["--output"] === "string" ? flags["--output"] : undefined
+  if (format === "archive") {
+    const file = output ?? `${id}.formagent`
+    const artifactStore =
+      typeof flags["--artifact-dir"] === "string" ? new ArtifactStore(flags["--artifact-dir"]) : undefined
+    writeFileSync(file, await exportSessionArchive(state, { artifactStore }))
+    console.log(c.green(`  Exported ${id} to ${file}`))
+    return
+  }
+
+  const content = format === "html" ? exportSessionHtml(state) : exportSessionMarkdown(state)
+  if (output) {
+    writeFileSync(output, content, "utf-8")
+    console.log(c.green(`  Exported ${id} to ${output}`))
+  } else {
+    process.stdout.write(content)
+  }
+}
+
+/**
+ * Handle `formagent sessions import <dir> <file>`
+ */
+async function importSessionCommand(dir: string, args: string[]): Promise<void> {
+  const [file, ...rest] = args
+  if (!file) {
+    throw new Error("Missing archive file")
+  }
+
+  const flags = parseFlags(rest, ["--overwrite"])
+  const { name, storage } = detectStorages(dir)[0] ?? { name: "json", storage: new FileSessionStorage(dir) }
+
+  try {
+    const state = await importSessionArchive(readFileSync(file), storage, {
+      id: typeof flags["--id"] === "string" ? flags["--id"] : undefined,
+      overwrite: flags["--overwrite"] === true,
+      artifactStore:
+        typeof flags["--artifact-dir"] === "string" ? new ArtifactStore(flags["--artifact-dir"]) : undefined,
+    })
+    console.log(c.green(`  Imported session ${state.id} (${state.messages.length} messages) into ${name} storage`))
+  } finally {
+    if (storage instanceof SqliteSessionStorage) {
+      await storage.close()
+    }
+  }
+}
+
+/**
+ * Handle `formagent sessions follow <dir> <id>`
+ */
+async function followSessionCommand(dir: string, args: string[]): Promise<void> {
+  const [id, ...rest] = args
+  if (!id) {
+    throw new Error("Missing session ID")
+  }
+
+  const flags = parseFlags(rest, ["--from-start"])
+  const interval = typeof flags["--interval"] === "string" ? parseInt(flags["--interval"], 10) : undefined
+  if (interval !== undefined && (!Number.isInteger(interval) || interval <= 0)) {
+    throw new Error(`Invalid interval: "${flags["--interval"]}"`)
+  }
+
+  const storages = detectStorages(dir)
+  let found: SessionStorage | undefined
+  for (const { storage } of storages) {
+    if (!found && (await storage.list()).includes(id)) {
+      found = storage
+    }
+  }
+  if (!found) {
+    throw new Error(`Session not found in ${dir}: ${id}`)
+  }
+
+  const controller = new AbortController()
+  process.once("SIGINT", () => controller.abort())
+  console.log(c.dim(`  Following ${id} (Ctrl+C to stop)`))
+
+  try {
+    const events = followSession(found, id, {
+      pollIntervalMs: interval,
+      fromStart: flags["--from-start"] === true,
+      signal: controller.signal,
+    })
+    for await (const event of events) {
+      if (event.type === "history_reset") {
+        console.log(c.yellow(`  History rewritten (${event.messages.length} messages)`))
+        continue
+      }
+
+      const { message } = event
+      const blocks = typeof message.content === "string" ? [{ type: "text" as const, text: message.content }] : message.content
+      for (const block of blocks) {
+        if (block.type === "text" && block.text.trim()) {
+          const label = message.role === "user" ? c.cyan("You") : c.green("Assistant")
+          console.log(`${label}: ${block.text}`)
+        } else if (block.type === "tool_use") {
+          console.log(c.yellow(`  → ${block.name}`))
+        } else if (block.type === "tool_result") {
+          const text = typeof block.content === "string" ? block.content : "[content]"
+          const line = text.split("\n")[0]
+          console.log(c.dim(`    ${block.is_error ? "✗" : "✓"} ${line.length > 100 ? `${line.slice(0, 97)}...` : line}`))
+        }
+      }
+    }
+  } finally {
+    for (const { storage } of storages) {
+      if (storage instanceof SqliteSessionStorage) {
+        await storage.close()
+      }
+    }
+  }
+}
+
+/**
+ * Handle `formagent sessions <command>`
+ */
+async function runSessionsCommand(args: string[]): Promise<void> {
+  const [command, dir, ...rest] = args
+
+  if (!["list", "migrate", "prune", "export", "import", "follow"].includes(command) || !dir) {
+    console.log(SESSIONS_USAGE)
+    process.exit(command ? 1 : 0)
+  }
+
+  if (command === "list" || command === "export" || command === "import" || command === "follow") {
+    const handlers = {
+      list: listSessionsCommand,
+      export: exportSessionCommand,
+      import: importSessionCommand,
+      follow: followSessionCommand,
+    }
+    try {
+      await handlers[command](dir, rest)
+    } catch (error) {
+      console.log(c.red(`  ${error instanceof Error ? error.message : String(error)}`))
+      process.exit(1)
+    }
+    return
+  }
+
+  let prune: { policy: RetentionPolicy; options: PruneOptions } | undefined
+  if (command === "prune") {
+    try {
+      prune = parsePruneArgs(rest)
+    } catch (error) {
+      console.log(c.red(`  ${error instanceof Error ? error.message : String(error)}`))
+      console.log(SESSIONS_USAGE)
+      process.exit(1)
+    }
+  }
+
+  const storages = detectStorages(dir)
+  if (storages.length === 0) {
+    console.log(c.yellow(`  No sessions found in ${dir}`))
+    return
+  }
+
+  let failures = 0
+  for (const { name, storage } of storages) {
+    if (prune) {
+      const result = await pruneSessions(storage, prune.policy, prune.options)
+      const verb = prune.options.dryRun ? "would delete" : "deleted"
+      console.log(
+        `  ${c.cyan(name)}: ${verb} ${result.deleted.length} session(s) (${formatBytes(result.freedBytes)}), kept ${result.kept}`
+      )
+      for (const id of result.deleted) {
+        console.log(c.dim(`    ${id}`))
+      }
+      if (result.removedOutputFiles > 0) {
+        console.log(c.dim(`    removed ${result.removedOutputFiles} truncated output file(s)`))
+      }
+      if (result.removedArtifacts > 0) {
+        console.log(c.dim(`    removed ${result.removedArtifacts} artifact(s)`))
+      }
+      for (const failure of result.failed) {
+        console.log(c.red(`    ${failure.id}: ${failure.error}`))
+      }
+      failures += result.failed.length
+    } else {
+      const result = await migrateSessionStorage(storage)
+      console.log(
+        `  ${c.cyan(name)}: ${result.migrated.length} session(s) written at schema version ${sessionMigrations.version}`
+      )
+      for (const failure of result.failed) {
+        console.log(c.red(`    ${failure.id}: ${failure.error}`))
+      }
+      failures += result.failed.length
+    }
+
+    if (storage instanceof SqliteSessionStorage) {
+      await storage.close()
+    }
+  }
+
+  if (failures > 0) {
+    process.exit(1)
+  }
+}
+
 /**
  * Main CLI entry point
  */
 export async function runCLI(args: string[]): Promise<void> {
+  if (args[0] === "sessions") {
+    await runSessionsCommand(args.slice(1))
+    return
+  }
+
   // Parse arguments
   if (args.includes("--help") || args.includes("-h")) {
     printHelp()
@@ -6,6 +6,10 @@
  *   npx formagent              # Start interactive mode
  *   npx formagent "question"   # Quick query mode
  *   npx formagent --help       # Show help
+ *   npx formagent sessions migrate <dir>  # Upgrade stored sessions
+ *   npx formagent sessions prune <dir> --max-age 30d  # Delete old sessions
+ *   npx formagent sessions export <dir> <id> --format html  # Share a transcript
+ *   npx formagent sessions follow <dir> <id>  # Watch a session another process is running
  *
  * @module formagent-sdk/cli
  */
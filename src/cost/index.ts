@@ -3,4 +3,4 @@
  * @module formagent-sdk/cost
  */
 
-export { CostTrackerImpl, createCostTracker, globalCostTracker } from "./tracker"
+export { CostTrackerImpl, createCostTracker, globalCostTracker, calculateCacheHitRate } from "./tracker"
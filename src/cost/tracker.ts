@@ -140,10 +140,13 @@ export class CostTrackerImpl implements CostTracker {
     // Output tokens
     cost += (usage.output_tokens / 1_000_000) * pricing.outputPricePerMillion
 
-    // Cache creation tokens
+    // Cache creation tokens (1-hour writes cost more than 5-minute ones)
     if (usage.cache_creation_input_tokens && pricing.cacheWritePricePerMillion) {
+      const longTtlTokens = usage.cache_creation?.ephemeral_1h_input_tokens ?? 0
+      const longTtlPrice = pricing.cacheWrite1hPricePerMillion ?? pricing.inputPricePerMillion * 2
       cost +=
-        (usage.cache_creation_input_tokens / 1_000_000) * pricing.cacheWritePricePerMillion
+        ((usage.cache_creation_input_tokens - longTtlTokens) / 1_000_000) * pricing.cacheWritePricePerMillion
+      cost += (longTtlTokens / 1_000_000) * longTtlPrice
     }
 
     // Cache read tokens
@@ -166,6 +169,7 @@ export class CostTrackerImpl implements CostTracker {
       totalOutputTokens: 0,
       totalCacheCreationTokens: 0,
       totalCacheReadTokens: 0,
+      cacheHitRate: 0,
       totalCostUsd: 0,
       callCount: 0,
       byModel: {},
@@ -212,6 +216,13 @@ export class CostTrackerImpl implements CostTracker {
       }
     }
 
+    result.cacheHitRate = calculateCacheHitRate({
+      input_tokens: result.totalInputTokens,
+      output_tokens: result.totalOutputTokens,
+      cache_creation_input_tokens: result.totalCacheCreationTokens,
+      cache_read_input_tokens: result.totalCacheReadTokens,
+    })
+
     return result
   }
 
@@ -242,6 +253,7 @@ export class CostTrackerImpl implements CostTracker {
       totalOutputTokens: 0,
       totalCacheCreationTokens: 0,
       totalCacheReadTokens: 0,
+      cacheHitRate: 0,
       totalCostUsd: 0,
       callCount: 0,
       byModel: {},
@@ -269,6 +281,13 @@ export class CostTrackerImpl implements CostTracker {
       result.byModel[record.model].calls++
     }
 
+    result.cacheHitRate = calculateCacheHitRate({
+      input_tokens: result.totalInputTokens,
+      output_tokens: result.totalOutputTokens,
+      cache_creation_input_tokens: result.totalCacheCreationTokens,
+      cache_read_input_tokens: result.totalCacheReadTokens,
+    })
+
     return result
   }
 
@@ -343,6 +362,20 @@ export class CostTrackerImpl implements CostTracker {
   }
 }
 
+/**
+ * Share of prompt tokens read from the prompt cache
+ *
+ * Anthropic reports cached tokens separately from `input_tokens`, so the
+ * prompt is the sum of all three input counts.
+ *
+ * @returns A rate between 0 and 1 (0 when there was no input)
+ */
+export function calculateCacheHitRate(usage: UsageInfo): number {
+  const read = usage.cache_read_input_tokens ?? 0
+  const prompt = usage.input_tokens + read + (usage.cache_creation_input_tokens ?? 0)
+  return prompt > 0 ? read / prompt : 0
+}
+
 /**
  * Create a new cost tracker
  *
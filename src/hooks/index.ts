@@ -4,7 +4,7 @@
  */
 
 export { HooksManager, createHookMatcher, HookTimeoutError } from "./manager"
-export type { PreToolUseResult, PostToolUseResult } from "./manager"
+export type { PreToolUseResult, PostToolUseResult, StopResult, TurnStartResult } from "./manager"
 
 // Re-export types
 export type {
@@ -21,12 +21,14 @@ export type {
   StopHookInput,
   SubagentStopHookInput,
   PreCompactHookInput,
+  TurnStartHookInput,
   PreToolUseHookOutput,
   PostToolUseHookOutput,
   UserPromptSubmitHookOutput,
   StopHookOutput,
   SubagentStopHookOutput,
   PreCompactHookOutput,
+  TurnStartHookOutput,
   HookSpecificOutput,
   PermissionDecision,
 } from "../types/hooks"
@@ -15,6 +15,7 @@ import type {
   PostToolUseHookInput,
   PermissionDecision,
 } from "../types/hooks"
+import type { ToolChoice } from "../types/provider"
 
 /**
  * Result of running PreToolUse hooks
@@ -50,6 +51,28 @@ export interface PostToolUseResult {
   stopReason?: string
 }
 
+/**
+ * Result of running Stop hooks
+ */
+export interface StopResult {
+  /** true to keep the agent working, false to confirm the stop (unset if no hook decided) */
+  continue?: boolean
+  /** Reason for stopping (when continue is false) */
+  stopReason?: string
+  /** Message sent to the agent when it keeps working */
+  systemMessage?: string
+}
+
+/**
+ * Result of running TurnStart hooks
+ */
+export interface TurnStartResult {
+  /** Tool choice for the turn (unset if no hook chose one) */
+  toolChoice?: ToolChoice
+  /** Parallel tool call setting for the turn (unset if no hook chose one) */
+  parallelToolCalls?: boolean
+}
+
 /**
  * Hook timeout error
  */
@@ -271,7 +294,7 @@ export class HooksManager {
             input,
             null,
             context,
-            matcher.timeout ?? 60
+            (matcher.timeout ?? 60) * 1000
           )
 
           if (result.continue === false) {
@@ -307,38 +330,175 @@ export class HooksManager {
 
   /**
    * Run Stop hooks
+   *
+   * `continue` is only set when a hook returned it explicitly: `true` asks the
+   * agent to keep working, `false` confirms the stop (with an optional reason).
    */
-  async runStop(abortSignal: AbortSignal): Promise<void> {
+  async runStop(
+    abortSignal: AbortSignal,
+    stopHookActive: boolean = false
+  ): Promise<StopResult> {
     const matchers = this.config.Stop ?? []
 
     if (matchers.length === 0) {
-      return
+      return {}
     }
 
     const input: HookInput = {
       hook_event_name: "Stop",
       session_id: this.sessionId,
       cwd: this.cwd,
-      stop_hook_active: true,
+      stop_hook_active: stopHookActive,
+    }
+
+    const context: HookContext = { signal: abortSignal }
+
+    const outcome: StopResult = {}
+
+    for (const matcher of matchers) {
+      for (const hook of matcher.hooks) {
+        try {
+          const result = await this.runHookWithTimeout(
+            hook,
+            input,
+            null,
+            context,
+            (matcher.timeout ?? 60) * 1000
+          )
+
+          if (result.continue === false) {
+            return { continue: false, stopReason: result.stopReason }
+          }
+
+          if (result.continue === true) {
+            outcome.continue = true
+          }
+
+          if (result.systemMessage) {
+            outcome.systemMessage = result.systemMessage
+          }
+        } catch (error) {
+          console.error(`Hook error: ${error}`)
+        }
+      }
+    }
+
+    return outcome
+  }
+
+  /**
+   * Run PreCompact hooks
+   */
+  async runPreCompact(
+    trigger: "manual" | "auto",
+    abortSignal: AbortSignal,
+    customInstructions?: string
+  ): Promise<{ systemMessage?: string; continue: boolean; stopReason?: string }> {
+    const matchers = this.config.PreCompact ?? []
+
+    if (matchers.length === 0) {
+      return { continue: true }
+    }
+
+    const input: HookInput = {
+      hook_event_name: "PreCompact",
+      session_id: this.sessionId,
+      cwd: this.cwd,
+      trigger,
+      custom_instructions: customInstructions,
+    }
+
+    const context: HookContext = { signal: abortSignal }
+
+    let systemMessage: string | undefined
+    let shouldContinue = true
+    let stopReason: string | undefined
+
+    for (const matcher of matchers) {
+      for (const hook of matcher.hooks) {
+        try {
+          const result = await this.runHookWithTimeout(
+            hook,
+            input,
+            null,
+            context,
+            (matcher.timeout ?? 60) * 1000
+          )
+
+          if (result.continue === false) {
+            shouldContinue = false
+            stopReason = result.stopReason
+            break
+          }
+
+          if (result.systemMessage) {
+            systemMessage = result.systemMessage
+          }
+        } catch (error) {
+          console.error(`Hook error: ${error}`)
+        }
+      }
+
+      if (!shouldContinue) break
+    }
+
+    return {
+      systemMessage,
+      continue: shouldContinue,
+      stopReason,
+    }
+  }
+
+  /**
+   * Run TurnStart hooks
+   *
+   * When several hooks set the same option, the last one wins.
+   */
+  async runTurnStart(turn: number, toolNames: string[], abortSignal: AbortSignal): Promise<TurnStartResult> {
+    const matchers = this.config.TurnStart ?? []
+
+    if (matchers.length === 0) {
+      return {}
+    }
+
+    const input: HookInput = {
+      hook_event_name: "TurnStart",
+      session_id: this.sessionId,
+      cwd: this.cwd,
+      turn,
+      tool_names: toolNames,
     }
 
     const context: HookContext = { signal: abortSignal }
 
+    const outcome: TurnStartResult = {}
+
     for (const matcher of matchers) {
       for (const hook of matcher.hooks) {
         try {
-          await this.runHookWithTimeout(
+          const result = await this.runHookWithTimeout(
             hook,
             input,
             null,
             context,
-            matcher.timeout ?? 60
+            (matcher.timeout ?? 60) * 1000
           )
+
+          if (result.hookSpecificOutput?.hookEventName === "TurnStart") {
+            if (result.hookSpecificOutput.toolChoice !== undefined) {
+              outcome.toolChoice = result.hookSpecificOutput.toolChoice
+            }
+            if (result.hookSpecificOutput.parallelToolCalls !== undefined) {
+              outcome.parallelToolCalls = result.hookSpecificOutput.parallelToolCalls
+            }
+          }
         } catch (error) {
           console.error(`Hook error: ${error}`)
         }
       }
     }
+
+    return outcome
   }
 
   /**
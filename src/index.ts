@@ -19,6 +19,7 @@ export {
   truncateToolOutput,
   needsTruncation,
   cleanupTruncatedOutputs,
+  saveOutputFile,
   TRUNCATION_DEFAULTS,
 } from "./utils/truncation"
 export type {
@@ -49,6 +50,14 @@ export type {
   TokenEstimate,
 } from "./session/compaction"
 
+// Conversation branches
+export {
+  DEFAULT_BRANCH,
+  resolveBranchPath,
+  commonPrefixLength,
+  updateBranchPath,
+} from "./session/branches"
+
 // Public API (Claude SDK compatible)
 export {
   createSession,
@@ -66,7 +75,67 @@ export {
   MemorySessionStorage,
   FileSessionStorage,
   createSessionStorage,
+  listSessionSummaries,
 } from "./session/storage"
+export type { SessionStorageOptions } from "./session/storage"
+export { SqliteSessionStorage } from "./session/sqlite-storage"
+export { JsonlSessionStorage } from "./session/jsonl-storage"
+export type { JsonlSessionStorageOptions } from "./session/jsonl-storage"
+export { SessionLockedError } from "./session/lock"
+export {
+  SESSION_SCHEMA_VERSION,
+  SessionMigrationRegistry,
+  SessionSchemaError,
+  sessionMigrations,
+  migrateSessionState,
+  migrateSessionStorage,
+} from "./session/migrations"
+export type { SessionMigration, StorageMigrationResult } from "./session/migrations"
+export { pruneSessions, isSessionPinned } from "./session/retention"
+export {
+  EncryptedSessionStorage,
+  SessionEncryptionError,
+  generateSessionKey,
+  SESSION_KEY_ENV,
+  SESSION_KEY_FILE_ENV,
+} from "./session/encrypted-storage"
+export type {
+  EncryptedSessionStorageOptions,
+  RotateResult,
+  SessionEncryptionErrorReason,
+  SessionKey,
+} from "./session/encrypted-storage"
+export {
+  exportSessionMarkdown,
+  exportSessionHtml,
+  exportSessionArchive,
+  readSessionArchive,
+  importSessionArchive,
+  SESSION_ARCHIVE_FORMAT,
+} from "./session/export"
+export type {
+  SessionExportOptions,
+  SessionArchive,
+  ArchivedArtifact,
+  ExportSessionArchiveOptions,
+  ImportSessionOptions,
+} from "./session/export"
+export {
+  TITLE_DEFAULTS,
+  formatTranscriptExcerpt,
+  generateSessionMetadataPrompt,
+  parseSessionMetadata,
+} from "./session/titles"
+export type { SessionMetadataUpdate } from "./session/titles"
+export { ArtifactStore, DEFAULT_ARTIFACT_DIR, isTextMediaType } from "./session/artifacts"
+export type { PutArtifactOptions } from "./session/artifacts"
+export { followSession } from "./session/follow"
+export type { FollowSessionOptions, FollowEvent, HistoryResetEvent } from "./session/follow"
+export type {
+  SqliteSessionStorageOptions,
+  SqliteDatabase,
+  SqliteStatement,
+} from "./session/sqlite-storage"
 
 // Tools
 export * from "./tools"
@@ -94,6 +163,7 @@ export { ToolRegistry } from "./tools/registry"
 export { SkillLoader } from "./skills/loader"
 export { OpenAIProvider } from "./llm/openai"
 export { GeminiProvider } from "./llm/gemini"
+export { OllamaProvider } from "./llm/ollama"
 export { StreamProcessor } from "./stream/processor"
 export { AgentEventEmitter } from "./types"
 
@@ -132,6 +202,8 @@ export type {
   ImageBlock,
   ToolUseBlock,
   ToolResultBlock,
+  ThinkingBlock,
+  ArtifactRef,
   SDKMessage,
   UserMessage as SDKUserMessage,
   AssistantMessage as SDKAssistantMessage,
@@ -139,6 +211,8 @@ export type {
   UsageInfo,
   ExtendedUsageInfo,
   ModelConfig,
+  ReasoningConfig,
+  PromptCachingConfig,
   StopReason,
   StreamEvent,
   // Session types
@@ -149,6 +223,25 @@ export type {
   SessionEvent,
   SessionManager,
   CreateSessionOptions,
+  Checkpoint,
+  FileSnapshot,
+  RewindOptions,
+  RewindResult,
+  ConversationBranch,
+  BranchInfo,
+  BranchDiff,
+  CreateBranchOptions,
+  MergeBranchOptions,
+  SessionQuery,
+  SessionSummary,
+  RetentionPolicy,
+  PruneOptions,
+  PruneResult,
+  AutosavePolicy,
+  AutosaveConfig,
+  AutoTitleConfig,
+  PersistedEvent,
+  SessionLease,
   // Query types
   QueryInput,
   QueryOptions,
@@ -159,6 +252,7 @@ export type {
   ToolDefinition as SDKToolDefinition,
   ToolContext as SDKToolContext,
   ToolOutput,
+  ToolArtifact,
   ToolRegistry as SDKToolRegistry,
   MCPServer,
   MCPToolInfo,
@@ -178,6 +272,7 @@ export type {
   // Provider types
   LLMProvider as SDKLLMProvider,
   LLMRequest,
+  ToolChoice,
   LLMResponse as SDKLLMResponse,
   LLMStreamResponse,
   ProviderRegistry,
@@ -11,15 +11,19 @@ import type {
   StreamOptions,
   AnthropicRequest,
   AnthropicResponse,
+  AnthropicCacheControl,
+  ToolChoice,
 } from "../types/provider"
 import type {
   StreamEvent,
   ContentBlock,
   UsageInfo,
   StopReason,
+  ModelConfig,
 } from "../types/core"
 import type { ToolDefinition } from "../types/tool"
 import { fetchWithRetry, type RetryOptions } from "../utils/retry"
+import { isOwnThinking, resolveBudgetTokens } from "./reasoning"
 
 /**
  * Anthropic provider configuration
@@ -146,7 +150,7 @@ export class AnthropicProvider implements LLMProvider {
     // Convert tools
     const tools = request.tools ? this.convertTools(request.tools) : undefined
 
-    return {
+    const anthropicRequest: AnthropicRequest = {
       model: request.config.model,
       messages,
       system: request.systemPrompt,
@@ -157,6 +161,61 @@ export class AnthropicProvider implements LLMProvider {
       stop_sequences: request.config.stopSequences,
       stream,
       tools,
+      tool_choice: tools?.length ? this.convertToolChoice(request.toolChoice, request.parallelToolCalls) : undefined,
+    }
+
+    // Thinking needs max_tokens above the budget and no temperature or top_k
+    const budgetTokens = resolveBudgetTokens(request.config.reasoning)
+    if (budgetTokens !== undefined) {
+      anthropicRequest.thinking = { type: "enabled", budget_tokens: budgetTokens }
+      if (anthropicRequest.max_tokens <= budgetTokens) {
+        anthropicRequest.max_tokens += budgetTokens
+      }
+      anthropicRequest.temperature = undefined
+      anthropicRequest.top_k = undefined
+    }
+
+    this.addCacheBreakpoints(anthropicRequest, request.config.promptCaching)
+
+    return anthropicRequest
+  }
+
+  /**
+   * Mark the tool definitions, the system prompt and the end of the history
+   * as prompt cache breakpoints
+   *
+   * Each breakpoint caches the request up to that point. The one at the end of
+   * the history moves forward every turn, so each request reads the previous
+   * request's prefix from the cache.
+   */
+  private addCacheBreakpoints(request: AnthropicRequest, caching: ModelConfig["promptCaching"]): void {
+    if (caching === false) {
+      return
+    }
+
+    const ttl = typeof caching === "object" ? caching.ttl : undefined
+    const cacheControl: AnthropicCacheControl = ttl ? { type: "ephemeral", ttl } : { type: "ephemeral" }
+
+    if (request.tools?.length) {
+      const last = request.tools.length - 1
+      request.tools[last] = { ...request.tools[last], cache_control: cacheControl }
+    }
+
+    if (typeof request.system === "string" && request.system) {
+      request.system = [{ type: "text", text: request.system, cache_control: cacheControl }]
+    }
+
+    const lastMessage = request.messages.at(-1)
+    if (typeof lastMessage?.content === "string") {
+      if (lastMessage.content) {
+        lastMessage.content = [{ type: "text", text: lastMessage.content, cache_control: cacheControl }]
+      }
+    } else if (lastMessage) {
+      // Thinking blocks cannot be breakpoints
+      const block = lastMessage.content.findLast((b) => b.type !== "thinking" && b.type !== "redacted_thinking")
+      if (block) {
+        block.cache_control = cacheControl
+      }
     }
   }
 
@@ -198,6 +257,12 @@ export class AnthropicProvider implements LLMProvider {
               name: block.name,
               input: block.input,
             })
+          } else if (isOwnThinking(block, this.id) && msg.role === "assistant") {
+            content.push(
+              block.redacted
+                ? { type: "redacted_thinking", data: block.signature }
+                : { type: "thinking", thinking: block.thinking, signature: block.signature }
+            )
           } else if (block.type === "tool_result") {
             content.push({
               type: "tool_result",
@@ -226,6 +291,27 @@ export class AnthropicProvider implements LLMProvider {
     }))
   }
 
+  /**
+   * Convert a tool choice to Anthropic format
+   */
+  private convertToolChoice(
+    choice: ToolChoice | undefined,
+    parallelToolCalls: boolean | undefined
+  ): AnthropicRequest["tool_choice"] {
+    if (choice === "none") {
+      return { type: "none" }
+    }
+
+    const disableParallel = parallelToolCalls === false ? { disable_parallel_tool_use: true } : {}
+    if (typeof choice === "object") {
+      return { type: "tool", name: choice.name, ...disableParallel }
+    }
+    if (choice === "any") {
+      return { type: "any", ...disableParallel }
+    }
+    return choice === "auto" || parallelToolCalls === false ? { type: "auto", ...disableParallel } : undefined
+  }
+
   /**
    * Convert Anthropic response to SDK format
    */
@@ -242,6 +328,9 @@ export class AnthropicProvider implements LLMProvider {
           input: block.input!,
         }
       }
+      if (block.type === "thinking" || block.type === "redacted_thinking") {
+        return this.convertThinkingBlock(block)
+      }
       return { type: "text", text: "" }
     })
 
@@ -256,10 +345,21 @@ export class AnthropicProvider implements LLMProvider {
         output_tokens: data.usage.output_tokens,
         cache_creation_input_tokens: data.usage.cache_creation_input_tokens,
         cache_read_input_tokens: data.usage.cache_read_input_tokens,
+        cache_creation: data.usage.cache_creation,
       },
     }
   }
 
+  /**
+   * Convert an Anthropic thinking or redacted_thinking block
+   */
+  private convertThinkingBlock(block: AnthropicResponse["content"][0]): ContentBlock {
+    if (block.type === "redacted_thinking") {
+      return { type: "thinking", thinking: "", signature: block.data, redacted: true, provider: this.id }
+    }
+    return { type: "thinking", thinking: block.thinking ?? "", signature: block.signature, provider: this.id }
+  }
+
   /**
    * Create stream iterator from SSE response
    */
@@ -297,6 +397,11 @@ export class AnthropicProvider implements LLMProvider {
                     // Call callbacks
                     if (streamEvent.type === "content_block_delta" && streamEvent.delta.type === "text_delta") {
                       options?.onText?.(streamEvent.delta.text!)
+                    } else if (
+                      streamEvent.type === "content_block_delta" &&
+                      streamEvent.delta.type === "thinking_delta"
+                    ) {
+                      options?.onThinking?.(streamEvent.delta.thinking!)
                     }
 
                     options?.onEvent?.(streamEvent)
@@ -339,7 +444,10 @@ export class AnthropicProvider implements LLMProvider {
         return {
           type: "content_block_start",
           index: event.index,
-          content_block: event.content_block,
+          content_block:
+            event.content_block.type === "thinking" || event.content_block.type === "redacted_thinking"
+              ? this.convertThinkingBlock(event.content_block)
+              : event.content_block,
         }
 
       case "content_block_delta":
@@ -9,13 +9,15 @@ import type {
   LLMResponse,
   LLMStreamResponse,
   StreamOptions,
+  ToolChoice,
 } from "../types/provider"
 import type { ContentBlock, StopReason, StreamEvent, UsageInfo } from "../types/core"
 import type { ToolDefinition } from "../types/tool"
 import { fetchWithRetry, type RetryOptions } from "../utils/retry"
+import { isOwnThinking, resolveBudgetTokens } from "./reasoning"
 
 type GeminiPart =
-  | { text: string }
+  | { text: string; thought?: boolean; thoughtSignature?: string }
   | { inlineData: { mimeType: string; data: string } }
   | { fileData: { mimeType: string; fileUri: string } }
   | { functionCall: { name: string; args: Record<string, unknown>; thought_signature?: string } }
@@ -34,6 +36,9 @@ interface GeminiRequest {
     topP?: number
     maxOutputTokens?: number
     stopSequences?: string[]
+    responseMimeType?: string
+    responseSchema?: Record<string, unknown>
+    thinkingConfig?: { thinkingBudget: number; includeThoughts: boolean }
   }
   tools?: Array<{
     functionDeclarations: Array<{
@@ -44,7 +49,8 @@ interface GeminiRequest {
   }>
   toolConfig?: {
     functionCallingConfig: {
-      mode: "AUTO"
+      mode: "AUTO" | "ANY" | "NONE"
+      allowedFunctionNames?: string[]
     }
   }
 }
@@ -59,6 +65,7 @@ interface GeminiResponse {
   usageMetadata?: {
     promptTokenCount?: number
     candidatesTokenCount?: number
+    thoughtsTokenCount?: number
     totalTokenCount?: number
   }
   model?: string
@@ -122,6 +129,11 @@ export class GeminiProvider implements LLMProvider {
     return this.supportedModels.some((pattern) => pattern.test(model))
   }
 
+  supportsOutputFormat(request: LLMRequest): boolean {
+    // JSON response mode cannot be combined with function calling
+    return !request.tools || request.tools.length === 0
+  }
+
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const geminiRequest = this.buildRequest(request)
     const url = this.buildUrl(this.getModelPath(request.config.model) + ":generateContent")
@@ -172,6 +184,7 @@ export class GeminiProvider implements LLMProvider {
   private buildRequest(request: LLMRequest): GeminiRequest {
     const { contents, systemInstruction } = this.convertMessages(request.messages, request.systemPrompt)
     const tools = request.tools ? this.convertTools(request.tools) : undefined
+    const thinkingBudget = resolveBudgetTokens(request.config.reasoning)
 
     return {
       contents,
@@ -181,9 +194,12 @@ export class GeminiProvider implements LLMProvider {
         topP: request.config.topP,
         maxOutputTokens: request.config.maxTokens ?? this.config.defaultMaxTokens,
         stopSequences: request.config.stopSequences,
+        responseMimeType: request.outputFormat ? "application/json" : undefined,
+        responseSchema: request.outputFormat ? this.sanitizeSchema(request.outputFormat.schema) : undefined,
+        thinkingConfig: thinkingBudget !== undefined ? { thinkingBudget, includeThoughts: true } : undefined,
       },
       tools,
-      toolConfig: tools ? { functionCallingConfig: { mode: "AUTO" } } : undefined,
+      toolConfig: tools ? { functionCallingConfig: this.convertToolChoice(request.toolChoice) } : undefined,
     }
   }
 
@@ -237,6 +253,8 @@ export class GeminiProvider implements LLMProvider {
       for (const block of msg.content as ContentBlock[]) {
         if (block.type === "text") {
           parts.push({ text: block.text })
+        } else if (isOwnThinking(block, this.id) && msg.role === "assistant") {
+          parts.push({ text: block.thinking, thought: true, thoughtSignature: block.signature })
         } else if (block.type === "image") {
           if (block.source.type === "base64") {
             parts.push({
@@ -302,6 +320,20 @@ export class GeminiProvider implements LLMProvider {
     ]
   }
 
+  /**
+   * Convert a tool choice to a function calling config (Gemini has no
+   * parallel tool call setting)
+   */
+  private convertToolChoice(choice?: ToolChoice): NonNullable<GeminiRequest["toolConfig"]>["functionCallingConfig"] {
+    if (typeof choice === "object") {
+      return { mode: "ANY", allowedFunctionNames: [choice.name] }
+    }
+    if (choice === "any") {
+      return { mode: "ANY" }
+    }
+    return { mode: choice === "none" ? "NONE" : "AUTO" }
+  }
+
   private sanitizeSchema(schema: Record<string, unknown>): Record<string, unknown> {
     const visited = new WeakMap<object, Record<string, unknown>>()
 
@@ -340,7 +372,9 @@ export class GeminiProvider implements LLMProvider {
 
     let toolIndex = 0
     for (const part of parts) {
-      if ("text" in part && part.text) {
+      if ("text" in part && part.thought) {
+        content.push({ type: "thinking", thinking: part.text ?? "", signature: part.thoughtSignature, provider: this.id })
+      } else if ("text" in part && part.text) {
         content.push({ type: "text", text: part.text })
       } else if ("functionCall" in part && part.functionCall) {
         const callId = `${part.functionCall.name}_${toolIndex++}`
@@ -366,7 +400,8 @@ export class GeminiProvider implements LLMProvider {
   private convertUsage(usage?: GeminiResponse["usageMetadata"]): UsageInfo {
     return {
       input_tokens: usage?.promptTokenCount ?? 0,
-      output_tokens: usage?.candidatesTokenCount ?? 0,
+      // Thoughts are billed as output
+      output_tokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
     }
   }
 
@@ -395,10 +430,20 @@ export class GeminiProvider implements LLMProvider {
         let buffer = ""
         let emittedMessageStart = false
         let textBlockStarted = false
+        let thinkingBlockOpen = false
         let finished = false
         let toolIndex = 0
         let emittedAny = false
 
+        // Thought parts come first and are closed before the answer starts
+        const closeThinking = () => {
+          if (!thinkingBlockOpen) return
+          thinkingBlockOpen = false
+          const stopThinking: StreamEvent = { type: "content_block_stop", index: 0 }
+          options?.onEvent?.(stopThinking)
+          return stopThinking
+        }
+
         const emitMessageStart = (modelId: string) => {
           if (emittedMessageStart) return
           emittedMessageStart = true
@@ -454,6 +499,47 @@ export class GeminiProvider implements LLMProvider {
               const parts = candidate?.content?.parts ?? []
 
               for (const part of parts) {
+                if ("text" in part && part.thought) {
+                  if (!thinkingBlockOpen) {
+                    thinkingBlockOpen = true
+                    const startThinking: StreamEvent = {
+                      type: "content_block_start",
+                      index: 0,
+                      content_block: { type: "thinking", thinking: "", provider: self.id },
+                    }
+                    options?.onEvent?.(startThinking)
+                    yield startThinking
+                  }
+
+                  if (part.text) {
+                    const thinkingEvent: StreamEvent = {
+                      type: "content_block_delta",
+                      index: 0,
+                      delta: { type: "thinking_delta", thinking: part.text },
+                    }
+                    options?.onThinking?.(part.text)
+                    options?.onEvent?.(thinkingEvent)
+                    yield thinkingEvent
+                  }
+
+                  if (part.thoughtSignature) {
+                    const signatureEvent: StreamEvent = {
+                      type: "content_block_delta",
+                      index: 0,
+                      delta: { type: "signature_delta", signature: part.thoughtSignature },
+                    }
+                    options?.onEvent?.(signatureEvent)
+                    yield signatureEvent
+                  }
+                  emittedAny = true
+                  continue
+                }
+
+                const stopThinking = closeThinking()
+                if (stopThinking) {
+                  yield stopThinking
+                }
+
                 if ("text" in part && part.text) {
                   if (!textBlockStarted) {
                     textBlockStarted = true
@@ -527,6 +613,11 @@ export class GeminiProvider implements LLMProvider {
               if (candidate?.finishReason && !finished) {
                 finished = true
 
+                const stopThinking = closeThinking()
+                if (stopThinking) {
+                  yield stopThinking
+                }
+
                 if (textBlockStarted) {
                   const stopText: StreamEvent = { type: "content_block_stop", index: 0 }
                   options?.onEvent?.(stopText)
@@ -572,7 +663,7 @@ export class GeminiProvider implements LLMProvider {
                 const parts = candidate?.content?.parts ?? []
 
                 for (const part of parts) {
-                  if ("text" in part && part.text) {
+                  if ("text" in part && part.text && !part.thought) {
                     if (!textBlockStarted) {
                       textBlockStarted = true
                       const startText: StreamEvent = {
@@ -624,6 +715,10 @@ export class GeminiProvider implements LLMProvider {
         }
 
         if (!finished) {
+          const stopThinking = closeThinking()
+          if (stopThinking) {
+            yield stopThinking
+          }
           if (textBlockStarted) {
             const stopText: StreamEvent = { type: "content_block_stop", index: 0 }
             options?.onEvent?.(stopText)
@@ -670,7 +765,32 @@ export class GeminiProvider implements LLMProvider {
           yield startEvent
 
           for (const part of parts) {
-            if ("text" in part && part.text) {
+            if ("text" in part && part.thought) {
+              const startThinking: StreamEvent = {
+                type: "content_block_start",
+                index: textIndex,
+                content_block: { type: "thinking", thinking: "", signature: part.thoughtSignature, provider: self.id },
+              }
+              options?.onEvent?.(startThinking)
+              yield startThinking
+
+              if (part.text) {
+                const thinkingEvent: StreamEvent = {
+                  type: "content_block_delta",
+                  index: textIndex,
+                  delta: { type: "thinking_delta", thinking: part.text },
+                }
+                options?.onThinking?.(part.text)
+                options?.onEvent?.(thinkingEvent)
+                yield thinkingEvent
+              }
+
+              const stopThinking: StreamEvent = { type: "content_block_stop", index: textIndex }
+              options?.onEvent?.(stopThinking)
+              yield stopThinking
+
+              textIndex += 1
+            } else if ("text" in part && part.text) {
               const startText: StreamEvent = {
                 type: "content_block_start",
                 index: textIndex,
@@ -15,6 +15,25 @@ export type { OpenAICompatibleConfig } from "./openai"
 export { GeminiProvider, createGeminiProvider } from "./gemini"
 export type { GeminiProviderConfig } from "./gemini"
 
+// Ollama provider
+export { OllamaProvider, createOllamaProvider } from "./ollama"
+export type { OllamaProviderConfig } from "./ollama"
+
+// Test providers
+export { MockProvider, MockProviderError, createMockProvider } from "./mock"
+export type { MockProviderConfig, MockTurn } from "./mock"
+export {
+  RecordingProvider,
+  RecordingMismatchError,
+  createRecordingProvider,
+} from "./recording"
+export type {
+  RecordingProviderConfig,
+  RecordingMode,
+  RecordedInteraction,
+  RecordingFixture,
+} from "./recording"
+
 // Provider resolver
 export {
   ProviderResolver,
@@ -0,0 +1,318 @@
+/**
+ * Scripted provider for tests
+ * @module formagent-sdk/llm/mock
+ */
+
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamResponse, StreamOptions } from "../types/provider"
+import type { ContentBlock, StopReason, StreamEvent, UsageInfo } from "../types/core"
+
+/**
+ * One scripted model response
+ */
+export interface MockTurn {
+  /** Text to answer with (an array is streamed as separate deltas) */
+  text?: string | string[]
+  /** Thinking emitted before the text */
+  thinking?: string | { thinking: string; signature?: string }
+  /** Tool calls emitted after the text (ids default to "toolu_mock_<n>") */
+  toolUses?: Array<{ id?: string; name: string; input?: Record<string, unknown> }>
+  /** Stop reason (default: "tool_use" when there are tool calls, otherwise "end_turn") */
+  stopReason?: StopReason
+  /** Usage reported for the turn (default: zero tokens) */
+  usage?: Partial<UsageInfo>
+  /** Fail the request with this error instead of answering */
+  error?: Error | string
+  /** Check the request that consumes this turn; throw to fail it */
+  expect?: (request: LLMRequest) => void
+}
+
+/**
+ * Mock provider configuration
+ */
+export interface MockProviderConfig {
+  /** Turns answered in order, one per request */
+  turns?: MockTurn[]
+  /** Provider ID (default: "mock") */
+  id?: string
+  /** Model patterns the provider claims (default: every model) */
+  supportedModels?: RegExp[]
+  /** Whether native structured output is supported (default: true) */
+  supportsOutputFormat?: boolean
+}
+
+/**
+ * Thrown when a MockProvider gets a request it has no turn for, or a turn's
+ * `expect` check fails
+ */
+export class MockProviderError extends Error {
+  /** Zero-based index of the request */
+  readonly requestIndex: number
+
+  constructor(message: string, requestIndex: number) {
+    super(message)
+    this.name = "MockProviderError"
+    this.requestIndex = requestIndex
+  }
+}
+
+/**
+ * Deterministic provider that answers with scripted turns
+ *
+ * Each `stream()` or `complete()` call consumes the next turn and streams a
+ * well-formed event sequence for it, so whole agent flows can be tested
+ * without network access. Every request is kept in `requests` for
+ * assertions.
+ *
+ * @example
+ * ```ts
+ * const provider = new MockProvider({
+ *   turns: [
+ *     { toolUses: [{ name: "Read", input: { file_path: "a.txt" } }] },
+ *     { text: "Done", expect: (req) => assert(req.messages.length === 3) },
+ *   ],
+ * })
+ * const session = await createSession({ model: "mock", provider })
+ * ...
+ * provider.assertDone()
+ * ```
+ */
+export class MockProvider implements LLMProvider {
+  readonly id: string
+  readonly name = "Mock"
+  readonly supportedModels: RegExp[]
+
+  /** Requests received so far, in order */
+  readonly requests: LLMRequest[] = []
+
+  private turns: MockTurn[]
+  private nativeOutputFormat: boolean
+  private toolCallCount = 0
+
+  constructor(config: MockProviderConfig = {}) {
+    this.id = config.id ?? "mock"
+    this.supportedModels = config.supportedModels ?? [/.*/]
+    this.turns = [...(config.turns ?? [])]
+    this.nativeOutputFormat = config.supportsOutputFormat ?? true
+  }
+
+  supportsModel(model: string): boolean {
+    return this.supportedModels.some((pattern) => pattern.test(model))
+  }
+
+  supportsOutputFormat(): boolean {
+    return this.nativeOutputFormat
+  }
+
+  /**
+   * Script more turns
+   */
+  addTurns(...turns: MockTurn[]): this {
+    this.turns.push(...turns)
+    return this
+  }
+
+  /**
+   * Number of scripted turns not consumed yet
+   */
+  get remainingTurns(): number {
+    return Math.max(0, this.turns.length - this.requests.length)
+  }
+
+  /**
+   * The most recent request
+   */
+  get lastRequest(): LLMRequest | undefined {
+    return this.requests[this.requests.length - 1]
+  }
+
+  /**
+   * Throw if any scripted turn was not used
+   *
+   * @throws MockProviderError if turns remain
+   */
+  assertDone(): void {
+    if (this.remainingTurns > 0) {
+      throw new MockProviderError(
+        `MockProvider has ${this.remainingTurns} unused turn(s): got ${this.requests.length} request(s) for ${this.turns.length} scripted turn(s)`,
+        this.requests.length
+      )
+    }
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const turn = this.nextTurn(request)
+    const content = this.buildContent(turn)
+
+    return {
+      id: `msg_mock_${this.requests.length}`,
+      model: request.config.model,
+      content,
+      stopReason: this.resolveStopReason(turn),
+      stopSequence: null,
+      usage: { input_tokens: 0, output_tokens: 0, ...turn.usage },
+    }
+  }
+
+  async stream(request: LLMRequest, options?: StreamOptions): Promise<LLMStreamResponse> {
+    const turn = this.nextTurn(request)
+    const events = this.buildEvents(turn, request.config.model)
+    return createEventStream(events, options)
+  }
+
+  /**
+   * Record a request and take the turn that answers it
+   */
+  private nextTurn(request: LLMRequest): MockTurn {
+    const index = this.requests.length
+    this.requests.push(request)
+
+    const turn = this.turns[index]
+    if (!turn) {
+      throw new MockProviderError(
+        `MockProvider received request #${index + 1} but only ${this.turns.length} turn(s) were scripted`,
+        index
+      )
+    }
+
+    if (turn.expect) {
+      try {
+        turn.expect(request)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        throw new MockProviderError(`MockProvider request #${index + 1} failed its expectation: ${reason}`, index)
+      }
+    }
+
+    if (turn.error) {
+      throw typeof turn.error === "string" ? new Error(turn.error) : turn.error
+    }
+
+    return turn
+  }
+
+  private resolveStopReason(turn: MockTurn): StopReason {
+    return turn.stopReason ?? (turn.toolUses?.length ? "tool_use" : "end_turn")
+  }
+
+  private buildContent(turn: MockTurn): ContentBlock[] {
+    const content: ContentBlock[] = []
+
+    if (turn.thinking !== undefined) {
+      const thinking = typeof turn.thinking === "string" ? { thinking: turn.thinking } : turn.thinking
+      content.push({ type: "thinking", ...thinking, provider: this.id })
+    }
+    if (turn.text !== undefined) {
+      content.push({ type: "text", text: Array.isArray(turn.text) ? turn.text.join("") : turn.text })
+    }
+    for (const toolUse of turn.toolUses ?? []) {
+      content.push({
+        type: "tool_use",
+        id: toolUse.id ?? `toolu_mock_${++this.toolCallCount}`,
+        name: toolUse.name,
+        input: toolUse.input ?? {},
+      })
+    }
+
+    return content
+  }
+
+  private buildEvents(turn: MockTurn, model: string): StreamEvent[] {
+    const { output_tokens = 0, ...inputUsage } = turn.usage ?? {}
+    const events: StreamEvent[] = [
+      {
+        type: "message_start",
+        message: {
+          id: `msg_mock_${this.requests.length}`,
+          type: "message",
+          role: "assistant",
+          content: [],
+          model,
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0, ...inputUsage },
+        },
+      },
+    ]
+
+    this.buildContent(turn).forEach((block, index) => {
+      if (block.type === "thinking") {
+        events.push(
+          { type: "content_block_start", index, content_block: { type: "thinking", thinking: "", provider: this.id } },
+          { type: "content_block_delta", index, delta: { type: "thinking_delta", thinking: block.thinking } }
+        )
+        if (block.signature) {
+          events.push({ type: "content_block_delta", index, delta: { type: "signature_delta", signature: block.signature } })
+        }
+      } else if (block.type === "text") {
+        events.push({ type: "content_block_start", index, content_block: { type: "text", text: "" } })
+        const chunks = Array.isArray(turn.text) ? turn.text : [block.text]
+        for (const chunk of chunks) {
+          events.push({ type: "content_block_delta", index, delta: { type: "text_delta", text: chunk } })
+        }
+      } else if (block.type === "tool_use") {
+        events.push(
+          { type: "content_block_start", index, content_block: { ...block, input: {} } },
+          { type: "content_block_delta", index, delta: { type: "input_json_delta", partial_json: JSON.stringify(block.input) } }
+        )
+      }
+      events.push({ type: "content_block_stop", index })
+    })
+
+    events.push(
+      {
+        type: "message_delta",
+        delta: { stop_reason: this.resolveStopReason(turn), stop_sequence: null },
+        usage: { output_tokens },
+      },
+      { type: "message_stop" }
+    )
+
+    return events
+  }
+}
+
+/**
+ * Stream a fixed list of events, calling the stream callbacks as a live
+ * provider would
+ */
+export function createEventStream(events: StreamEvent[], options?: StreamOptions): LLMStreamResponse {
+  return {
+    async *[Symbol.asyncIterator](): AsyncIterator<StreamEvent> {
+      const toolInputs = new Map<number, { id: string; name: string; json: string }>()
+
+      for (const event of events) {
+        if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+          toolInputs.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: "" })
+        } else if (event.type === "content_block_delta") {
+          if (event.delta.type === "text_delta" && event.delta.text) {
+            options?.onText?.(event.delta.text)
+          } else if (event.delta.type === "thinking_delta" && event.delta.thinking) {
+            options?.onThinking?.(event.delta.thinking)
+          } else if (event.delta.type === "input_json_delta") {
+            const tool = toolInputs.get(event.index)
+            if (tool) tool.json += event.delta.partial_json ?? ""
+          }
+        } else if (event.type === "content_block_stop") {
+          const tool = toolInputs.get(event.index)
+          if (tool) {
+            toolInputs.delete(event.index)
+            options?.onToolUse?.({ id: tool.id, name: tool.name, input: tool.json ? JSON.parse(tool.json) : {} })
+          }
+        }
+
+        options?.onEvent?.(event)
+        yield event
+      }
+    },
+  }
+}
+
+/**
+ * Create a mock provider
+ *
+ * @param turns - Scripted turns
+ * @returns MockProvider instance
+ */
+export function createMockProvider(turns: MockTurn[] = []): MockProvider {
+  return new MockProvider({ turns })
+}
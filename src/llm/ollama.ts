@@ -0,0 +1,564 @@
+/**
+ * Ollama provider implementation
+ * @module formagent-sdk/llm/ollama
+ */
+
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamResponse,
+  StreamOptions,
+} from "../types/provider"
+import type { ContentBlock, StopReason, StreamEvent, UsageInfo } from "../types/core"
+import type { ToolDefinition } from "../types/tool"
+import { fetchWithRetry, type RetryOptions } from "../utils/retry"
+import { generateId } from "../utils/id"
+import { isOwnThinking } from "./reasoning"
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> }
+}
+
+interface OllamaMessage {
+  role: "system" | "user" | "assistant" | "tool"
+  content: string
+  thinking?: string
+  images?: string[]
+  tool_calls?: OllamaToolCall[]
+  tool_name?: string
+}
+
+interface OllamaRequest {
+  model: string
+  messages: OllamaMessage[]
+  tools?: Array<{
+    type: "function"
+    function: {
+      name: string
+      description?: string
+      parameters: Record<string, unknown>
+    }
+  }>
+  stream: boolean
+  format?: Record<string, unknown>
+  think?: boolean
+  keep_alive?: string | number
+  options: {
+    temperature?: number
+    top_p?: number
+    top_k?: number
+    num_predict?: number
+    num_ctx?: number
+    stop?: string[]
+  }
+}
+
+/**
+ * A full /api/chat response, or one line of the NDJSON stream
+ */
+interface OllamaChatChunk {
+  model?: string
+  message?: Partial<OllamaMessage>
+  done?: boolean
+  done_reason?: string
+  prompt_eval_count?: number
+  eval_count?: number
+  error?: string
+}
+
+/**
+ * Ollama provider configuration
+ */
+export interface OllamaProviderConfig {
+  /**
+   * Server URL (defaults to OLLAMA_HOST env var or http://localhost:11434).
+   * Like OLLAMA_HOST, may omit the scheme and port ("0.0.0.0", "127.0.0.1:8080").
+   */
+  baseUrl?: string
+  /** Default max tokens (num_predict) */
+  defaultMaxTokens?: number
+  /** How long the server keeps the model loaded after a request ("5m", "1h", seconds, or -1 to keep it loaded) */
+  keepAlive?: string | number
+  /** Context window size in tokens (num_ctx); the server default is used when unset */
+  contextLength?: number
+  /** Retry configuration for API requests */
+  retry?: RetryOptions
+}
+
+const DEFAULT_BASE_URL = "http://localhost:11434"
+const DEFAULT_PORT = "11434"
+
+/**
+ * Turn an OLLAMA_HOST style value into a base URL
+ *
+ * Follows Ollama's own rules: a value without a scheme is plain HTTP and
+ * defaults to port 11434 (and host 127.0.0.1 when only a port is given).
+ * Values with a scheme are used as they are.
+ */
+function normalizeBaseUrl(value?: string): string {
+  const trimmed = value?.trim()
+  if (!trimmed) {
+    return DEFAULT_BASE_URL
+  }
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    return trimmed.replace(/\/+$/, "")
+  }
+
+  const slash = trimmed.indexOf("/")
+  const hostport = slash === -1 ? trimmed : trimmed.slice(0, slash)
+  const path = slash === -1 ? "" : trimmed.slice(slash)
+
+  let host = hostport
+  let port = ""
+  if (hostport.startsWith("[")) {
+    const match = /^(\[[^\]]*\])(?::(\d*))?$/.exec(hostport)
+    host = match?.[1] ?? hostport
+    port = match?.[2] ?? ""
+  } else if (hostport.split(":").length > 2) {
+    // Bare IPv6 address
+    host = `[${hostport}]`
+  } else if (hostport.includes(":")) {
+    host = hostport.slice(0, hostport.lastIndexOf(":"))
+    port = hostport.slice(hostport.lastIndexOf(":") + 1)
+  }
+
+  return `http://${host || "127.0.0.1"}:${port || DEFAULT_PORT}${path}`.replace(/\/+$/, "")
+}
+
+/**
+ * Ollama provider
+ *
+ * Implements the LLMProvider interface for models served by a local
+ * Ollama server, using the native /api/chat endpoint.
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly id = "ollama"
+  readonly name = "Ollama"
+  readonly supportedModels = [
+    /^llama/,
+    /^codellama/,
+    /^mistral/,
+    /^mixtral/,
+    /^qwen/,
+    /^phi\d/,
+    /^gemma/,
+  ]
+
+  private config: Required<Pick<OllamaProviderConfig, "baseUrl" | "defaultMaxTokens">> &
+    Pick<OllamaProviderConfig, "keepAlive" | "contextLength" | "retry">
+  private defaultRetryOptions: RetryOptions
+
+  constructor(config: OllamaProviderConfig = {}) {
+    this.config = {
+      baseUrl: normalizeBaseUrl(config.baseUrl ?? process.env.OLLAMA_HOST),
+      defaultMaxTokens: config.defaultMaxTokens ?? 4096,
+      keepAlive: config.keepAlive,
+      contextLength: config.contextLength,
+      retry: config.retry,
+    }
+
+    // Default retry options (can be overridden per request)
+    this.defaultRetryOptions = {
+      maxAttempts: 3,
+      initialDelay: 1000,
+      maxDelay: 30000,
+      backoffMultiplier: 2,
+      jitter: true,
+    }
+  }
+
+  supportsModel(model: string): boolean {
+    return this.supportedModels.some((pattern) => pattern.test(model))
+  }
+
+  supportsOutputFormat(request: LLMRequest): boolean {
+    // A format schema constrains every token, which leaves no room for tool calls
+    return !request.tools || request.tools.length === 0
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const ollamaRequest = this.buildRequest(request, false)
+    const response = await this.post(ollamaRequest, request.abortSignal)
+
+    const data = (await response.json()) as OllamaChatChunk
+    if (data.error) {
+      throw new Error(`Ollama API error: ${data.error}`)
+    }
+    return this.convertResponse(data, request.config.model)
+  }
+
+  async stream(request: LLMRequest, options?: StreamOptions): Promise<LLMStreamResponse> {
+    const ollamaRequest = this.buildRequest(request, true)
+    const response = await this.post(ollamaRequest, request.abortSignal)
+
+    return this.createStreamIterator(response.body!, options, request.config.model)
+  }
+
+  private async post(body: OllamaRequest, signal?: AbortSignal): Promise<Response> {
+    const url = `${this.config.baseUrl}/api/chat`
+    const retryOptions = this.config.retry ?? this.defaultRetryOptions
+
+    return fetchWithRetry(
+      url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal,
+      },
+      retryOptions
+    )
+  }
+
+  private buildRequest(request: LLMRequest, stream: boolean): OllamaRequest {
+    // Ollama has no tool choice setting, so "none" is honoured by not sending tools
+    const tools =
+      request.tools && request.tools.length > 0 && request.toolChoice !== "none"
+        ? this.convertTools(request.tools)
+        : undefined
+
+    return {
+      model: request.config.model,
+      messages: this.convertMessages(request.messages, request.systemPrompt),
+      tools,
+      stream,
+      format: request.outputFormat && !tools ? request.outputFormat.schema : undefined,
+      think: request.config.reasoning ? true : undefined,
+      keep_alive: this.config.keepAlive,
+      options: {
+        temperature: request.config.temperature,
+        top_p: request.config.topP,
+        top_k: request.config.topK,
+        num_predict: request.config.maxTokens ?? this.config.defaultMaxTokens,
+        num_ctx: this.config.contextLength,
+        stop: request.config.stopSequences,
+      },
+    }
+  }
+
+  private convertMessages(messages: LLMRequest["messages"], systemPrompt?: string): OllamaMessage[] {
+    const result: OllamaMessage[] = []
+    const toolNameById = new Map<string, string>()
+
+    if (systemPrompt) {
+      result.push({ role: "system", content: systemPrompt })
+    }
+
+    for (const msg of messages) {
+      if (typeof msg.content === "string") {
+        result.push({ role: msg.role, content: msg.content })
+        continue
+      }
+
+      const texts: string[] = []
+      const thinking: string[] = []
+      const images: string[] = []
+      const toolCalls: OllamaToolCall[] = []
+      const toolResults: OllamaMessage[] = []
+
+      for (const block of msg.content as ContentBlock[]) {
+        if (block.type === "text") {
+          texts.push(block.text)
+        } else if (isOwnThinking(block, this.id) && msg.role === "assistant") {
+          thinking.push(block.thinking)
+        } else if (block.type === "image") {
+          // The server only accepts inline image data
+          if (block.source.type === "base64" && block.source.data) {
+            images.push(block.source.data)
+          }
+        } else if (block.type === "tool_use") {
+          toolNameById.set(block.id, block.name)
+          toolCalls.push({ function: { name: block.name, arguments: block.input } })
+        } else if (block.type === "tool_result") {
+          toolResults.push(this.convertToolResult(block, toolNameById.get(block.tool_use_id)))
+        }
+      }
+
+      // Tool results answer the previous assistant turn, so they go first
+      result.push(...toolResults)
+
+      if (texts.length > 0 || images.length > 0 || toolCalls.length > 0 || thinking.length > 0) {
+        result.push({
+          role: msg.role,
+          content: texts.join("\n"),
+          thinking: thinking.length > 0 ? thinking.join("\n") : undefined,
+          images: images.length > 0 ? images : undefined,
+          tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        })
+      }
+    }
+
+    return result
+  }
+
+  private convertToolResult(
+    block: Extract<ContentBlock, { type: "tool_result" }>,
+    toolName?: string
+  ): OllamaMessage {
+    if (typeof block.content === "string") {
+      return { role: "tool", content: block.content, tool_name: toolName }
+    }
+
+    const texts: string[] = []
+    const images: string[] = []
+    for (const inner of block.content) {
+      if (inner.type === "text") {
+        texts.push(inner.text)
+      } else if (inner.type === "image" && inner.source.type === "base64" && inner.source.data) {
+        images.push(inner.source.data)
+      }
+    }
+
+    return {
+      role: "tool",
+      content: texts.join("\n"),
+      images: images.length > 0 ? images : undefined,
+      tool_name: toolName,
+    }
+  }
+
+  private convertTools(tools: ToolDefinition[]): OllamaRequest["tools"] {
+    return tools.map((tool) => ({
+      type: "function" as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema,
+      },
+    }))
+  }
+
+  private convertResponse(data: OllamaChatChunk, model: string): LLMResponse {
+    const content: ContentBlock[] = []
+    const message = data.message ?? {}
+
+    if (message.thinking) {
+      content.push({ type: "thinking", thinking: message.thinking, provider: this.id })
+    }
+    if (message.content) {
+      content.push({ type: "text", text: message.content })
+    }
+    for (const call of message.tool_calls ?? []) {
+      content.push({
+        type: "tool_use",
+        id: generateId("call"),
+        name: call.function.name,
+        input: call.function.arguments ?? {},
+      })
+    }
+
+    const hasToolCalls = content.some((block) => block.type === "tool_use")
+
+    return {
+      id: "",
+      model: data.model ?? model,
+      content,
+      stopReason: this.convertStopReason(data.done_reason, hasToolCalls),
+      stopSequence: null,
+      usage: this.convertUsage(data),
+    }
+  }
+
+  private convertUsage(data: OllamaChatChunk): UsageInfo {
+    return {
+      input_tokens: data.prompt_eval_count ?? 0,
+      output_tokens: data.eval_count ?? 0,
+    }
+  }
+
+  private convertStopReason(reason: string | undefined, hasToolCalls: boolean): StopReason {
+    if (reason === "length") {
+      return "max_tokens"
+    }
+    return hasToolCalls ? "tool_use" : "end_turn"
+  }
+
+  private createStreamIterator(
+    body: ReadableStream<Uint8Array>,
+    options: StreamOptions | undefined,
+    model: string
+  ): LLMStreamResponse {
+    const self = this
+
+    return {
+      async *[Symbol.asyncIterator](): AsyncIterator<StreamEvent> {
+        const reader = body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ""
+        let emittedMessageStart = false
+        let finished = false
+        let nextIndex = 0
+        let hasToolCalls = false
+        // Thinking and text arrive as deltas; only one of them is open at a time
+        let openBlock: { type: "thinking" | "text"; index: number } | undefined
+
+        const emit = (event: StreamEvent): StreamEvent => {
+          options?.onEvent?.(event)
+          return event
+        }
+
+        const closeOpenBlock = (): StreamEvent | undefined => {
+          if (!openBlock) return
+          const stop: StreamEvent = { type: "content_block_stop", index: openBlock.index }
+          openBlock = undefined
+          return emit(stop)
+        }
+
+        function* handleChunk(chunk: OllamaChatChunk): Generator<StreamEvent> {
+          if (chunk.error) {
+            throw new Error(`Ollama API error: ${chunk.error}`)
+          }
+
+          if (!emittedMessageStart) {
+            emittedMessageStart = true
+            yield emit({
+              type: "message_start",
+              message: {
+                id: "",
+                type: "message",
+                role: "assistant",
+                content: [],
+                model: chunk.model ?? model,
+                stop_reason: null,
+                stop_sequence: null,
+                usage: { input_tokens: 0, output_tokens: 0 },
+              },
+            })
+          }
+
+          const message = chunk.message ?? {}
+
+          if (message.thinking) {
+            if (openBlock?.type !== "thinking") {
+              const stop = closeOpenBlock()
+              if (stop) yield stop
+              openBlock = { type: "thinking", index: nextIndex++ }
+              yield emit({
+                type: "content_block_start",
+                index: openBlock.index,
+                content_block: { type: "thinking", thinking: "", provider: self.id },
+              })
+            }
+            options?.onThinking?.(message.thinking)
+            yield emit({
+              type: "content_block_delta",
+              index: openBlock.index,
+              delta: { type: "thinking_delta", thinking: message.thinking },
+            })
+          }
+
+          if (message.content) {
+            if (openBlock?.type !== "text") {
+              const stop = closeOpenBlock()
+              if (stop) yield stop
+              openBlock = { type: "text", index: nextIndex++ }
+              yield emit({
+                type: "content_block_start",
+                index: openBlock.index,
+                content_block: { type: "text", text: "" },
+              })
+            }
+            options?.onText?.(message.content)
+            yield emit({
+              type: "content_block_delta",
+              index: openBlock.index,
+              delta: { type: "text_delta", text: message.content },
+            })
+          }
+
+          // Tool calls arrive whole rather than as argument deltas
+          for (const call of message.tool_calls ?? []) {
+            const stop = closeOpenBlock()
+            if (stop) yield stop
+
+            const index = nextIndex++
+            const id = generateId("call")
+            const input = call.function.arguments ?? {}
+            hasToolCalls = true
+
+            yield emit({
+              type: "content_block_start",
+              index,
+              content_block: { type: "tool_use", id, name: call.function.name, input: {} },
+            })
+            yield emit({
+              type: "content_block_delta",
+              index,
+              delta: { type: "input_json_delta", partial_json: JSON.stringify(input) },
+            })
+            yield emit({ type: "content_block_stop", index })
+            options?.onToolUse?.({ id, name: call.function.name, input })
+          }
+
+          if (chunk.done && !finished) {
+            finished = true
+            const stop = closeOpenBlock()
+            if (stop) yield stop
+
+            yield emit({
+              type: "message_delta",
+              delta: {
+                stop_reason: self.convertStopReason(chunk.done_reason, hasToolCalls),
+                stop_sequence: null,
+              },
+              usage: self.convertUsage(chunk),
+            })
+            yield emit({ type: "message_stop" })
+          }
+        }
+
+        const parseLine = (line: string): OllamaChatChunk | undefined => {
+          const trimmed = line.trim()
+          if (!trimmed) return
+          try {
+            return JSON.parse(trimmed) as OllamaChatChunk
+          } catch {
+            return
+          }
+        }
+
+        try {
+          while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+
+            buffer += decoder.decode(value, { stream: true })
+            const lines = buffer.split("\n")
+            buffer = lines.pop() || ""
+
+            for (const line of lines) {
+              const chunk = parseLine(line)
+              if (chunk) {
+                yield* handleChunk(chunk)
+              }
+            }
+          }
+
+          const last = parseLine(buffer)
+          if (last) {
+            yield* handleChunk(last)
+          }
+        } finally {
+          reader.releaseLock()
+        }
+
+        if (!finished) {
+          const stop = closeOpenBlock()
+          if (stop) yield stop
+          yield emit({ type: "message_stop" })
+        }
+      },
+    }
+  }
+}
+
+/**
+ * Create an Ollama provider
+ *
+ * @param config - Provider configuration
+ * @returns OllamaProvider instance
+ */
+export function createOllamaProvider(config: OllamaProviderConfig = {}): OllamaProvider {
+  return new OllamaProvider(config)
+}
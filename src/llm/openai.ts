@@ -11,6 +11,7 @@ import type {
   StreamOptions,
   OpenAIRequest,
   OpenAIResponse,
+  ToolChoice,
 } from "../types/provider"
 import type {
   StreamEvent,
@@ -19,6 +20,7 @@ import type {
 } from "../types/core"
 import type { ToolDefinition } from "../types/tool"
 import { fetchWithRetry, type RetryOptions } from "../utils/retry"
+import { isOwnThinking, resolveEffort } from "./reasoning"
 
 type OpenAIResponsesInputItem =
   | { role: "system" | "developer"; content: string }
@@ -26,6 +28,12 @@ type OpenAIResponsesInputItem =
   | { role: "assistant"; content: Array<{ type: "output_text"; text: string }>; id?: string }
   | { type: "function_call"; call_id: string; name: string; arguments: string; id?: string }
   | { type: "function_call_output"; call_id: string; output: string }
+  | {
+      type: "reasoning"
+      id?: string
+      summary: Array<{ type: "summary_text"; text: string }>
+      encrypted_content?: string
+    }
 
 interface OpenAIResponsesRequest {
   model: string
@@ -35,12 +43,19 @@ interface OpenAIResponsesRequest {
   top_p?: number
   stop?: string[]
   stream?: boolean
+  reasoning?: { effort: "low" | "medium" | "high"; summary?: "auto" }
+  include?: string[]
+  text?: {
+    format: { type: "json_schema"; name: string; schema: Record<string, unknown>; strict?: boolean }
+  }
   tools?: Array<{
     type: "function"
     name: string
     description?: string
     parameters: Record<string, unknown>
   }>
+  tool_choice?: "auto" | "none" | "required" | { type: "function"; name: string }
+  parallel_tool_calls?: boolean
 }
 
 interface OpenAIResponsesResponse {
@@ -53,6 +68,8 @@ interface OpenAIResponsesResponse {
     name?: string
     arguments?: string
     content?: Array<{ type: "output_text"; text: string }>
+    summary?: Array<{ type: "summary_text"; text: string }>
+    encrypted_content?: string
   }>
   usage?: {
     input_tokens: number
@@ -72,10 +89,21 @@ export interface OpenAICompatibleConfig {
   organization?: string
   /** Default max tokens */
   defaultMaxTokens?: number
+  /**
+   * Whether `response_format: json_schema` is supported (default: true for
+   * current models on the official endpoint, false for other base URLs).
+   * When false, sessions fall back to the final-answer tool.
+   */
+  supportsStructuredOutput?: boolean
   /** Retry configuration for API requests */
   retry?: RetryOptions
 }
 
+/**
+ * Models on the official endpoint that predate json_schema output
+ */
+const LEGACY_OUTPUT_FORMAT_MODELS = [/^gpt-3\.5/, /^gpt-4(-|$)/, /^gpt-4o-2024-05-13/, /^o1-(preview|mini)/]
+
 /**
  * OpenAI API provider
  *
@@ -105,7 +133,7 @@ export class OpenAIProvider implements LLMProvider {
   ]
 
   private config: Required<Pick<OpenAICompatibleConfig, "apiKey" | "baseUrl" | "defaultMaxTokens">> &
-    Pick<OpenAICompatibleConfig, "organization" | "retry">
+    Pick<OpenAICompatibleConfig, "organization" | "supportsStructuredOutput" | "retry">
   private defaultRetryOptions: RetryOptions
 
   constructor(config: OpenAICompatibleConfig = {}) {
@@ -123,6 +151,7 @@ export class OpenAIProvider implements LLMProvider {
       ),
       organization: config.organization,
       defaultMaxTokens: config.defaultMaxTokens ?? 4096,
+      supportsStructuredOutput: config.supportsStructuredOutput,
       retry: config.retry,
     }
 
@@ -140,6 +169,17 @@ export class OpenAIProvider implements LLMProvider {
     return this.supportedModels.some((pattern) => pattern.test(model))
   }
 
+  supportsOutputFormat(request: LLMRequest): boolean {
+    if (this.config.supportsStructuredOutput !== undefined) {
+      return this.config.supportsStructuredOutput
+    }
+    // Compatible servers and older models reject json_schema response formats
+    if (!this.isOfficialEndpoint()) {
+      return false
+    }
+    return !LEGACY_OUTPUT_FORMAT_MODELS.some((pattern) => pattern.test(request.config.model))
+  }
+
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const retryOptions = this.config.retry ?? this.defaultRetryOptions
 
@@ -275,6 +315,19 @@ export class OpenAIProvider implements LLMProvider {
       stream,
       stream_options: stream ? { include_usage: true } : undefined,
       tools,
+      reasoning_effort: resolveEffort(request.config.reasoning),
+    }
+
+    if (tools?.length) {
+      openaiRequest.tool_choice = this.convertToolChoice(request.toolChoice)
+      openaiRequest.parallel_tool_calls = request.parallelToolCalls
+    }
+
+    if (request.outputFormat) {
+      openaiRequest.response_format = {
+        type: "json_schema",
+        json_schema: { name: "structured_output", schema: request.outputFormat.schema, strict: false },
+      }
     }
 
     if (this.usesMaxCompletionTokens(request.config.model)) {
@@ -289,6 +342,7 @@ export class OpenAIProvider implements LLMProvider {
   private buildResponsesRequest(request: LLMRequest, stream: boolean): OpenAIResponsesRequest {
     const input = this.convertResponsesInput(request.messages, request.systemPrompt)
     const tools = request.tools ? this.convertResponsesTools(request.tools) : undefined
+    const effort = resolveEffort(request.config.reasoning)
 
     return {
       model: request.config.model,
@@ -298,8 +352,40 @@ export class OpenAIProvider implements LLMProvider {
       top_p: request.config.topP,
       stop: request.config.stopSequences,
       stream,
+      // Encrypted reasoning is sent back on later turns (see convertResponsesInput)
+      reasoning: effort ? { effort, summary: "auto" } : undefined,
+      include: effort ? ["reasoning.encrypted_content"] : undefined,
+      text: request.outputFormat
+        ? {
+            format: {
+              type: "json_schema",
+              name: "structured_output",
+              schema: request.outputFormat.schema,
+              strict: false,
+            },
+          }
+        : undefined,
       tools,
+      tool_choice: tools?.length ? this.convertResponsesToolChoice(request.toolChoice) : undefined,
+      parallel_tool_calls: tools?.length ? request.parallelToolCalls : undefined,
+    }
+  }
+
+  /**
+   * Convert a tool choice to OpenAI format ("any" is "required")
+   */
+  private convertToolChoice(choice?: ToolChoice): OpenAIRequest["tool_choice"] {
+    if (typeof choice === "object") {
+      return { type: "function", function: { name: choice.name } }
     }
+    return choice === "any" ? "required" : choice
+  }
+
+  private convertResponsesToolChoice(choice?: ToolChoice): OpenAIResponsesRequest["tool_choice"] {
+    if (typeof choice === "object") {
+      return { type: "function", name: choice.name }
+    }
+    return choice === "any" ? "required" : choice
   }
 
   private usesMaxCompletionTokens(model: string): boolean {
@@ -374,6 +460,13 @@ export class OpenAIProvider implements LLMProvider {
               image_url: block.source.url!,
             })
           }
+        } else if (isOwnThinking(block, this.id) && msg.role === "assistant") {
+          input.push({
+            type: "reasoning",
+            id: block.id,
+            summary: block.thinking ? [{ type: "summary_text", text: block.thinking }] : [],
+            encrypted_content: block.signature,
+          })
         } else if (block.type === "tool_use") {
           input.push({
             type: "function_call",
@@ -410,6 +503,11 @@ export class OpenAIProvider implements LLMProvider {
             content.push({ type: "text", text: part.text })
           }
         }
+      } else if (item.type === "reasoning") {
+        const thinking = this.convertReasoningItem(item)
+        if (thinking) {
+          content.push(thinking)
+        }
       } else if (item.type === "function_call" && item.call_id && item.name) {
         content.push({
           type: "tool_use",
@@ -433,6 +531,33 @@ export class OpenAIProvider implements LLMProvider {
     }
   }
 
+  /**
+   * Convert a Responses API reasoning item to a thinking block
+   *
+   * @returns undefined when the item has neither a summary nor encrypted content
+   */
+  private convertReasoningItem(item: OpenAIResponsesResponse["output"][0]): ContentBlock | undefined {
+    const thinking = (item.summary ?? []).map((part) => part.text).join("\n\n")
+    if (!thinking && !item.encrypted_content) {
+      return undefined
+    }
+    return {
+      type: "thinking",
+      thinking,
+      signature: item.encrypted_content,
+      provider: this.id,
+      id: item.id,
+    }
+  }
+
+  private isOfficialEndpoint(): boolean {
+    try {
+      return new URL(this.config.baseUrl).hostname === "api.openai.com"
+    } catch {
+      return false
+    }
+  }
+
   private normalizeBaseUrl(baseUrl: string): string {
     const trimmed = baseUrl.replace(/\/+$/, "")
     try {
@@ -853,6 +978,7 @@ export class OpenAIProvider implements LLMProvider {
           string,
           { callId: string; name: string; arguments: string; blockIndex: number; done: boolean }
         >()
+        const reasoningItems = new Map<string, { blockIndex: number; done: boolean }>()
         let nextToolBlockIndex = 1
 
         const ensureMessageStart = (id?: string, model?: string) => {
@@ -940,6 +1066,52 @@ export class OpenAIProvider implements LLMProvider {
                   options?.onEvent?.(textEvent)
                   yield textEvent
                 }
+              } else if (type === "response.output_item.added" && payload.item?.type === "reasoning") {
+                const blockIndex = nextToolBlockIndex++
+                reasoningItems.set(payload.item.id, { blockIndex, done: false })
+
+                const startEvent: StreamEvent = {
+                  type: "content_block_start",
+                  index: blockIndex,
+                  content_block: { type: "thinking", thinking: "", provider: self.id, id: payload.item.id },
+                }
+                options?.onEvent?.(startEvent)
+                yield startEvent
+              } else if (
+                type === "response.reasoning_summary_text.delta" ||
+                (type === "response.reasoning_summary_part.added" && payload.summary_index > 0)
+              ) {
+                // Summary parts are separated by a blank line, as in convertReasoningItem
+                const entry = reasoningItems.get(payload.item_id)
+                const thinking = type === "response.reasoning_summary_text.delta" ? payload.delta : "\n\n"
+                if (entry && thinking) {
+                  const deltaEvent: StreamEvent = {
+                    type: "content_block_delta",
+                    index: entry.blockIndex,
+                    delta: { type: "thinking_delta", thinking },
+                  }
+                  options?.onThinking?.(thinking)
+                  options?.onEvent?.(deltaEvent)
+                  yield deltaEvent
+                }
+              } else if (type === "response.output_item.done" && payload.item?.type === "reasoning") {
+                const entry = reasoningItems.get(payload.item.id)
+                if (entry && !entry.done) {
+                  entry.done = true
+                  if (payload.item.encrypted_content) {
+                    const signatureEvent: StreamEvent = {
+                      type: "content_block_delta",
+                      index: entry.blockIndex,
+                      delta: { type: "signature_delta", signature: payload.item.encrypted_content },
+                    }
+                    options?.onEvent?.(signatureEvent)
+                    yield signatureEvent
+                  }
+
+                  const stopEvent: StreamEvent = { type: "content_block_stop", index: entry.blockIndex }
+                  options?.onEvent?.(stopEvent)
+                  yield stopEvent
+                }
               } else if (type === "response.output_item.added") {
                 const item = payload.item
                 if (item?.type === "function_call") {
@@ -0,0 +1,64 @@
+/**
+ * Reasoning settings shared by the providers
+ * @module formagent-sdk/llm/reasoning
+ */
+
+import type { ContentBlock, ReasoningConfig, ThinkingBlock } from "../types/core"
+
+/**
+ * Thinking budgets used when only an effort is given
+ */
+export const REASONING_BUDGETS = {
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+} as const
+
+/**
+ * Smallest thinking budget Anthropic accepts
+ */
+const MIN_BUDGET_TOKENS = 1024
+
+/**
+ * Thinking budget for a reasoning config
+ *
+ * @returns The budget, or undefined when reasoning is not configured
+ */
+export function resolveBudgetTokens(reasoning?: ReasoningConfig): number | undefined {
+  if (!reasoning) {
+    return undefined
+  }
+  if (reasoning.budgetTokens !== undefined) {
+    return Math.max(MIN_BUDGET_TOKENS, reasoning.budgetTokens)
+  }
+  return REASONING_BUDGETS[reasoning.effort ?? "medium"]
+}
+
+/**
+ * Reasoning effort for a reasoning config
+ *
+ * @returns The effort, or undefined when reasoning is not configured
+ */
+export function resolveEffort(reasoning?: ReasoningConfig): ReasoningConfig["effort"] {
+  if (!reasoning) {
+    return undefined
+  }
+  if (reasoning.effort) {
+    return reasoning.effort
+  }
+  const budget = reasoning.budgetTokens ?? REASONING_BUDGETS.medium
+  if (budget <= REASONING_BUDGETS.low) {
+    return "low"
+  }
+  return budget <= REASONING_BUDGETS.medium ? "medium" : "high"
+}
+
+/**
+ * Check whether a block is thinking produced by the given provider
+ *
+ * Signatures are only valid for the provider that issued them, so each
+ * provider sends back its own thinking blocks and drops the others.
+ */
+export function isOwnThinking(block: ContentBlock, provider: string): block is ThinkingBlock {
+  return block.type === "thinking" && block.provider === provider
+}
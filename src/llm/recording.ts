@@ -0,0 +1,410 @@
+/**
+ * Record and replay provider traffic for tests
+ * @module formagent-sdk/llm/recording
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises"
+import { existsSync } from "fs"
+import { dirname } from "path"
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamResponse, StreamOptions } from "../types/provider"
+import type { StreamEvent } from "../types/core"
+import { createEventStream } from "./mock"
+
+/**
+ * Fixture format version
+ */
+const FIXTURE_VERSION = 1
+
+/**
+ * Recording mode
+ *
+ * - `record`: call the wrapped provider and overwrite the fixture
+ * - `replay`: answer from the fixture without calling any provider
+ * - `auto`: replay when the fixture exists, otherwise record
+ */
+export type RecordingMode = "record" | "replay" | "auto"
+
+/**
+ * Recording provider configuration
+ */
+export interface RecordingProviderConfig {
+  /** Fixture file (JSON) */
+  fixturePath: string
+  /** Recording mode (default: "auto") */
+  mode?: RecordingMode
+  /** Provider to record (required unless replaying) */
+  provider?: LLMProvider
+  /**
+   * Request fields left out of the comparison, as dotted paths (for example
+   * "systemPrompt" when it contains the date)
+   */
+  ignore?: string[]
+  /** Whether native structured output is supported when replaying without a provider (default: true) */
+  supportsOutputFormat?: boolean
+}
+
+/**
+ * A recorded request and its answer
+ */
+export interface RecordedInteraction {
+  method: "stream" | "complete"
+  /** Request without the abort signal, credentials and tool implementations */
+  request: Record<string, unknown>
+  /** Events streamed before the stream ended or failed */
+  events?: StreamEvent[]
+  /** Response of a complete() call */
+  response?: LLMResponse
+  /** Error message if the request failed */
+  error?: string
+}
+
+/**
+ * Fixture file contents
+ */
+export interface RecordingFixture {
+  version: number
+  interactions: RecordedInteraction[]
+}
+
+/**
+ * Thrown when a replayed request differs from the recording, or there is no
+ * recording left for it
+ */
+export class RecordingMismatchError extends Error {
+  readonly fixturePath: string
+  /** Zero-based index of the request */
+  readonly requestIndex: number
+  /** Dotted path of the first differing field */
+  readonly path: string | undefined
+
+  constructor(message: string, fixturePath: string, requestIndex: number, path?: string) {
+    super(message)
+    this.name = "RecordingMismatchError"
+    this.fixturePath = fixturePath
+    this.requestIndex = requestIndex
+    this.path = path
+  }
+}
+
+/**
+ * Provider wrapper that records real traffic to a fixture file and replays
+ * it offline
+ *
+ * Requests must be replayed in the order they were recorded. Each replayed
+ * request is compared with the recorded one and a RecordingMismatchError
+ * names the first field that differs. API keys and base URLs are never
+ * written to fixtures.
+ *
+ * @example
+ * ```ts
+ * const provider = new RecordingProvider({
+ *   fixturePath: "test/fixtures/weather.json",
+ *   provider: process.env.RECORD ? new AnthropicProvider() : undefined,
+ *   mode: process.env.RECORD ? "record" : "replay",
+ * })
+ * ```
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly id: string
+  readonly name: string
+  readonly supportedModels: RegExp[]
+
+  private config: RecordingProviderConfig
+  private resolvedMode: "record" | "replay" | undefined
+  private interactions: RecordedInteraction[] = []
+  private loaded: Promise<void> | undefined
+  private replayIndex = 0
+
+  constructor(config: RecordingProviderConfig) {
+    this.config = config
+    this.id = config.provider?.id ?? "recording"
+    this.name = config.provider ? `${config.provider.name} (recording)` : "Recording"
+    this.supportedModels = config.provider?.supportedModels ?? [/.*/]
+  }
+
+  /**
+   * Mode in use ("record" or "replay")
+   */
+  get mode(): "record" | "replay" {
+    if (!this.resolvedMode) {
+      const mode = this.config.mode ?? "auto"
+      this.resolvedMode = mode === "auto" ? (existsSync(this.config.fixturePath) ? "replay" : "record") : mode
+    }
+    return this.resolvedMode
+  }
+
+  supportsModel(model: string): boolean {
+    return this.config.provider?.supportsModel(model) ?? true
+  }
+
+  supportsOutputFormat(request: LLMRequest): boolean {
+    if (this.config.provider) {
+      return this.config.provider.supportsOutputFormat?.(request) ?? false
+    }
+    return this.config.supportsOutputFormat ?? true
+  }
+
+  /**
+   * Throw if recorded interactions were not replayed
+   *
+   * @throws RecordingMismatchError if interactions remain
+   */
+  assertDone(): void {
+    if (this.mode === "replay" && this.replayIndex < this.interactions.length) {
+      throw new RecordingMismatchError(
+        `Only ${this.replayIndex} of ${this.interactions.length} recorded request(s) in ${this.config.fixturePath} were replayed`,
+        this.config.fixturePath,
+        this.replayIndex
+      )
+    }
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (this.mode === "replay") {
+      const interaction = await this.nextRecording("complete", request)
+      if (interaction.error) {
+        throw new Error(interaction.error)
+      }
+      return interaction.response!
+    }
+
+    const interaction = this.startRecording("complete", request)
+    try {
+      interaction.response = await this.getProvider().complete(request)
+      return interaction.response
+    } catch (error) {
+      interaction.error = error instanceof Error ? error.message : String(error)
+      throw error
+    } finally {
+      await this.save()
+    }
+  }
+
+  async stream(request: LLMRequest, options?: StreamOptions): Promise<LLMStreamResponse> {
+    if (this.mode === "replay") {
+      const interaction = await this.nextRecording("stream", request)
+      const events = interaction.events ?? []
+      if (interaction.error && events.length === 0) {
+        throw new Error(interaction.error)
+      }
+      return this.replayStream(events, interaction.error, options)
+    }
+
+    const interaction = this.startRecording("stream", request)
+    let response: LLMStreamResponse
+    try {
+      response = await this.getProvider().stream(request, options)
+    } catch (error) {
+      interaction.error = error instanceof Error ? error.message : String(error)
+      await this.save()
+      throw error
+    }
+
+    const self = this
+    const events: StreamEvent[] = []
+    interaction.events = events
+
+    return {
+      async *[Symbol.asyncIterator](): AsyncIterator<StreamEvent> {
+        try {
+          for await (const event of response) {
+            events.push(event)
+            yield event
+          }
+        } catch (error) {
+          interaction.error = error instanceof Error ? error.message : String(error)
+          throw error
+        } finally {
+          await self.save()
+        }
+      },
+    }
+  }
+
+  private getProvider(): LLMProvider {
+    if (!this.config.provider) {
+      throw new Error(`RecordingProvider needs a provider to record ${this.config.fixturePath}`)
+    }
+    return this.config.provider
+  }
+
+  private startRecording(method: RecordedInteraction["method"], request: LLMRequest): RecordedInteraction {
+    const interaction: RecordedInteraction = { method, request: serializeRequest(request) }
+    this.interactions.push(interaction)
+    return interaction
+  }
+
+  private async save(): Promise<void> {
+    const fixture: RecordingFixture = { version: FIXTURE_VERSION, interactions: this.interactions }
+    await mkdir(dirname(this.config.fixturePath), { recursive: true })
+    await writeFile(this.config.fixturePath, JSON.stringify(fixture, null, 2) + "\n", "utf-8")
+  }
+
+  private async load(): Promise<void> {
+    let raw: string
+    try {
+      raw = await readFile(this.config.fixturePath, "utf-8")
+    } catch {
+      throw new Error(`Recording not found: ${this.config.fixturePath}`)
+    }
+
+    const fixture = JSON.parse(raw) as RecordingFixture
+    if (fixture.version !== FIXTURE_VERSION || !Array.isArray(fixture.interactions)) {
+      throw new Error(`Unsupported recording format in ${this.config.fixturePath}`)
+    }
+    this.interactions = fixture.interactions
+  }
+
+  /**
+   * Take the next recording and check that it was made for this request
+   */
+  private async nextRecording(method: RecordedInteraction["method"], request: LLMRequest): Promise<RecordedInteraction> {
+    this.loaded ??= this.load()
+    await this.loaded
+
+    const index = this.replayIndex++
+    const fixturePath = this.config.fixturePath
+    const interaction = this.interactions[index]
+    if (!interaction) {
+      throw new RecordingMismatchError(
+        `Request #${index + 1} has no recording in ${fixturePath} (${this.interactions.length} recorded); record it again`,
+        fixturePath,
+        index
+      )
+    }
+
+    if (interaction.method !== method) {
+      throw new RecordingMismatchError(
+        `Request #${index + 1} was recorded as ${interaction.method}() but replayed with ${method}()`,
+        fixturePath,
+        index
+      )
+    }
+
+    const ignore = this.config.ignore ?? []
+    const difference = findDifference(
+      omitPaths(interaction.request, ignore),
+      omitPaths(serializeRequest(request), ignore),
+      ""
+    )
+    if (difference) {
+      throw new RecordingMismatchError(
+        `Request #${index + 1} differs from the recording in ${fixturePath} at ${difference.path || "(root)"}: ` +
+          `recorded ${preview(difference.expected)}, got ${preview(difference.actual)}`,
+        fixturePath,
+        index,
+        difference.path
+      )
+    }
+
+    return interaction
+  }
+
+  private replayStream(events: StreamEvent[], error: string | undefined, options?: StreamOptions): LLMStreamResponse {
+    const stream = createEventStream(events, options)
+
+    return {
+      async *[Symbol.asyncIterator](): AsyncIterator<StreamEvent> {
+        yield* stream
+        if (error) {
+          throw new Error(error)
+        }
+      },
+    }
+  }
+}
+
+/**
+ * Request as stored in a fixture
+ */
+function serializeRequest(request: LLMRequest): Record<string, unknown> {
+  const { apiKey: _apiKey, baseUrl: _baseUrl, ...config } = request.config
+  return JSON.parse(
+    JSON.stringify({
+      messages: request.messages,
+      systemPrompt: request.systemPrompt,
+      tools: request.tools?.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+      })),
+      config,
+      outputFormat: request.outputFormat,
+      toolChoice: request.toolChoice,
+      parallelToolCalls: request.parallelToolCalls,
+    })
+  )
+}
+
+function omitPaths(value: Record<string, unknown>, paths: string[]): Record<string, unknown> {
+  if (paths.length === 0) {
+    return value
+  }
+
+  const copy = structuredClone(value)
+  for (const path of paths) {
+    const keys = path.split(".")
+    let target: unknown = copy
+    for (const key of keys.slice(0, -1)) {
+      target = target !== null && typeof target === "object" ? (target as Record<string, unknown>)[key] : undefined
+    }
+    if (target !== null && typeof target === "object") {
+      delete (target as Record<string, unknown>)[keys[keys.length - 1]]
+    }
+  }
+  return copy
+}
+
+function findDifference(
+  expected: unknown,
+  actual: unknown,
+  path: string
+): { path: string; expected: unknown; actual: unknown } | undefined {
+  if (expected === actual) {
+    return undefined
+  }
+
+  const bothObjects =
+    expected !== null &&
+    actual !== null &&
+    typeof expected === "object" &&
+    typeof actual === "object" &&
+    Array.isArray(expected) === Array.isArray(actual)
+  if (!bothObjects) {
+    return { path, expected, actual }
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual) && expected.length !== actual.length) {
+    const shorter = Math.min(expected.length, actual.length)
+    for (let i = 0; i < shorter; i++) {
+      const inner = findDifference(expected[i], actual[i], `${path}[${i}]`)
+      if (inner) return inner
+    }
+    return { path: `${path}.length`, expected: expected.length, actual: actual.length }
+  }
+
+  const expectedFields = expected as Record<string, unknown>
+  const actualFields = actual as Record<string, unknown>
+  const keys = new Set([...Object.keys(expectedFields), ...Object.keys(actualFields)])
+  for (const key of keys) {
+    const childPath = Array.isArray(expected) ? `${path}[${key}]` : path ? `${path}.${key}` : key
+    const inner = findDifference(expectedFields[key], actualFields[key], childPath)
+    if (inner) return inner
+  }
+  return undefined
+}
+
+function preview(value: unknown): string {
+  const text = value === undefined ? "nothing" : JSON.stringify(value)
+  return text.length > 120 ? text.slice(0, 117) + "..." : text
+}
+
+/**
+ * Create a recording provider
+ *
+ * @param config - Recording configuration
+ * @returns RecordingProvider instance
+ */
+export function createRecordingProvider(config: RecordingProviderConfig): RecordingProvider {
+  return new RecordingProvider(config)
+}
@@ -7,6 +7,7 @@ import type { LLMProvider, ProviderRegistry } from "../types/provider"
 import { AnthropicProvider } from "./anthropic"
 import { OpenAIProvider } from "./openai"
 import { GeminiProvider } from "./gemini"
+import { OllamaProvider } from "./ollama"
 
 /**
  * Model pattern matching rule
@@ -228,6 +229,8 @@ export function createProviderResolver(config: {
   anthropicApiKey?: string
   openaiApiKey?: string
   geminiApiKey?: string
+  /** Ollama server URL (default: OLLAMA_HOST, then http://localhost:11434) */
+  ollamaBaseUrl?: string
   defaultProviderId?: string
 }): ProviderResolver {
   const resolver = new ProviderResolver()
@@ -268,6 +271,16 @@ export function createProviderResolver(config: {
     }
   }
 
+  // Ollama runs locally without a key, so it is always registered
+  const ollama = new OllamaProvider({
+    baseUrl: config.ollamaBaseUrl,
+  })
+  resolver.register(ollama)
+
+  if (config.defaultProviderId === "ollama") {
+    resolver.setDefaultProvider(ollama)
+  }
+
   return resolver
 }
 
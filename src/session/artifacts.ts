@@ -0,0 +1,278 @@
+/**
+ * Content-addressed artifact store
+ * @module formagent-sdk/session/artifacts
+ */
+
+import { createHash } from "crypto"
+import { mkdir, open, readFile, readdir, rename, rm, unlink, writeFile } from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import type { ArtifactRef } from "../types/core"
+
+/**
+ * Default directory for artifacts
+ */
+export const DEFAULT_ARTIFACT_DIR = path.join(os.tmpdir(), "formagent-sdk-artifacts")
+
+const ARTIFACT_ID_PATTERN = /^sha256:([0-9a-f]{64})$/
+
+/**
+ * Options for ArtifactStore.put()
+ */
+export interface PutArtifactOptions {
+  /** Media type (default: "text/plain" for strings, "application/octet-stream" for bytes) */
+  mediaType?: string
+  /** Display name */
+  name?: string
+}
+
+/**
+ * What is stored next to each artifact's content
+ */
+interface ArtifactMeta {
+  mediaType: string
+  size: number
+  lines?: number
+  createdAt: number
+}
+
+/**
+ * Check whether a media type is read as text
+ */
+export function isTextMediaType(mediaType: string): boolean {
+  return (
+    mediaType.startsWith("text/") ||
+    /^application\/([\w.+-]*\+)?(json|xml|yaml|javascript|x-ndjson)$/.test(mediaType)
+  )
+}
+
+/**
+ * Content-addressed store for large and binary tool outputs
+ *
+ * Artifacts are identified by the SHA-256 of their content, so storing the
+ * same output twice keeps one copy. Sessions reference artifacts from
+ * `ToolResultBlock.artifacts` and list their IDs in `SessionState.artifacts`;
+ * `pruneSessions()` removes the ones no remaining session uses.
+ *
+ * Layout: `<directory>/<first two hex chars>/<hex>` plus a `<hex>.json`
+ * metadata file.
+ *
+ * @example
+ * ```ts
+ * const artifacts = new ArtifactStore("./artifacts")
+ * const session = await createSession({ artifactStore: artifacts })
+ *
+ * const ref = await artifacts.put(pngBytes, { mediaType: "image/png", name: "chart.png" })
+ * const head = await artifacts.readLines(ref.id, 1, 20)
+ * ```
+ */
+export class ArtifactStore {
+  readonly directory: string
+
+  constructor(directory: string = DEFAULT_ARTIFACT_DIR) {
+    this.directory = directory
+  }
+
+  /**
+   * Store content, reusing the existing copy if it is already stored
+   */
+  async put(data: Uint8Array | string, options: PutArtifactOptions = {}): Promise<ArtifactRef> {
+    const bytes = typeof data === "string" ? Buffer.from(data, "utf-8") : Buffer.from(data)
+    const mediaType = options.mediaType ?? (typeof data === "string" ? "text/plain" : "application/octet-stream")
+    const hash = createHash("sha256").update(bytes).digest("hex")
+    const id = `sha256:${hash}`
+
+    let meta = await this.readMeta(hash)
+    if (!meta) {
+      meta = { mediaType, size: bytes.length, createdAt: Date.now() }
+      if (isTextMediaType(mediaType)) {
+        meta.lines = bytes.toString("utf-8").split("\n").length
+      }
+
+      const filePath = this.contentPath(hash)
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeAtomic(filePath, bytes)
+      await writeAtomic(`${filePath}.json`, Buffer.from(JSON.stringify(meta), "utf-8"))
+    }
+
+    return {
+      id,
+      mediaType: meta.mediaType,
+      size: meta.size,
+      ...(meta.lines !== undefined ? { lines: meta.lines } : {}),
+      ...(options.name ? { name: options.name } : {}),
+    }
+  }
+
+  /**
+   * Get an artifact's reference (undefined if it is not stored)
+   */
+  async stat(id: string): Promise<ArtifactRef | undefined> {
+    const meta = await this.readMeta(parseArtifactId(id))
+    if (!meta) {
+      return undefined
+    }
+    return { id, mediaType: meta.mediaType, size: meta.size, ...(meta.lines !== undefined ? { lines: meta.lines } : {}) }
+  }
+
+  /**
+   * Read a whole artifact (undefined if it is not stored)
+   */
+  async get(id: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.contentPath(parseArtifactId(id)))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Read a byte range
+   *
+   * @param id - Artifact ID
+   * @param start - First byte (default: 0)
+   * @param length - Number of bytes (default: to the end)
+   */
+  async readBytes(id: string, start: number = 0, length?: number): Promise<Buffer | undefined> {
+    const meta = await this.stat(id)
+    if (!meta) {
+      return undefined
+    }
+
+    const from = Math.min(Math.max(0, start), meta.size)
+    const count = Math.min(length ?? meta.size - from, meta.size - from)
+    const buffer = Buffer.alloc(Math.max(0, count))
+
+    const handle = await open(this.contentPath(parseArtifactId(id)), "r")
+    try {
+      await handle.read(buffer, 0, buffer.length, from)
+    } finally {
+      await handle.close()
+    }
+    return buffer
+  }
+
+  /**
+   * Read a range of lines from a text artifact
+   *
+   * @param id - Artifact ID
+   * @param offset - First line (1-indexed, default: 1)
+   * @param limit - Number of lines (default: to the end)
+   * @returns The lines and the artifact's total line count
+   */
+  async readLines(
+    id: string,
+    offset: number = 1,
+    limit?: number
+  ): Promise<{ lines: string[]; total: number } | undefined> {
+    const content = await this.get(id)
+    if (!content) {
+      return undefined
+    }
+
+    const all = content.toString("utf-8").split("\n")
+    const start = Math.max(1, offset) - 1
+    return { lines: all.slice(start, limit === undefined ? undefined : start + limit), total: all.length }
+  }
+
+  /**
+   * Check whether an artifact is stored
+   */
+  async has(id: string): Promise<boolean> {
+    return (await this.stat(id)) !== undefined
+  }
+
+  /**
+   * Delete an artifact
+   */
+  async delete(id: string): Promise<void> {
+    const filePath = this.contentPath(parseArtifactId(id))
+    await rm(filePath, { force: true })
+    await rm(`${filePath}.json`, { force: true })
+  }
+
+  /**
+   * List stored artifact IDs
+   */
+  async list(): Promise<string[]> {
+    const ids: string[] = []
+
+    let shards: string[]
+    try {
+      shards = await readdir(this.directory)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return []
+      }
+      throw error
+    }
+
+    for (const shard of shards.filter((name) => /^[0-9a-f]{2}$/.test(name))) {
+      for (const file of await readdir(path.join(this.directory, shard))) {
+        if (/^[0-9a-f]{64}$/.test(file)) {
+          ids.push(`sha256:${file}`)
+        }
+      }
+    }
+    return ids
+  }
+
+  /**
+   * Delete every artifact not in `referenced`
+   *
+   * Only use this when all sessions that share the store are accounted for.
+   *
+   * @returns Number of artifacts deleted
+   */
+  async collectGarbage(referenced: Iterable<string>): Promise<number> {
+    const keep = new Set(referenced)
+    let deleted = 0
+
+    for (const id of await this.list()) {
+      if (!keep.has(id)) {
+        await this.delete(id)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
+  private contentPath(hash: string): string {
+    return path.join(this.directory, hash.slice(0, 2), hash)
+  }
+
+  private async readMeta(hash: string): Promise<ArtifactMeta | undefined> {
+    try {
+      return JSON.parse(await readFile(`${this.contentPath(hash)}.json`, "utf-8")) as ArtifactMeta
+    } catch {
+      return undefined
+    }
+  }
+}
+
+/**
+ * Get the hash from an artifact ID
+ *
+ * @throws Error if the ID is malformed
+ */
+function parseArtifactId(id: string): string {
+  const match = ARTIFACT_ID_PATTERN.exec(id)
+  if (!match) {
+    throw new Error(`Invalid artifact ID: "${id}"`)
+  }
+  return match[1]
+}
+
+async function writeAtomic(filePath: string, data: Buffer): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`
+  await writeFile(tempPath, data)
+  try {
+    await rename(tempPath, filePath)
+  } catch (error) {
+    await unlink(tempPath).catch(() => {})
+    throw error
+  }
+}
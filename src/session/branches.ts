@@ -0,0 +1,115 @@
+/**
+ * Conversation branch tree helpers
+ * @module formagent-sdk/session/branches
+ *
+ * Branches share the messages of their parent up to a fork point and only
+ * store the messages that come after it. The active branch's full path is
+ * kept in `SessionState.messages`; these helpers resolve paths and keep the
+ * tree in step with that list.
+ */
+
+import type { SDKMessage } from "../types/core"
+import type { ConversationBranch } from "../types/session"
+
+/**
+ * Name of the branch a session starts on
+ */
+export const DEFAULT_BRANCH = "main"
+
+/**
+ * Resolve the full message path of a branch (shared prefix + own messages)
+ *
+ * The returned array is new, the messages are not copied.
+ */
+export function resolveBranchPath(
+  branches: Record<string, ConversationBranch>,
+  name: string
+): SDKMessage[] {
+  const branch = branches[name]
+  if (!branch) {
+    throw new Error(`Branch not found: ${name}`)
+  }
+
+  if (!branch.parent) {
+    return [...branch.messages]
+  }
+
+  return [...resolveBranchPath(branches, branch.parent).slice(0, branch.forkIndex), ...branch.messages]
+}
+
+/**
+ * Count the leading messages two paths have in common
+ */
+export function commonPrefixLength(a: SDKMessage[], b: SDKMessage[]): number {
+  const max = Math.min(a.length, b.length)
+  let i = 0
+  while (i < max && sameMessage(a[i], b[i])) {
+    i++
+  }
+  return i
+}
+
+/**
+ * Store a new full path for a branch
+ *
+ * The branch keeps its parent link when the path still starts with the
+ * shared prefix, otherwise (after a rewind or compaction cut into it) it
+ * becomes a root branch. Child branches whose fork point is no longer part
+ * of the path get their shared prefix copied in first.
+ */
+export function updateBranchPath(
+  branches: Record<string, ConversationBranch>,
+  name: string,
+  messages: SDKMessage[]
+): void {
+  const branch = branches[name]
+  const oldPath = resolveBranchPath(branches, name)
+
+  for (const child of Object.values(branches)) {
+    if (child.parent !== name) {
+      continue
+    }
+    if (commonPrefixLength(oldPath, messages) < child.forkIndex) {
+      child.messages = [...oldPath.slice(0, child.forkIndex), ...child.messages]
+      child.parent = undefined
+      child.forkIndex = 0
+    }
+  }
+
+  const prefix = branch.parent ? resolveBranchPath(branches, branch.parent).slice(0, branch.forkIndex) : []
+
+  if (commonPrefixLength(prefix, messages) === prefix.length) {
+    branch.messages = messages.slice(prefix.length)
+  } else {
+    branch.messages = [...messages]
+    branch.parent = undefined
+    branch.forkIndex = 0
+  }
+}
+
+/**
+ * Prompt asking the model to summarize the last messages of a branch
+ *
+ * @param messageCount - Number of trailing messages that belong only to the branch
+ */
+export function generateBranchSummaryPrompt(messageCount: number): string {
+  return `The last ${messageCount} messages above were an exploratory branch of our conversation. Please summarize that branch only:
+1. What was tried and which files were modified
+2. Results and conclusions
+3. Anything that should be carried over to the main line of work
+
+This summary will be added to a different branch of the conversation that has not seen these messages.`
+}
+
+/**
+ * Compare two messages by identity, then by ID and content
+ */
+function sameMessage(a: SDKMessage, b: SDKMessage): boolean {
+  if (a === b) {
+    return true
+  }
+  if (a.id !== b.id || a.role !== b.role) {
+    return false
+  }
+  return JSON.stringify(a.content) === JSON.stringify(b.content)
+}
@@ -22,6 +22,8 @@ export interface CompactionConfig {
   autoCompact?: boolean
   /** Whether to prune old tool outputs (default: true) */
   pruneToolOutputs?: boolean
+  /** Number of recent turns kept verbatim when compacting (default: 5) */
+  keepTurns?: number
 }
 
 /**
@@ -57,6 +59,7 @@ export const COMPACTION_DEFAULTS = {
   PRUNE_MINIMUM: 20_000,
   PRUNE_PROTECT: 40_000,
   PROTECTED_TOOLS: ["Skill", "skill"],
+  KEEP_TURNS: 5,
   // Rough estimates for token counting
   CHARS_PER_TOKEN: 4,
 } as const
@@ -83,6 +86,9 @@ function estimateBlockTokens(block: ContentBlock): number {
     const content = typeof block.content === "string" ? block.content : JSON.stringify(block.content)
     return estimateTokens(content)
   }
+  if (block.type === "thinking") {
+    return estimateTokens(block.thinking) + estimateTokens(block.signature ?? "")
+  }
   return 0
 }
 
@@ -245,6 +251,42 @@ export function generateSummaryPrompt(): string {
 This summary will be used to continue our work in a new session without the full history.`
 }
 
+/**
+ * Render tool calls and results as text and drop thinking
+ *
+ * Used for the summary request, which is sent without tool definitions:
+ * providers reject tool blocks in that case, and thinking signatures are
+ * only valid in the original request.
+ */
+export function flattenToolBlocks(messages: SDKMessage[]): SDKMessage[] {
+  const result: SDKMessage[] = []
+
+  for (const msg of messages) {
+    if (!Array.isArray(msg.content)) {
+      result.push(msg)
+      continue
+    }
+
+    const content: ContentBlock[] = []
+    for (const block of msg.content) {
+      if (block.type === "tool_use") {
+        content.push({ type: "text", text: `[Tool call: ${block.name}]\n${JSON.stringify(block.input)}` })
+      } else if (block.type === "tool_result") {
+        const text = typeof block.content === "string" ? block.content : JSON.stringify(block.content)
+        content.push({ type: "text", text: `[Tool result${block.is_error ? " (error)" : ""}]\n${text}` })
+      } else if (block.type !== "thinking") {
+        content.push(block)
+      }
+    }
+
+    if (content.length > 0) {
+      result.push({ ...msg, content } as SDKMessage)
+    }
+  }
+
+  return result
+}
+
 /**
  * Create a summary message from LLM response
  */
@@ -317,7 +359,40 @@ export function compactMessages(
     }
   }
 
-  return result
+  return detachOrphanToolResults(result)
+}
+
+/**
+ * Convert tool results whose tool_use was compacted away into plain text
+ *
+ * Providers reject a tool_result that does not follow its tool_use, so
+ * results left at the start of the kept window are inlined as text.
+ */
+function detachOrphanToolResults(messages: SDKMessage[]): SDKMessage[] {
+  const toolUseIds = new Set<string>()
+
+  return messages.map((msg) => {
+    if (!Array.isArray(msg.content)) return msg
+
+    if (msg.role === "assistant") {
+      for (const block of msg.content) {
+        if (block.type === "tool_use") toolUseIds.add(block.id)
+      }
+      return msg
+    }
+
+    if (!msg.content.some((b) => b.type === "tool_result" && !toolUseIds.has(b.tool_use_id))) {
+      return msg
+    }
+
+    const content: ContentBlock[] = msg.content.map((block) => {
+      if (block.type !== "tool_result" || toolUseIds.has(block.tool_use_id)) return block
+      const text = typeof block.content === "string" ? block.content : JSON.stringify(block.content)
+      return { type: "text", text: `[Tool result]\n${text}` }
+    })
+
+    return { ...msg, content } as SDKMessage
+  })
 }
 
 /**
@@ -355,7 +430,7 @@ export class SessionCompactor {
    * Compact messages with optional summary
    */
   compact(messages: SDKMessage[], summary?: string): SDKMessage[] {
-    return compactMessages(messages, 5, summary)
+    return compactMessages(messages, this.config.keepTurns ?? COMPACTION_DEFAULTS.KEEP_TURNS, summary)
   }
 }
 
@@ -0,0 +1,512 @@
+/**
+ * Encryption at rest for session storage
+ * @module formagent-sdk/session/encrypted-storage
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto"
+import { readFileSync } from "fs"
+import type { SDKMessage, UserMessage } from "../types/core"
+import type {
+  PruneOptions,
+  PruneResult,
+  RetentionPolicy,
+  SessionLease,
+  SessionState,
+  SessionStorage,
+} from "../types/session"
+import { SessionLockedError } from "./lock"
+import { migrateSessionState, sessionMigrations } from "./migrations"
+import { pruneSessions } from "./retention"
+
+/**
+ * Environment variable holding the encryption key
+ */
+export const SESSION_KEY_ENV = "FORMAGENT_SESSION_KEY"
+
+/**
+ * Environment variable holding the path of a key file
+ */
+export const SESSION_KEY_FILE_ENV = "FORMAGENT_SESSION_KEY_FILE"
+
+const ALGORITHM = "aes-256-gcm"
+const KEY_BYTES = 32
+const IV_BYTES = 12
+
+/**
+ * Encryption key material: 32 bytes, or a base64/hex string of 32 bytes
+ */
+export type SessionKey = string | Uint8Array
+
+/**
+ * Options for EncryptedSessionStorage
+ */
+export interface EncryptedSessionStorageOptions {
+  /**
+   * Key used to encrypt. Without `key` or `keyFile`, `FORMAGENT_SESSION_KEY`
+   * is used, then `FORMAGENT_SESSION_KEY_FILE`.
+   */
+  key?: SessionKey
+  /**
+   * File holding the key (used when `key` is not given)
+   *
+   * The first non-empty line is the current key; further lines are previous
+   * keys that can still decrypt.
+   */
+  keyFile?: string
+  /** Retired keys that can still decrypt sessions (for rotation) */
+  previousKeys?: SessionKey[]
+  /** Load sessions that were stored before encryption was enabled (default: false) */
+  allowPlaintext?: boolean
+  /** Policy applied by `prune()` */
+  retention?: RetentionPolicy
+}
+
+/**
+ * Outcome of `EncryptedSessionStorage.rotate()`
+ */
+export interface RotateResult {
+  /** Sessions re-encrypted with the current key */
+  rotated: string[]
+  /** Sessions that need rotation but were locked elsewhere */
+  skipped: string[]
+}
+
+/**
+ * Why a session could not be encrypted or decrypted
+ */
+export type SessionEncryptionErrorReason = "missing_key" | "invalid_key" | "unknown_key" | "decrypt_failed" | "plaintext"
+
+/**
+ * Thrown when a key is missing or invalid, or a session cannot be decrypted
+ */
+export class SessionEncryptionError extends Error {
+  readonly reason: SessionEncryptionErrorReason
+  readonly sessionId: string | undefined
+
+  constructor(message: string, reason: SessionEncryptionErrorReason, sessionId?: string) {
+    super(message)
+    this.name = "SessionEncryptionError"
+    this.reason = reason
+    this.sessionId = sessionId
+  }
+}
+
+/**
+ * Ciphertext of a session, stored in place of its contents
+ */
+interface EncryptedPayload {
+  algorithm: typeof ALGORITHM
+  /** Identifies the key that encrypted the payload */
+  keyId: string
+  iv: string
+  tag: string
+  data: string
+}
+
+/**
+ * A message as the wrapped storage sees it: its ID and the ciphertext
+ */
+type EncryptedMessage = UserMessage & { encrypted: EncryptedPayload }
+
+/**
+ * What the wrapped storage sees: timestamps, encrypted messages and the
+ * ciphertext of everything else
+ */
+type EncryptedEnvelope = SessionState & { encrypted?: EncryptedPayload }
+
+/**
+ * Decrypted `encrypted` payload of an envelope
+ *
+ * Sessions saved before messages were encrypted one by one hold the whole
+ * state, messages included.
+ */
+type EncryptedState = Omit<SessionState, "messages"> & { messages?: SDKMessage[]; messageCount?: number }
+
+/**
+ * Ciphertexts from the last save or load of a session
+ *
+ * Unchanged messages are saved with the same ciphertext, so storages that
+ * append or diff messages (JSONL, SQLite) only write the new ones.
+ */
+interface CiphertextCache {
+  /** Plaintext and ciphertext of the state without messages */
+  state?: { plaintext: string; encrypted: EncryptedPayload }
+  /** Encrypted messages keyed by position and plaintext */
+  messages: Map<string, EncryptedMessage>
+}
+
+interface ResolvedKey {
+  id: string
+  key: Buffer
+}
+
+/**
+ * Generate a random key for EncryptedSessionStorage (base64)
+ */
+export function generateSessionKey(): string {
+  return randomBytes(KEY_BYTES).toString("base64")
+}
+
+/**
+ * Session storage wrapper that encrypts sessions with AES-256-GCM
+ *
+ * Wraps any `SessionStorage`. The wrapped storage only sees the session ID,
+ * timestamps, message IDs and `encrypted` payloads. Each message is encrypted
+ * on its own and keeps its ciphertext while it is unchanged, so appending
+ * storages still write only new messages. Usage, metadata and the message
+ * count are encrypted together with the session ID as associated data, so
+ * payloads cannot be moved to another session or position.
+ *
+ * Forks are stored in full: messages are encrypted under their own session
+ * ID, so FileSessionStorage cannot share them with the parent.
+ *
+ * To rotate keys, make the new key current, keep the old one in
+ * `previousKeys` (or on a later line of the key file) and call `rotate()`.
+ *
+ * @example
+ * ```ts
+ * // FORMAGENT_SESSION_KEY=$(node -e "console.log(require('crypto').randomBytes(32).toString('base64'))")
+ * const storage = new EncryptedSessionStorage(new FileSessionStorage("./sessions"))
+ *
+ * const session = await createSession({ sessionStorage: storage })
+ * ```
+ */
+export class EncryptedSessionStorage implements SessionStorage {
+  private inner: SessionStorage
+  private current: ResolvedKey
+  private keys: Map<string, ResolvedKey> = new Map()
+  private allowPlaintext: boolean
+  private retention: RetentionPolicy | undefined
+  private ciphertexts: Map<string, CiphertextCache> = new Map()
+
+  /**
+   * @throws SessionEncryptionError if no key is configured or a key is invalid
+   */
+  constructor(inner: SessionStorage, options: EncryptedSessionStorageOptions = {}) {
+    this.inner = inner
+    this.allowPlaintext = options.allowPlaintext ?? false
+    this.retention = options.retention
+
+    const [current, ...previous] = resolveKeys(options)
+    this.current = current
+    for (const key of [current, ...previous]) {
+      this.keys.set(key.id, key)
+    }
+  }
+
+  /**
+   * ID of the key new saves are encrypted with
+   */
+  get keyId(): string {
+    return this.current.id
+  }
+
+  async save(state: SessionState): Promise<void> {
+    await this.inner.save(this.encrypt({ ...state, schemaVersion: sessionMigrations.version }))
+  }
+
+  async load(sessionId: string): Promise<SessionState | undefined> {
+    const envelope = (await this.inner.load(sessionId)) as EncryptedEnvelope | undefined
+    if (!envelope) {
+      return undefined
+    }
+
+    if (!envelope.encrypted) {
+      if (!this.allowPlaintext) {
+        throw new SessionEncryptionError(
+          `Session "${sessionId}" is not encrypted (set allowPlaintext to read it)`,
+          "plaintext",
+          sessionId
+        )
+      }
+      return envelope
+    }
+
+    const decrypted = JSON.parse(this.decrypt(sessionId, envelope.encrypted, sessionId)) as EncryptedState
+    if (decrypted.messages) {
+      return migrateSessionState(decrypted)
+    }
+
+    const { messageCount = 0, ...state } = decrypted
+    const stored = envelope.messages as EncryptedMessage[]
+    if (stored.length < messageCount) {
+      throw new SessionEncryptionError(
+        `Session "${sessionId}" has ${stored.length} of its ${messageCount} messages`,
+        "decrypt_failed",
+        sessionId
+      )
+    }
+
+    // Messages past the count were written by a save that did not finish
+    const cache: CiphertextCache = { messages: new Map() }
+    const messages = stored.slice(0, messageCount).map((message, index) => {
+      const plaintext = this.decrypt(sessionId, message.encrypted, messageAad(sessionId, index))
+      if (message.encrypted.keyId === this.current.id) {
+        cache.messages.set(`${index}\n${plaintext}`, message)
+      }
+      return JSON.parse(plaintext) as SDKMessage
+    })
+    this.ciphertexts.set(sessionId, cache)
+
+    return migrateSessionState({ ...state, messages })
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.ciphertexts.delete(sessionId)
+    await this.inner.delete(sessionId)
+  }
+
+  async list(): Promise<string[]> {
+    return this.inner.list()
+  }
+
+  async sizeOf(sessionId: string): Promise<number | undefined> {
+    return this.inner.sizeOf?.(sessionId)
+  }
+
+  async release(sessionId: string): Promise<void> {
+    this.ciphertexts.delete(sessionId)
+    await this.inner.release?.(sessionId)
+  }
+
+  /**
+   * Claim a session for writing through the wrapped storage
+   *
+   * Storages without locking hand out a lease that does not exclude anyone.
+   */
+  async lock(sessionId: string): Promise<SessionLease> {
+    if (this.inner.lock) {
+      return this.inner.lock(sessionId)
+    }
+    return { sessionId, release: async () => {} }
+  }
+
+  /**
+   * Delete sessions outside a retention policy
+   *
+   * Runs on decrypted sessions, so pinned metadata and output files are seen.
+   *
+   * @param policy - Policy to apply (default: the `retention` option; nothing is deleted without one)
+   * @param options - Prune options
+   */
+  async prune(policy: RetentionPolicy = this.retention ?? {}, options?: PruneOptions): Promise<PruneResult> {
+    return pruneSessions(this, policy, options)
+  }
+
+  /**
+   * Re-encrypt sessions stored with a previous key (or in plaintext) with the current key
+   *
+   * Each session is locked while it is rewritten. Sessions locked by another
+   * process or session are left alone and reported in `skipped`; run
+   * `rotate()` again once they are released.
+   *
+   * @returns IDs of the sessions that were rewritten and the ones that were locked
+   */
+  async rotate(): Promise<RotateResult> {
+    const result: RotateResult = { rotated: [], skipped: [] }
+
+    for (const id of await this.list()) {
+      if (!(await this.needsRotation(id))) {
+        continue
+      }
+
+      let lease: SessionLease
+      try {
+        lease = await this.lock(id)
+      } catch (error) {
+        if (error instanceof SessionLockedError) {
+          result.skipped.push(id)
+          continue
+        }
+        throw error
+      }
+
+      try {
+        // A writer may have re-encrypted the session before we got the lock
+        if (!(await this.needsRotation(id))) {
+          continue
+        }
+        const state = await this.load(id)
+        if (state) {
+          await this.save(state)
+          result.rotated.push(id)
+        }
+      } finally {
+        await lease.release()
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Whether a stored session is not encrypted with the current key
+   */
+  private async needsRotation(sessionId: string): Promise<boolean> {
+    const envelope = (await this.inner.load(sessionId)) as EncryptedEnvelope | undefined
+    if (!envelope) {
+      return false
+    }
+    return (
+      envelope.encrypted?.keyId !== this.current.id ||
+      envelope.messages.some((message) => (message as Partial<EncryptedMessage>).encrypted?.keyId !== this.current.id)
+    )
+  }
+
+  private encrypt(state: SessionState): EncryptedEnvelope {
+    const previous = this.ciphertexts.get(state.id)
+    const cache: CiphertextCache = { messages: new Map() }
+
+    const messages = state.messages.map((message, index): EncryptedMessage => {
+      const plaintext = JSON.stringify(message)
+      const cacheKey = `${index}\n${plaintext}`
+      // The role is encrypted with the rest of the message
+      const encrypted = previous?.messages.get(cacheKey) ?? {
+        id: message.id,
+        role: "user",
+        content: "",
+        encrypted: this.seal(plaintext, messageAad(state.id, index)),
+      }
+      cache.messages.set(cacheKey, encrypted)
+      return encrypted
+    })
+
+    const { messages: _messages, ...rest } = state
+    const plaintext = JSON.stringify({ ...rest, messageCount: messages.length })
+    cache.state =
+      previous?.state?.plaintext === plaintext ? previous.state : { plaintext, encrypted: this.seal(plaintext, state.id) }
+    this.ciphertexts.set(state.id, cache)
+
+    return {
+      id: state.id,
+      messages,
+      usage: { input_tokens: 0, output_tokens: 0 },
+      metadata: {},
+      createdAt: state.createdAt,
+      updatedAt: state.updatedAt,
+      encrypted: cache.state.encrypted,
+    }
+  }
+
+  private seal(plaintext: string, aad: string): EncryptedPayload {
+    const iv = randomBytes(IV_BYTES)
+    const cipher = createCipheriv(ALGORITHM, this.current.key, iv)
+    cipher.setAAD(Buffer.from(aad, "utf-8"))
+    const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()])
+
+    return {
+      algorithm: ALGORITHM,
+      keyId: this.current.id,
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    }
+  }
+
+  private decrypt(sessionId: string, payload: EncryptedPayload | undefined, aad: string): string {
+    if (!payload) {
+      throw new SessionEncryptionError(`Session "${sessionId}" has an unencrypted message`, "decrypt_failed", sessionId)
+    }
+
+    const key = this.keys.get(payload.keyId)
+    if (!key) {
+      throw new SessionEncryptionError(
+        `Session "${sessionId}" was encrypted with key ${payload.keyId}, which is not configured`,
+        "unknown_key",
+        sessionId
+      )
+    }
+
+    try {
+      const decipher = createDecipheriv(ALGORITHM, key.key, Buffer.from(payload.iv, "base64"))
+      decipher.setAAD(Buffer.from(aad, "utf-8"))
+      decipher.setAuthTag(Buffer.from(payload.tag, "base64"))
+      const data = Buffer.concat([decipher.update(Buffer.from(payload.data, "base64")), decipher.final()])
+      return data.toString("utf-8")
+    } catch {
+      throw new SessionEncryptionError(
+        `Session "${sessionId}" could not be decrypted (wrong key or corrupted data)`,
+        "decrypt_failed",
+        sessionId
+      )
+    }
+  }
+}
+
+/**
+ * Associated data of a message: its session and position
+ */
+function messageAad(sessionId: string, index: number): string {
+  return `${sessionId}\n${index}`
+}
+
+/**
+ * Collect the configured keys, current key first
+ */
+function resolveKeys(options: EncryptedSessionStorageOptions): ResolvedKey[] {
+  let material: SessionKey[] = []
+
+  // Explicit options win over the environment
+  if (options.key !== undefined) {
+    material = [options.key]
+  } else if (options.keyFile) {
+    material = readKeyFile(options.keyFile)
+  } else if (process.env[SESSION_KEY_ENV]) {
+    material = [process.env[SESSION_KEY_ENV]]
+  } else if (process.env[SESSION_KEY_FILE_ENV]) {
+    material = readKeyFile(process.env[SESSION_KEY_FILE_ENV])
+  }
+
+  if (material.length === 0) {
+    throw new SessionEncryptionError(
+      `No session encryption key: pass a key or keyFile, or set ${SESSION_KEY_ENV} or ${SESSION_KEY_FILE_ENV}`,
+      "missing_key"
+    )
+  }
+
+  return [...material, ...(options.previousKeys ?? [])].map(toResolvedKey)
+}
+
+/**
+ * Read the keys in a key file, current key first
+ */
+function readKeyFile(keyFile: string): string[] {
+  let content: string
+  try {
+    content = readFileSync(keyFile, "utf-8")
+  } catch (error) {
+    throw new SessionEncryptionError(
+      `Could not read session key file ${keyFile}: ${error instanceof Error ? error.message : String(error)}`,
+      "missing_key"
+    )
+  }
+  return content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+}
+
+/**
+ * Decode key material and derive its ID
+ */
+function toResolvedKey(material: SessionKey): ResolvedKey {
+  let key: Buffer
+  if (typeof material !== "string") {
+    key = Buffer.from(material)
+  } else if (/^[0-9a-f]{64}$/i.test(material.trim())) {
+    key = Buffer.from(material.trim(), "hex")
+  } else {
+    key = Buffer.from(material.trim(), "base64")
+  }
+
+  if (key.length !== KEY_BYTES) {
+    throw new SessionEncryptionError(
+      `Session encryption keys must be ${KEY_BYTES} bytes (base64 or hex encoded), got ${key.length}`,
+      "invalid_key"
+    )
+  }
+
+  // Identifies the key in stored payloads without revealing it
+  const id = createHash("sha256").update(key).digest("hex").slice(0, 16)
+  return { id, key }
+}
@@ -0,0 +1,584 @@
+/**
+ * Session export (Markdown, HTML) and portable archives
+ * @module formagent-sdk/session/export
+ */
+
+import { readFile } from "fs/promises"
+import { gunzipSync, gzipSync } from "zlib"
+import type { ArtifactRef, ContentBlock, SDKMessage, ToolResultBlock } from "../types/core"
+import type { SessionState, SessionStorage } from "../types/session"
+import { saveOutputFile } from "../utils/truncation"
+import type { ArtifactStore } from "./artifacts"
+import { migrateSessionState } from "./migrations"
+
+/**
+ * Options for Markdown and HTML exports
+ */
+export interface SessionExportOptions {
+  /** Document title (default: `metadata.title`, then the session ID) */
+  title?: string
+}
+
+/**
+ * Contents of a `.formagent` archive
+ */
+export interface SessionArchive {
+  /** Always "formagent-session" */
+  format: typeof SESSION_ARCHIVE_FORMAT
+  /** Archive layout version */
+  version: number
+  /** Export timestamp */
+  exportedAt: number
+  /** Session state, including branches and file checkpoints */
+  state: SessionState
+  /** Truncated tool outputs, keyed by the path recorded in the session */
+  outputs: Record<string, string>
+  /** Artifacts the session refers to, keyed by ID */
+  artifacts?: Record<string, ArchivedArtifact>
+}
+
+/**
+ * An artifact packed into a `.formagent` archive
+ */
+export interface ArchivedArtifact {
+  mediaType: string
+  /** Content (base64) */
+  data: string
+}
+
+/**
+ * Options for exporting a `.formagent` archive
+ */
+export interface ExportSessionArchiveOptions {
+  /** Store holding the session's artifacts (without it, artifacts are left out) */
+  artifactStore?: ArtifactStore
+}
+
+/**
+ * Options for importing a `.formagent` archive
+ */
+export interface ImportSessionOptions {
+  /** Store the session under this ID instead of the archived one */
+  id?: string
+  /** Replace an existing session with the same ID (default: false) */
+  overwrite?: boolean
+  /** Directory for restored truncated outputs (default: the truncation temp directory) */
+  tempDir?: string
+  /** Store to restore artifacts into (required if the archive has artifacts) */
+  artifactStore?: ArtifactStore
+}
+
+/**
+ * Identifies `.formagent` archives
+ */
+export const SESSION_ARCHIVE_FORMAT = "formagent-session"
+
+const SESSION_ARCHIVE_VERSION = 1
+
+/**
+ * A tool call with its result
+ */
+interface ToolCall {
+  name: string
+  input: unknown
+  result?: ToolResultBlock
+}
+
+/**
+ * Renderable piece of a message
+ */
+type TranscriptPart =
+  | { type: "text"; text: string }
+  | { type: "thinking"; text: string }
+  | { type: "image" }
+  | { type: "tool"; call: ToolCall }
+
+/**
+ * A message with tool results attached to their calls
+ */
+interface TranscriptEntry {
+  role: SDKMessage["role"]
+  parts: TranscriptPart[]
+}
+
+const ROLE_LABELS: Record<SDKMessage["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+}
+
+// === Markdown ===
+
+/**
+ * Render a session as Markdown
+ *
+ * Tool calls are collapsed into `<details>` blocks together with their
+ * results, Edit calls are shown as diffs, and usage and cost go in a footer.
+ *
+ * @param state - Session to render
+ * @param options - Export options
+ */
+export function exportSessionMarkdown(state: SessionState, options: SessionExportOptions = {}): string {
+  const lines: string[] = [`# ${getTitle(state, options)}`, ""]
+
+  for (const [label, value] of getDetails(state)) {
+    lines.push(`- **${label}:** ${value}`)
+  }
+  lines.push("")
+
+  for (const entry of collectEntries(state.messages)) {
+    lines.push(`## ${ROLE_LABELS[entry.role]}`, "")
+
+    for (const part of entry.parts) {
+      if (part.type === "text") {
+        lines.push(part.text, "")
+      } else if (part.type === "thinking") {
+        lines.push("<details>", "<summary>Thinking</summary>", "", part.text, "", "</details>", "")
+      } else if (part.type === "image") {
+        lines.push("_[image]_", "")
+      } else {
+        const { call } = part
+        lines.push("<details>", `<summary>${escapeHtml(toolSummary(call))}</summary>`, "")
+
+        const diff = editDiff(call.input)
+        lines.push(diff ? fence(diff, "diff") : fence(JSON.stringify(call.input ?? {}, null, 2), "json"), "")
+
+        if (call.result) {
+          const text = resultText(call.result)
+          lines.push(call.result.is_error ? "**Error**" : "**Result**", "")
+          lines.push(fence(text, isDiff(text) ? "diff" : ""), "")
+          for (const artifact of call.result.artifacts ?? []) {
+            lines.push(`- Artifact: ${artifactSummary(artifact)}`)
+          }
+          if (call.result.artifacts?.length) {
+            lines.push("")
+          }
+        }
+        lines.push("</details>", "")
+      }
+    }
+  }
+
+  lines.push("---", "", getFooter(state).join(" · "), "")
+  return lines.join("\n")
+}
+
+// === HTML ===
+
+const HTML_STYLE = `
+body { margin: 0; background: #f6f7f9; color: #1f2328; font: 15px/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 32px 20px; }
+h1 { font-size: 24px; margin: 0 0 8px; }
+.meta { color: #656d76; font-size: 13px; margin: 0 0 24px; }
+.message { background: #fff; border: 1px solid #d0d7de; border-radius: 8px; padding: 12px 16px; margin: 0 0 16px; }
+.message.user { border-left: 4px solid #0969da; }
+.message.assistant { border-left: 4px solid #8250df; }
+.message.system { border-left: 4px solid #9a6700; }
+.message h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .04em; color: #656d76; margin: 0 0 8px; }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; margin: 0 0 8px; }
+details.tool { border: 1px solid #d0d7de; border-radius: 6px; margin: 8px 0; background: #f6f8fa; }
+details.tool > summary { cursor: pointer; padding: 6px 10px; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 13px; }
+details.tool.error > summary { color: #cf222e; }
+pre { margin: 0; padding: 10px; overflow-x: auto; font: 12px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; border-top: 1px solid #d0d7de; background: #fff; }
+.label { font-size: 12px; color: #656d76; padding: 6px 10px 0; }
+.add { background: #dafbe1; color: #116329; display: block; }
+.del { background: #ffebe9; color: #82071e; display: block; }
+.hunk { color: #0550ae; display: block; }
+footer { color: #656d76; font-size: 13px; border-top: 1px solid #d0d7de; padding-top: 12px; }
+`
+
+/**
+ * Render a session as a self-contained HTML page
+ *
+ * Tool calls are collapsed into `<details>` blocks together with their
+ * results, diffs are highlighted, and usage and cost go in a footer.
+ *
+ * @param state - Session to render
+ * @param options - Export options
+ */
+export function exportSessionHtml(state: SessionState, options: SessionExportOptions = {}): string {
+  const title = escapeHtml(getTitle(state, options))
+  const meta = getDetails(state)
+    .map(([label, value]) => `${escapeHtml(label)}: ${escapeHtml(value)}`)
+    .join(" · ")
+
+  const sections = collectEntries(state.messages).map((entry) => {
+    const parts = entry.parts.map((part) => {
+      if (part.type === "text") {
+        return `<div class="text">${escapeHtml(part.text)}</div>`
+      }
+      if (part.type === "thinking") {
+        return `<details class="tool"><summary>Thinking</summary><pre>${escapeHtml(part.text)}</pre></details>`
+      }
+      if (part.type === "image") {
+        return `<div class="text"><em>[image]</em></div>`
+      }
+
+      const { call } = part
+      const diff = editDiff(call.input)
+      const body = [diff ? renderDiff(diff) : `<pre>${escapeHtml(JSON.stringify(call.input ?? {}, null, 2))}</pre>`]
+      if (call.result) {
+        const text = resultText(call.result)
+        body.push(`<div class="label">${call.result.is_error ? "Error" : "Result"}</div>`)
+        body.push(isDiff(text) ? renderDiff(text) : `<pre>${escapeHtml(text)}</pre>`)
+        for (const artifact of call.result.artifacts ?? []) {
+          body.push(`<div class="label">Artifact: ${escapeHtml(artifactSummary(artifact))}</div>`)
+        }
+      }
+
+      const className = call.result?.is_error ? "tool error" : "tool"
+      return `<details class="${className}"><summary>${escapeHtml(toolSummary(call))}</summary>${body.join("")}</details>`
+    })
+
+    return `<section class="message ${entry.role}"><h2>${ROLE_LABELS[entry.role]}</h2>${parts.join("\n")}</section>`
+  })
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en">`,
+    "<head>",
+    `<meta charset="utf-8">`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    "<main>",
+    `<h1>${title}</h1>`,
+    `<p class="meta">${meta}</p>`,
+    ...sections,
+    `<footer>${getFooter(state).map(escapeHtml).join(" · ")}</footer>`,
+    "</main>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n")
+}
+
+// === Archives ===
+
+/**
+ * Pack a session into a portable `.formagent` archive (gzipped JSON)
+ *
+ * The archive holds the session state (with branches and file checkpoints)
+ * and the truncated tool outputs it refers to, plus its artifacts when an
+ * artifact store is given. Outputs and artifacts that no longer exist are
+ * left out.
+ *
+ * @param state - Session to export
+ * @param options - Export options
+ * @returns Archive bytes
+ */
+export async function exportSessionArchive(
+  state: SessionState,
+  options: ExportSessionArchiveOptions = {}
+): Promise<Buffer> {
+  const outputs: Record<string, string> = {}
+  for (const file of state.outputFiles ?? []) {
+    try {
+      outputs[file] = await readFile(file, "utf-8")
+    } catch {
+      // Removed by cleanup; the transcript still has the truncated preview
+    }
+  }
+
+  const artifacts: Record<string, ArchivedArtifact> = {}
+  if (options.artifactStore) {
+    for (const id of state.artifacts ?? []) {
+      const ref = await options.artifactStore.stat(id)
+      const content = await options.artifactStore.get(id)
+      if (ref && content) {
+        artifacts[id] = { mediaType: ref.mediaType, data: content.toString("base64") }
+      }
+    }
+  }
+
+  const archive: SessionArchive = {
+    format: SESSION_ARCHIVE_FORMAT,
+    version: SESSION_ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    state,
+    outputs,
+    ...(Object.keys(artifacts).length > 0 ? { artifacts } : {}),
+  }
+
+  return gzipSync(JSON.stringify(archive))
+}
+
+/**
+ * Unpack a `.formagent` archive without importing it
+ *
+ * @param data - Archive bytes
+ * @throws Error if the data is not a supported archive
+ */
+export function readSessionArchive(data: Uint8Array): SessionArchive {
+  let archive: SessionArchive
+  try {
+    archive = JSON.parse(gunzipSync(data).toString("utf-8")) as SessionArchive
+  } catch {
+    throw new Error("Not a .formagent session archive")
+  }
+
+  if (archive?.format !== SESSION_ARCHIVE_FORMAT || !archive.state) {
+    throw new Error("Not a .formagent session archive")
+  }
+  if (archive.version > SESSION_ARCHIVE_VERSION) {
+    throw new Error(
+      `Session archive version ${archive.version} is newer than supported version ${SESSION_ARCHIVE_VERSION}`
+    )
+  }
+
+  return archive
+}
+
+/**
+ * Import a `.formagent` archive into a storage, ready to resume
+ *
+ * Truncated outputs are restored to the temp directory and the paths in the
+ * transcript are updated to point at them. Artifacts are restored into
+ * `options.artifactStore` under the same IDs.
+ *
+ * @param data - Archive bytes
+ * @param storage - Storage to save the session in
+ * @param options - Import options
+ * @returns The imported session state
+ * @throws Error if a session with the same ID exists and `overwrite` is not set,
+ *   or the archive has artifacts and no artifact store is given
+ *
+ * @example
+ * ```ts
+ * const state = await importSessionArchive(await readFile("chat.formagent"), storage)
+ * const session = await resumeSession(state.id, { sessionStorage: storage })
+ * ```
+ */
+export async function importSessionArchive(
+  data: Uint8Array,
+  storage: SessionStorage,
+  options: ImportSessionOptions = {}
+): Promise<SessionState> {
+  const archive = readSessionArchive(data)
+  const id = options.id ?? archive.state.id
+
+  if (!options.overwrite && (await storage.list()).includes(id)) {
+    throw new Error(`Session "${id}" already exists (pass a new id or overwrite)`)
+  }
+
+  const artifacts = Object.entries(archive.artifacts ?? {})
+  if (artifacts.length > 0) {
+    if (!options.artifactStore) {
+      throw new Error(`Session archive has ${artifacts.length} artifact(s); pass an artifactStore to import them`)
+    }
+    for (const [artifactId, artifact] of artifacts) {
+      const ref = await options.artifactStore.put(Buffer.from(artifact.data, "base64"), {
+        mediaType: artifact.mediaType,
+      })
+      if (ref.id !== artifactId) {
+        throw new Error(`Artifact ${artifactId} in the session archive is corrupted`)
+      }
+    }
+  }
+
+  let json = JSON.stringify(archive.state)
+  const outputFiles: string[] = []
+
+  for (const [originalPath, content] of Object.entries(archive.outputs ?? {})) {
+    const restoredPath = await saveOutputFile(content, options.tempDir ? { tempDir: options.tempDir } : undefined)
+    json = json.split(jsonEscape(originalPath)).join(jsonEscape(restoredPath))
+    outputFiles.push(restoredPath)
+  }
+
+  const state = migrateSessionState({
+    ...JSON.parse(json),
+    id,
+    outputFiles: outputFiles.length > 0 ? outputFiles : undefined,
+  })
+
+  try {
+    await storage.save(state)
+  } finally {
+    await storage.release?.(id)
+  }
+
+  return state
+}
+
+// === Helpers ===
+
+/**
+ * Group messages for rendering, attaching tool results to their calls
+ */
+function collectEntries(messages: SDKMessage[]): TranscriptEntry[] {
+  const results = new Map<string, ToolResultBlock>()
+  const calls = new Set<string>()
+
+  for (const message of messages) {
+    for (const block of blocksOf(message)) {
+      if (block.type === "tool_result") {
+        results.set(block.tool_use_id, block)
+      } else if (block.type === "tool_use") {
+        calls.add(block.id)
+      }
+    }
+  }
+
+  const entries: TranscriptEntry[] = []
+  for (const message of messages) {
+    const parts: TranscriptPart[] = []
+
+    for (const block of blocksOf(message)) {
+      if (block.type === "text") {
+        if (block.text.trim()) {
+          parts.push({ type: "text", text: block.text })
+        }
+      } else if (block.type === "thinking") {
+        if (block.thinking.trim()) {
+          parts.push({ type: "thinking", text: block.thinking })
+        }
+      } else if (block.type === "image") {
+        parts.push({ type: "image" })
+      } else if (block.type === "tool_use") {
+        parts.push({ type: "tool", call: { name: block.name, input: block.input, result: results.get(block.id) } })
+      } else if (!calls.has(block.tool_use_id)) {
+        // Result whose call was compacted away
+        parts.push({ type: "tool", call: { name: "Tool result", input: undefined, result: block } })
+      }
+    }
+
+    if (parts.length > 0) {
+      entries.push({ role: message.role, parts })
+    }
+  }
+
+  return entries
+}
+
+function blocksOf(message: SDKMessage): ContentBlock[] {
+  return typeof message.content === "string" ? [{ type: "text", text: message.content }] : message.content
+}
+
+function getTitle(state: SessionState, options: SessionExportOptions): string {
+  if (options.title) {
+    return options.title
+  }
+  return typeof state.metadata?.title === "string" ? state.metadata.title : `Session ${state.id}`
+}
+
+function getDetails(state: SessionState): Array<[string, string]> {
+  const details: Array<[string, string]> = [
+    ["Session", state.id],
+    ["Created", new Date(state.createdAt).toISOString()],
+    ["Updated", new Date(state.updatedAt).toISOString()],
+  ]
+  if (state.parentId) {
+    details.push(["Forked from", state.parentId])
+  }
+  if (state.activeBranch) {
+    details.push(["Branch", state.activeBranch])
+  }
+  return details
+}
+
+function getFooter(state: SessionState): string[] {
+  const { usage } = state
+  const footer = [
+    `${state.messages.length} messages`,
+    `${usage.input_tokens.toLocaleString("en-US")} input tokens`,
+    `${usage.output_tokens.toLocaleString("en-US")} output tokens`,
+  ]
+  if (usage.cache_read_input_tokens || usage.cache_creation_input_tokens) {
+    footer.push(
+      `${(usage.cache_read_input_tokens ?? 0).toLocaleString("en-US")} cache read / ${(usage.cache_creation_input_tokens ?? 0).toLocaleString("en-US")} cache write tokens`
+    )
+  }
+  if (usage.total_cost_usd !== undefined) {
+    footer.push(`$${usage.total_cost_usd.toFixed(4)}`)
+  }
+  return footer
+}
+
+/**
+ * One-line description of a tool call, e.g. "Bash: npm test"
+ */
+function toolSummary(call: ToolCall): string {
+  const input = (call.input ?? {}) as Record<string, unknown>
+  const hint = ["command", "file_path", "path", "pattern", "url", "query", "description"]
+    .map((key) => input[key])
+    .find((value): value is string => typeof value === "string")
+
+  if (!hint) {
+    return call.name
+  }
+  const line = hint.split("\n")[0]
+  return `${call.name}: ${line.length > 80 ? `${line.slice(0, 77)}...` : line}`
+}
+
+/**
+ * Diff for Edit-style inputs (old_string/new_string)
+ */
+function editDiff(input: unknown): string | undefined {
+  const { file_path, old_string, new_string } = (input ?? {}) as Record<string, unknown>
+  if (typeof old_string !== "string" || typeof new_string !== "string") {
+    return undefined
+  }
+
+  const file = typeof file_path === "string" ? file_path : "file"
+  return [
+    `--- ${file}`,
+    `+++ ${file}`,
+    ...old_string.split("\n").map((line) => `-${line}`),
+    ...new_string.split("\n").map((line) => `+${line}`),
+  ].join("\n")
+}
+
+function isDiff(text: string): boolean {
+  return text.startsWith("diff --git ") || /^--- .*\n\+\+\+ .*\n(@@|[-+ ])/m.test(text)
+}
+
+function artifactSummary(artifact: ArtifactRef): string {
+  const size = artifact.lines !== undefined ? `${artifact.lines} lines` : `${artifact.size} bytes`
+  return `${artifact.name ?? artifact.id} (${artifact.mediaType}, ${size})`
+}
+
+function resultText(result: ToolResultBlock): string {
+  if (typeof result.content === "string") {
+    return result.content
+  }
+  return result.content.map((block) => (block.type === "text" ? block.text : `[${block.type}]`)).join("\n")
+}
+
+function renderDiff(diff: string): string {
+  const lines = diff.split("\n").map((line) => {
+    const escaped = escapeHtml(line)
+    if (line.startsWith("+++") || line.startsWith("---") || line.startsWith("@@")) {
+      return `<span class="hunk">${escaped}</span>`
+    }
+    if (line.startsWith("+")) {
+      return `<span class="add">${escaped}</span>`
+    }
+    if (line.startsWith("-")) {
+      return `<span class="del">${escaped}</span>`
+    }
+    return `${escaped}\n`
+  })
+  return `<pre class="diff">${lines.join("")}</pre>`
+}
+
+/**
+ * Wrap text in a code fence longer than any backtick run inside it
+ */
+function fence(text: string, lang: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const marker = "`".repeat(Math.max(3, longest + 1))
+  return `${marker}${lang}\n${text}\n${marker}`
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+/**
+ * A string as it appears inside JSON quotes
+ */
+function jsonEscape(text: string): string {
+  return JSON.stringify(text).slice(1, -1)
+}
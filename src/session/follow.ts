@@ -0,0 +1,135 @@
+/**
+ * Follow a session written by another process
+ * @module formagent-sdk/session/follow
+ */
+
+import type { SDKMessage } from "../types/core"
+import type { MessageEvent, SessionState, SessionStorage } from "../types/session"
+
+/**
+ * Options for followSession()
+ */
+export interface FollowSessionOptions {
+  /** How often storage is checked for changes in milliseconds (default: 500) */
+  pollIntervalMs?: number
+  /** Yield the messages already stored before following (default: false) */
+  fromStart?: boolean
+  /** Stop following */
+  signal?: AbortSignal
+}
+
+/**
+ * Yielded when the stored history was rewritten (rewind, compaction or a
+ * branch switch) instead of appended to
+ */
+export interface HistoryResetEvent {
+  type: "history_reset"
+  /** The new history */
+  messages: SDKMessage[]
+}
+
+/**
+ * Event yielded by followSession()
+ */
+export type FollowEvent = MessageEvent | HistoryResetEvent
+
+const DEFAULT_POLL_INTERVAL_MS = 500
+
+/**
+ * Stream the messages another process adds to a session
+ *
+ * Polls the storage and yields a `message` event for each new message, in
+ * order, as the writer saves them (use `autosave` on the writing session to
+ * save during runs). Works with any storage and needs no lock, so it can
+ * watch a session that is locked by its writer.
+ *
+ * Ends when `signal` is aborted or the session is deleted. Loads that fail
+ * (for example while a file is being rewritten) are retried on the next poll.
+ *
+ * @param storage - Storage the session is saved in
+ * @param sessionId - Session to follow
+ * @param options - Follow options
+ * @throws Error if the session does not exist
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController()
+ * for await (const event of followSession(storage, sessionId, { signal: controller.signal })) {
+ *   if (event.type === "message") {
+ *     render(event.message)
+ *   }
+ * }
+ * ```
+ */
+export async function* followSession(
+  storage: SessionStorage,
+  sessionId: string,
+  options: FollowSessionOptions = {}
+): AsyncGenerator<FollowEvent, void, unknown> {
+  const interval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+
+  const initial = await storage.load(sessionId)
+  if (!initial) {
+    throw new Error(`Session not found: ${sessionId}`)
+  }
+
+  let seen: string[] = []
+  if (options.fromStart) {
+    yield* newMessages(seen, initial.messages)
+  }
+  seen = initial.messages.map(messageKey)
+
+  while (!options.signal?.aborted) {
+    await sleep(interval, options.signal)
+    if (options.signal?.aborted) {
+      return
+    }
+
+    let state: SessionState | undefined
+    try {
+      state = await storage.load(sessionId)
+    } catch {
+      continue
+    }
+    if (!state) {
+      return
+    }
+
+    const keys = state.messages.map(messageKey)
+    if (keys.length === seen.length && keys.every((key, i) => key === seen[i])) {
+      continue
+    }
+
+    if (seen.some((key, i) => key !== keys[i])) {
+      yield { type: "history_reset", messages: state.messages }
+    } else {
+      yield* newMessages(seen, state.messages)
+    }
+    seen = keys
+  }
+}
+
+function* newMessages(seen: string[], messages: SDKMessage[]): Generator<MessageEvent> {
+  for (const message of messages.slice(seen.length)) {
+    yield { type: "message", message }
+  }
+}
+
+/**
+ * Compared between polls, so edits to a stored message count as a rewrite
+ */
+function messageKey(message: SDKMessage): string {
+  return JSON.stringify(message)
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener("abort", done, { once: true })
+  })
+}
@@ -11,4 +11,59 @@ export { SessionManagerImpl, createSessionManager } from "./manager"
 export type { SessionManagerOptions } from "./manager"
 
 // Storage implementations
-export { MemorySessionStorage, FileSessionStorage, createSessionStorage } from "./storage"
+export { MemorySessionStorage, FileSessionStorage, createSessionStorage, listSessionSummaries } from "./storage"
+export type { SessionStorageOptions } from "./storage"
+export { SqliteSessionStorage } from "./sqlite-storage"
+export { JsonlSessionStorage } from "./jsonl-storage"
+export type { JsonlSessionStorageOptions } from "./jsonl-storage"
+export { SessionLockedError } from "./lock"
+export {
+  SESSION_SCHEMA_VERSION,
+  SessionMigrationRegistry,
+  SessionSchemaError,
+  sessionMigrations,
+  migrateSessionState,
+  migrateSessionStorage,
+} from "./migrations"
+export type { SessionMigration, StorageMigrationResult } from "./migrations"
+export { pruneSessions, isSessionPinned } from "./retention"
+export {
+  EncryptedSessionStorage,
+  SessionEncryptionError,
+  generateSessionKey,
+  SESSION_KEY_ENV,
+  SESSION_KEY_FILE_ENV,
+} from "./encrypted-storage"
+export type {
+  EncryptedSessionStorageOptions,
+  RotateResult,
+  SessionEncryptionErrorReason,
+  SessionKey,
+} from "./encrypted-storage"
+export {
+  exportSessionMarkdown,
+  exportSessionHtml,
+  exportSessionArchive,
+  readSessionArchive,
+  importSessionArchive,
+  SESSION_ARCHIVE_FORMAT,
+} from "./export"
+export type {
+  SessionExportOptions,
+  SessionArchive,
+  ArchivedArtifact,
+  ExportSessionArchiveOptions,
+  ImportSessionOptions,
+} from "./export"
+export {
+  TITLE_DEFAULTS,
+  formatTranscriptExcerpt,
+  generateSessionMetadataPrompt,
+  parseSessionMetadata,
+} from "./titles"
+export type { SessionMetadataUpdate } from "./titles"
+export { ArtifactStore, DEFAULT_ARTIFACT_DIR, isTextMediaType } from "./artifacts"
+export type { PutArtifactOptions } from "./artifacts"
+export { followSession } from "./follow"
+export type { FollowSessionOptions, FollowEvent, HistoryResetEvent } from "./follow"
+export type { SqliteSessionStorageOptions, SqliteDatabase, SqliteStatement } from "./sqlite-storage"
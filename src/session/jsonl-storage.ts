@@ -0,0 +1,395 @@
+/**
+ * Append-only JSONL session storage
+ * @module formagent-sdk/session/jsonl-storage
+ */
+
+import path from "path"
+import { appendFile, mkdir, open, readFile, readdir, rename, unlink } from "fs/promises"
+import type { SDKMessage } from "../types/core"
+import type {
+  PruneOptions,
+  PruneResult,
+  RetentionPolicy,
+  SessionLease,
+  SessionState,
+  SessionStorage,
+} from "../types/session"
+import { SessionLockedError, acquireFileLock, type FileLock } from "./lock"
+import { migrateSessionState, sessionMigrations } from "./migrations"
+import { pruneSessions } from "./retention"
+
+/**
+ * One line of a transcript file
+ */
+type TranscriptRecord =
+  | { type: "state"; state: Omit<SessionState, "messages"> }
+  | { type: "message"; message: SDKMessage }
+
+/**
+ * What this storage last wrote for a session
+ */
+interface Transcript {
+  /** Lock held while this storage writes the session */
+  lock: FileLock
+  /** Messages written so far (the objects that were saved) */
+  messages: SDKMessage[]
+  /** JSON of the last written message, to catch in-place edits */
+  lastMessage: string
+  /** JSON of the last written state record */
+  state: string
+  /** Records appended since the last snapshot */
+  appended: number
+  /** The file must be rewritten before appending (e.g. after a torn write) */
+  needsSnapshot: boolean
+}
+
+/**
+ * Options for JsonlSessionStorage
+ */
+export interface JsonlSessionStorageOptions {
+  /** Records appended before the file is rewritten as a compact snapshot (default: 1000) */
+  snapshotInterval?: number
+  /** Policy applied by `prune()` */
+  retention?: RetentionPolicy
+}
+
+const DEFAULT_SNAPSHOT_INTERVAL = 1000
+
+/**
+ * Append-only JSONL session storage
+ *
+ * Each session is a `<id>.jsonl` transcript: a state record followed by one
+ * record per message. `save()` only appends the messages added since the
+ * last save (plus a state record when usage or metadata changed). When the
+ * history was rewritten (rewind, compaction, branch switch) the whole file is
+ * replaced atomically through a temp file and rename.
+ *
+ * The first write to a session takes an advisory `<id>.jsonl.lock` file, so a
+ * second process resuming the same session fails with `SessionLockedError`
+ * instead of interleaving writes. `lock()` takes the same lock up front. Call
+ * `release()` or `close()` when done.
+ *
+ * @example
+ * ```ts
+ * const storage = new JsonlSessionStorage("./sessions")
+ *
+ * await storage.save(sessionState)
+ * const loaded = await storage.load(sessionId)
+ * await storage.close()
+ * ```
+ */
+export class JsonlSessionStorage implements SessionStorage {
+  private directory: string
+  private snapshotInterval: number
+  private retention: RetentionPolicy | undefined
+  private transcripts: Map<string, Transcript> = new Map()
+  private pending: Map<string, Promise<void>> = new Map()
+  private repairs: Set<string> = new Set()
+  private leases: Set<string> = new Set()
+
+  constructor(directory: string, options?: JsonlSessionStorageOptions) {
+    this.directory = directory
+    this.snapshotInterval = options?.snapshotInterval ?? DEFAULT_SNAPSHOT_INTERVAL
+    this.retention = options?.retention
+  }
+
+  async save(state: SessionState): Promise<void> {
+    const filePath = this.getFilePath(state.id)
+
+    // Saves of one session run one after another
+    const previous = this.pending.get(state.id) ?? Promise.resolve()
+    const current = previous.catch(() => {}).then(() => this.write(filePath, state))
+    this.pending.set(state.id, current)
+
+    try {
+      await current
+    } finally {
+      if (this.pending.get(state.id) === current) {
+        this.pending.delete(state.id)
+      }
+    }
+  }
+
+  async load(sessionId: string): Promise<SessionState | undefined> {
+    const filePath = this.getFilePath(sessionId)
+
+    let content: string
+    try {
+      content = await readFile(filePath, "utf-8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined
+      }
+      throw error
+    }
+
+    const { records, torn } = parseTranscript(content, filePath)
+    if (torn) {
+      this.repairs.add(sessionId)
+    }
+
+    let state: Omit<SessionState, "messages"> | undefined
+    const messages: SDKMessage[] = []
+    for (const record of records) {
+      if (record.type === "state") {
+        state = record.state
+      } else {
+        messages.push(record.message)
+      }
+    }
+
+    if (!state) {
+      return undefined
+    }
+
+    // Track what is on disk so a resumed session keeps appending
+    const transcript = this.transcripts.get(sessionId)
+    if (transcript) {
+      transcript.messages = [...messages]
+      transcript.lastMessage = messages.length > 0 ? JSON.stringify(messages[messages.length - 1]) : ""
+      transcript.state = JSON.stringify(state)
+    }
+
+    return migrateSessionState({ ...state, messages })
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const filePath = this.getFilePath(sessionId)
+    await this.pending.get(sessionId)?.catch(() => {})
+
+    try {
+      await unlink(filePath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error
+      }
+    }
+    await this.release(sessionId)
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await readdir(this.directory)
+      return files.filter((f) => f.endsWith(".jsonl")).map((f) => f.slice(0, -6))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return []
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Claim a session for writing (takes its `<id>.jsonl.lock` file)
+   *
+   * @throws SessionLockedError if another process or storage instance holds the session
+   */
+  async lock(sessionId: string): Promise<SessionLease> {
+    if (this.leases.has(sessionId)) {
+      throw new SessionLockedError(sessionId, process.pid)
+    }
+
+    await this.openTranscript(this.getFilePath(sessionId), sessionId)
+    this.leases.add(sessionId)
+
+    return {
+      sessionId,
+      release: async () => {
+        if (this.leases.has(sessionId)) {
+          await this.release(sessionId)
+        }
+      },
+    }
+  }
+
+  /**
+   * Release the lock held for a session
+   */
+  async release(sessionId: string): Promise<void> {
+    this.leases.delete(sessionId)
+    const transcript = this.transcripts.get(sessionId)
+    if (!transcript) {
+      return
+    }
+
+    await this.pending.get(sessionId)?.catch(() => {})
+    this.transcripts.delete(sessionId)
+    await transcript.lock.release()
+  }
+
+  /**
+   * Delete sessions outside a retention policy
+   *
+   * @param policy - Policy to apply (default: the `retention` option; nothing is deleted without one)
+   * @param options - Prune options
+   */
+  async prune(policy: RetentionPolicy = this.retention ?? {}, options?: PruneOptions): Promise<PruneResult> {
+    return pruneSessions(this, policy, options)
+  }
+
+  /**
+   * Release all locks held by this storage
+   */
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.transcripts.keys()).map((id) => this.release(id)))
+  }
+
+  private getFilePath(sessionId: string): string {
+    if (!sessionId || sessionId.trim() === "") {
+      throw new Error("Session ID must be non-empty")
+    }
+
+    const baseDir = path.resolve(this.directory)
+    const filePath = path.resolve(baseDir, `${sessionId}.jsonl`)
+    const expectedPrefix = baseDir.endsWith(path.sep) ? baseDir : `${baseDir}${path.sep}`
+
+    if (!filePath.startsWith(expectedPrefix)) {
+      throw new Error(`Invalid session ID: "${sessionId}"`)
+    }
+
+    return filePath
+  }
+
+  /**
+   * Append new records, or rewrite the file when the history changed
+   */
+  private async write(filePath: string, state: SessionState): Promise<void> {
+    const transcript = await this.openTranscript(filePath, state.id)
+    const { messages, ...rest } = { ...state, schemaVersion: sessionMigrations.version }
+    const stateJson = JSON.stringify(rest)
+    const added = appendedMessages(transcript, messages)
+
+    if (!added || transcript.needsSnapshot || transcript.appended >= this.snapshotInterval) {
+      const records: TranscriptRecord[] = [
+        { type: "state", state: rest },
+        ...messages.map((message) => ({ type: "message" as const, message })),
+      ]
+      await writeAtomic(filePath, records.map((r) => JSON.stringify(r) + "\n").join(""))
+      transcript.appended = 0
+      transcript.needsSnapshot = false
+    } else {
+      const records: TranscriptRecord[] = added.map((message) => ({ type: "message", message }))
+      if (stateJson !== transcript.state) {
+        records.push({ type: "state", state: rest })
+      }
+      if (records.length === 0) {
+        return
+      }
+      await appendFile(filePath, records.map((r) => JSON.stringify(r) + "\n").join(""), "utf-8")
+      transcript.appended += records.length
+    }
+
+    transcript.messages = [...messages]
+    transcript.lastMessage = messages.length > 0 ? JSON.stringify(messages[messages.length - 1]) : ""
+    transcript.state = stateJson
+  }
+
+  /**
+   * Lock a session for writing and read what is already on disk
+   */
+  private async openTranscript(filePath: string, sessionId: string): Promise<Transcript> {
+    const existing = this.transcripts.get(sessionId)
+    if (existing) {
+      return existing
+    }
+
+    await mkdir(this.directory, { recursive: true })
+    const lock = await acquireFileLock(`${filePath}.lock`, sessionId)
+
+    // Messages on disk are compared by content; the next save after a
+    // mismatch rewrites the file
+    const transcript: Transcript = {
+      lock,
+      messages: [],
+      lastMessage: "",
+      state: "",
+      appended: 0,
+      needsSnapshot: true,
+    }
+    this.transcripts.set(sessionId, transcript)
+
+    try {
+      const loaded = await this.load(sessionId)
+      transcript.needsSnapshot = !loaded || this.repairs.delete(sessionId)
+    } catch {
+      // Unreadable file: the next write replaces it
+      transcript.needsSnapshot = true
+    }
+
+    return transcript
+  }
+}
+
+/**
+ * Get the messages added since the last save, or null if earlier ones changed
+ */
+function appendedMessages(transcript: Transcript, messages: SDKMessage[]): SDKMessage[] | null {
+  const written = transcript.messages
+  if (messages.length < written.length) {
+    return null
+  }
+
+  for (let i = 0; i < written.length; i++) {
+    if (messages[i] !== written[i] && JSON.stringify(messages[i]) !== JSON.stringify(written[i])) {
+      return null
+    }
+  }
+
+  // The last message may have been edited in place since it was written
+  if (written.length > 0 && JSON.stringify(messages[written.length - 1]) !== transcript.lastMessage) {
+    return null
+  }
+
+  return messages.slice(written.length)
+}
+
+/**
+ * Parse transcript lines, dropping a torn last line left by a crash
+ */
+function parseTranscript(content: string, filePath: string): { records: TranscriptRecord[]; torn: boolean } {
+  const lines = content.split("\n")
+  const records: TranscriptRecord[] = []
+  let torn = false
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (!line.trim()) {
+      continue
+    }
+
+    try {
+      records.push(JSON.parse(line) as TranscriptRecord)
+    } catch (error) {
+      // Only the last line can be cut off by an interrupted append
+      if (lines.slice(i + 1).every((l) => !l.trim())) {
+        torn = true
+        break
+      }
+      throw new Error(`Corrupt session transcript ${filePath} at line ${i + 1}: ${error}`)
+    }
+  }
+
+  return { records, torn }
+}
+
+/**
+ * Replace a file through a synced temp file and rename
+ */
+async function writeAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`
+  const handle = await open(tempPath, "w")
+
+  try {
+    await handle.writeFile(content, "utf-8")
+    await handle.sync()
+  } finally {
+    await handle.close()
+  }
+
+  try {
+    await rename(tempPath, filePath)
+  } catch (error) {
+    await unlink(tempPath).catch(() => {})
+    throw error
+  }
+}
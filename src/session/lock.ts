@@ -0,0 +1,191 @@
+/**
+ * Advisory file locks for session storage
+ * @module formagent-sdk/session/lock
+ */
+
+import { link, open, readFile, stat, unlink, writeFile } from "fs/promises"
+import { hostname } from "os"
+
+/**
+ * Thrown when another process (or storage instance) holds a session's lock
+ */
+export class SessionLockedError extends Error {
+  readonly sessionId: string
+  readonly pid: number
+
+  constructor(sessionId: string, pid: number) {
+    super(`Session "${sessionId}" is locked by process ${pid}`)
+    this.name = "SessionLockedError"
+    this.sessionId = sessionId
+    this.pid = pid
+  }
+}
+
+/**
+ * A held lock file
+ */
+export interface FileLock {
+  /** Lock file path */
+  path: string
+  /** Remove the lock file */
+  release(): Promise<void>
+}
+
+/**
+ * Contents of a lock file
+ */
+interface LockInfo {
+  pid: number
+  /** Machine the process runs on (missing in older lock files, which are treated as local) */
+  host?: string
+  acquiredAt: number
+}
+
+/**
+ * Create a lock file, failing if a live process holds it
+ *
+ * Locks left behind by processes that no longer exist are taken over. A
+ * lock taken on another machine is never considered stale, since its
+ * process cannot be checked from here.
+ *
+ * @param lockPath - Lock file path
+ * @param sessionId - Session the lock protects (for error messages)
+ */
+export async function acquireFileLock(lockPath: string, sessionId: string): Promise<FileLock> {
+  // Written in full first and linked into place, so a lock file is never seen half-written
+  const info: LockInfo = { pid: process.pid, host: hostname(), acquiredAt: Date.now() }
+  const tempPath = `${lockPath}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`
+  await writeFile(tempPath, JSON.stringify(info), "utf-8")
+
+  try {
+    await linkLock(tempPath, lockPath, sessionId)
+    return { path: lockPath, release: () => releaseFileLock(lockPath) }
+  } finally {
+    await releaseFileLock(tempPath)
+  }
+}
+
+const MAX_LOCK_ATTEMPTS = 5
+
+/**
+ * Link a written lock file into place, taking over a stale lock
+ *
+ * Contenders that find the same stale lock race to create a claim file
+ * named after its inode, and only the winner deletes it, after checking
+ * the lock path still holds that inode. A lock another contender has just
+ * taken over is therefore never removed. Claims left by a contender that
+ * died are taken over the same way.
+ */
+async function linkLock(tempPath: string, lockPath: string, sessionId: string): Promise<void> {
+  for (let attempt = 0; attempt < MAX_LOCK_ATTEMPTS; attempt++) {
+    try {
+      await link(tempPath, lockPath)
+      return
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error
+      }
+    }
+
+    const holder = await readLockFile(lockPath)
+    if (!holder) {
+      // Released in the meantime
+      continue
+    }
+    if (holder.info && (!isLocalHost(holder.info.host) || isProcessAlive(holder.info.pid))) {
+      throw new SessionLockedError(sessionId, holder.info.pid)
+    }
+
+    // Stale lock: its process on this machine is gone (or the file is unreadable)
+    const claimPath = `${lockPath}.${holder.ino}.claim`
+    await linkLock(tempPath, claimPath, sessionId)
+    try {
+      const current = await statIfExists(lockPath)
+      if (current?.ino === holder.ino) {
+        await releaseFileLock(lockPath)
+      }
+    } finally {
+      await releaseFileLock(claimPath)
+    }
+  }
+
+  throw new Error(`Could not acquire lock: ${lockPath}`)
+}
+
+/**
+ * Read a lock file and its inode from one open handle, so both describe the
+ * same file even if the path is replaced meanwhile
+ */
+async function readLockFile(lockPath: string): Promise<{ ino: number; info?: LockInfo } | undefined> {
+  let handle
+  try {
+    handle = await open(lockPath, "r")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined
+    }
+    throw error
+  }
+
+  try {
+    const { ino } = await handle.stat()
+    try {
+      const info = JSON.parse(await handle.readFile("utf-8")) as LockInfo
+      return { ino, info: typeof info.pid === "number" ? info : undefined }
+    } catch {
+      return { ino }
+    }
+  } finally {
+    await handle.close()
+  }
+}
+
+async function statIfExists(path: string): Promise<{ ino: number } | undefined> {
+  try {
+    return await stat(path)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined
+    }
+    throw error
+  }
+}
+
+/**
+ * Read the process holding a lock file (undefined if missing or unreadable)
+ */
+export async function readLockInfo(lockPath: string): Promise<LockInfo | undefined> {
+  try {
+    const info = JSON.parse(await readFile(lockPath, "utf-8")) as LockInfo
+    return typeof info.pid === "number" ? info : undefined
+  } catch {
+    return undefined
+  }
+}
+
+async function releaseFileLock(lockPath: string): Promise<void> {
+  try {
+    await unlink(lockPath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error
+    }
+  }
+}
+
+function isLocalHost(host: string | undefined): boolean {
+  return host === undefined || host === hostname()
+}
+
+/**
+ * Check whether a process exists on this machine
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM"
+  }
+}
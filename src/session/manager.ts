@@ -6,6 +6,7 @@
 import type {
   Session,
   SessionConfig,
+  SessionLease,
   SessionState,
   SessionStorage,
   SessionManager,
@@ -15,6 +16,7 @@ import type { LLMProvider } from "../types/provider"
 import { generateSessionId } from "../utils/id"
 import { SessionImpl, createSessionImpl } from "./session"
 import { MemorySessionStorage } from "./storage"
+import { SessionLockedError } from "./lock"
 
 /**
  * Options for creating a SessionManager
@@ -26,6 +28,11 @@ export interface SessionManagerOptions {
   storage?: SessionStorage
   /** LLM provider instance */
   provider: LLMProvider
+  /**
+   * What `resume()` does when another process holds the session:
+   * throw `SessionLockedError` ("error", the default) or attach read-only ("readonly")
+   */
+  onLocked?: "error" | "readonly"
 }
 
 /**
@@ -33,6 +40,11 @@ export interface SessionManagerOptions {
  *
  * Manages the lifecycle of sessions: creation, retrieval, resumption, and cleanup.
  *
+ * When the storage supports `lock()`, the manager holds a lease on every
+ * session it writes until the session closes, so two processes cannot resume
+ * the same session. Sessions resumed with `readOnly: true` (or attached
+ * read-only because of `onLocked`) take no lease and are never saved.
+ *
  * @example
  * ```ts
  * const manager = new SessionManagerImpl({
@@ -53,15 +65,17 @@ export interface SessionManagerOptions {
  * ```
  */
 export class SessionManagerImpl implements SessionManager {
-  private sessions: Map<string, Session> = new Map()
+  private sessions: Map<string, SessionImpl> = new Map()
   private storage: SessionStorage
   private provider: LLMProvider
   private defaultConfig: Partial<SessionConfig>
+  private onLocked: "error" | "readonly"
 
   constructor(options: SessionManagerOptions) {
     this.storage = options.storage ?? new MemorySessionStorage()
     this.provider = options.provider
     this.defaultConfig = options.defaultConfig ?? {}
+    this.onLocked = options.onLocked ?? "error"
   }
 
   async create(config?: CreateSessionOptions): Promise<Session> {
@@ -81,8 +95,8 @@ export class SessionManagerImpl implements SessionManager {
     }
 
     // Create new session
-    const session = createSessionImpl(mergedConfig, this.provider)
-    this.sessions.set(session.id, session)
+    const session = createSessionImpl(this.withStorage(mergedConfig), this.provider)
+    this.register(session, await this.acquireLease(session.id))
 
     // Save initial state
     await this.storage.save(session.state)
@@ -109,9 +123,22 @@ export class SessionManagerImpl implements SessionManager {
       ...config,
     }
 
+    // Claim the session, or attach read-only while another process writes it
+    let lease: SessionLease | undefined
+    if (!mergedConfig.readOnly) {
+      try {
+        lease = await this.acquireLease(sessionId)
+      } catch (error) {
+        if (!(error instanceof SessionLockedError) || this.onLocked !== "readonly") {
+          throw error
+        }
+        mergedConfig.readOnly = true
+      }
+    }
+
     // Create session with existing state
-    const session = createSessionImpl(mergedConfig, this.provider, state)
-    this.sessions.set(session.id, session)
+    const session = createSessionImpl(this.withStorage(mergedConfig), this.provider, state)
+    this.register(session, lease)
 
     return session
   }
@@ -129,20 +156,20 @@ export class SessionManagerImpl implements SessionManager {
       ...config,
     }
 
-    // Create new session with copied state
-    const newId = generateSessionId()
+    // The fork continues from the active branch. It records how much history
+    // it shares, so storages can keep a reference to the parent instead of a copy.
+    const { branches: _branches, activeBranch: _activeBranch, ...rest } = originalState
     const forkedState: Partial<SessionState> = {
-      ...originalState,
-      id: newId,
+      ...rest,
+      id: generateSessionId(),
       parentId: sessionId,
+      forkIndex: originalState.messages.length,
       createdAt: Date.now(),
       updatedAt: Date.now(),
-      // Deep clone messages
-      messages: JSON.parse(JSON.stringify(originalState.messages)),
     }
 
-    const session = createSessionImpl(mergedConfig, this.provider, forkedState)
-    this.sessions.set(session.id, session)
+    const session = createSessionImpl(this.withStorage(mergedConfig), this.provider, forkedState)
+    this.register(session, await this.acquireLease(session.id))
 
     // Save forked state
     await this.storage.save(session.state)
@@ -164,14 +191,8 @@ export class SessionManagerImpl implements SessionManager {
       return
     }
 
-    // Save final state
-    await this.storage.save(session.state)
-
-    // Close session
+    // Saves the final state and releases the session (see register())
     await session.close()
-
-    // Remove from active sessions
-    this.sessions.delete(sessionId)
   }
 
   async closeAll(): Promise<void> {
@@ -179,6 +200,40 @@ export class SessionManagerImpl implements SessionManager {
     await Promise.all(sessionIds.map((id) => this.close(id)))
   }
 
+  /**
+   * Claim a session for writing (when the storage supports locking)
+   */
+  private async acquireLease(sessionId: string): Promise<SessionLease | undefined> {
+    return this.storage.lock?.(sessionId)
+  }
+
+  /**
+   * Track an active session until it closes, however it is closed
+   */
+  private register(session: SessionImpl, lease: SessionLease | undefined): void {
+    this.sessions.set(session.id, session)
+
+    // Runs after background work (such as a title update) is in the final state
+    session.onClose(async () => {
+      try {
+        if (!session.config.readOnly) {
+          await this.storage.save(session.state)
+        }
+      } finally {
+        await lease?.release()
+        await this.storage.release?.(session.id)
+        this.sessions.delete(session.id)
+      }
+    })
+  }
+
+  /**
+   * Let sessions autosave to the manager's storage unless they name their own
+   */
+  private withStorage(config: SessionConfig): SessionConfig {
+    return { ...config, storage: config.storage ?? this.storage }
+  }
+
   /**
    * Get the storage backend
    */
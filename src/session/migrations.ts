@@ -0,0 +1,208 @@
+/**
+ * Session state schema versions and migrations
+ * @module formagent-sdk/session/migrations
+ */
+
+import type { SessionState, SessionStorage } from "../types/session"
+
+/**
+ * Schema version written with every persisted session
+ *
+ * Records saved before versioning was added count as version 0.
+ */
+export const SESSION_SCHEMA_VERSION = 1
+
+/**
+ * A step that upgrades persisted session records by one schema version
+ */
+export interface SessionMigration {
+  /** Version the migration reads */
+  from: number
+  /** Version the migration produces (must be `from + 1`) */
+  to: number
+  /** What the migration changes */
+  description: string
+  /** Upgrade a raw record (may modify and return it) */
+  migrate(record: Record<string, unknown>): Record<string, unknown>
+}
+
+/**
+ * Thrown when a persisted session cannot be brought to the current schema
+ */
+export class SessionSchemaError extends Error {
+  readonly sessionId: string | undefined
+  readonly version: number
+
+  constructor(message: string, sessionId: string | undefined, version: number) {
+    super(message)
+    this.name = "SessionSchemaError"
+    this.sessionId = sessionId
+    this.version = version
+  }
+}
+
+/**
+ * Registry of schema migrations applied when sessions are loaded
+ *
+ * @example
+ * ```ts
+ * sessionMigrations.register({
+ *   from: 1,
+ *   to: 2,
+ *   description: "Rename metadata.label to metadata.title",
+ *   migrate: (record) => ({ ...record, metadata: renameLabel(record.metadata) }),
+ * })
+ * ```
+ */
+export class SessionMigrationRegistry {
+  private migrations: Map<number, SessionMigration> = new Map()
+  private targetVersion: number
+
+  constructor(targetVersion: number = SESSION_SCHEMA_VERSION) {
+    this.targetVersion = targetVersion
+  }
+
+  /**
+   * Schema version records are migrated to
+   */
+  get version(): number {
+    return this.targetVersion
+  }
+
+  /**
+   * Add a migration step
+   */
+  register(migration: SessionMigration): void {
+    if (migration.to !== migration.from + 1) {
+      throw new Error(`Migration must go up one version: ${migration.from} -> ${migration.to}`)
+    }
+    if (this.migrations.has(migration.from)) {
+      throw new Error(`Migration from version ${migration.from} is already registered`)
+    }
+
+    this.migrations.set(migration.from, migration)
+    this.targetVersion = Math.max(this.targetVersion, migration.to)
+  }
+
+  /**
+   * Get registered migrations in version order
+   */
+  list(): SessionMigration[] {
+    return Array.from(this.migrations.values()).sort((a, b) => a.from - b.from)
+  }
+
+  /**
+   * Upgrade a raw persisted record to the current schema
+   *
+   * @param record - Parsed record (its `schemaVersion` is 0 when missing)
+   * @returns The upgraded state, stamped with the current version
+   * @throws SessionSchemaError if the record is newer or a step is missing
+   */
+  migrate(record: unknown): SessionState {
+    if (!record || typeof record !== "object") {
+      throw new SessionSchemaError("Session record is not an object", undefined, 0)
+    }
+
+    let current = record as Record<string, unknown>
+    const sessionId = typeof current.id === "string" ? current.id : undefined
+    let version = typeof current.schemaVersion === "number" ? current.schemaVersion : 0
+
+    if (version > this.targetVersion) {
+      throw new SessionSchemaError(
+        `Session ${sessionId ?? ""} uses schema version ${version}, newer than supported version ${this.targetVersion}`,
+        sessionId,
+        version
+      )
+    }
+
+    while (version < this.targetVersion) {
+      const migration = this.migrations.get(version)
+      if (!migration) {
+        throw new SessionSchemaError(
+          `No migration from schema version ${version} for session ${sessionId ?? ""}`,
+          sessionId,
+          version
+        )
+      }
+      current = migration.migrate(current)
+      version = migration.to
+    }
+
+    return { ...current, schemaVersion: version } as unknown as SessionState
+  }
+}
+
+/**
+ * Built-in migrations
+ */
+const BUILTIN_MIGRATIONS: SessionMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: "Fill in fields that records from before schema versioning may lack",
+    migrate(record) {
+      const now = Date.now()
+      const createdAt = typeof record.createdAt === "number" ? record.createdAt : now
+
+      return {
+        ...record,
+        usage: record.usage ?? { input_tokens: 0, output_tokens: 0 },
+        metadata: record.metadata ?? {},
+        createdAt,
+        updatedAt: typeof record.updatedAt === "number" ? record.updatedAt : createdAt,
+      }
+    },
+  },
+]
+
+/**
+ * Default registry used by the built-in storages
+ */
+export const sessionMigrations = new SessionMigrationRegistry()
+for (const migration of BUILTIN_MIGRATIONS) {
+  sessionMigrations.register(migration)
+}
+
+/**
+ * Upgrade a raw persisted record with the default registry
+ */
+export function migrateSessionState(record: unknown): SessionState {
+  return sessionMigrations.migrate(record)
+}
+
+/**
+ * Result of migrateSessionStorage()
+ */
+export interface StorageMigrationResult {
+  /** Sessions loaded and written back at the current version */
+  migrated: string[]
+  /** Sessions that could not be migrated */
+  failed: Array<{ id: string; error: string }>
+}
+
+/**
+ * Rewrite every session in a storage at the current schema version
+ *
+ * Sessions are loaded (which applies the migrations) and saved back.
+ *
+ * @param storage - Storage to migrate in place
+ */
+export async function migrateSessionStorage(storage: SessionStorage): Promise<StorageMigrationResult> {
+  const result: StorageMigrationResult = { migrated: [], failed: [] }
+
+  for (const id of await storage.list()) {
+    try {
+      const state = await storage.load(id)
+      if (state) {
+        await storage.save(state)
+        result.migrated.push(id)
+      }
+    } catch (error) {
+      result.failed.push({ id, error: error instanceof Error ? error.message : String(error) })
+    } finally {
+      await storage.release?.(id)
+    }
+  }
+
+  return result
+}
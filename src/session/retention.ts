@@ -0,0 +1,168 @@
+/**
+ * Retention policies and pruning for session storage
+ * @module formagent-sdk/session/retention
+ */
+
+import { unlink } from "fs/promises"
+import type { PruneOptions, PruneResult, RetentionPolicy, SessionState, SessionStorage } from "../types/session"
+import { cleanupTruncatedOutputs } from "../utils/truncation"
+
+/**
+ * A stored session considered for pruning
+ */
+interface PruneCandidate {
+  id: string
+  state: SessionState
+  bytes: number
+}
+
+/**
+ * Check whether a session is exempt from pruning
+ */
+export function isSessionPinned(state: SessionState, policy: RetentionPolicy = {}): boolean {
+  return state.metadata?.pinned === true || (policy.pinned?.includes(state.id) ?? false)
+}
+
+/**
+ * Delete the sessions in a storage that fall outside a retention policy
+ *
+ * Sessions are ranked by last update, newest first. A session is deleted if
+ * it is older than `maxAgeMs`, ranks past `maxCount`, or would push the
+ * running size past `maxTotalBytes`. Pinned sessions are always kept.
+ *
+ * Truncated tool output files recorded by deleted sessions are removed with
+ * them (unless a kept session, such as a fork, still refers to them), and
+ * unreferenced outputs older than the truncation retention period are swept
+ * from the temp directory. With `options.artifactStore`, artifacts used only
+ * by deleted sessions are removed from the store as well.
+ *
+ * @param storage - Storage to prune
+ * @param policy - Retention policy
+ * @param options - Prune options
+ *
+ * @example
+ * ```ts
+ * const result = await pruneSessions(storage, {
+ *   maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+ *   maxCount: 200,
+ * })
+ * console.log(`Deleted ${result.deleted.length} sessions`)
+ * ```
+ */
+export async function pruneSessions(
+  storage: SessionStorage,
+  policy: RetentionPolicy,
+  options: PruneOptions = {}
+): Promise<PruneResult> {
+  const now = options.now ?? Date.now()
+  const result: PruneResult = { deleted: [], kept: 0, freedBytes: 0, removedOutputFiles: 0, removedArtifacts: 0, failed: [] }
+
+  const candidates: PruneCandidate[] = []
+  const referenced = new Set<string>()
+  const referencedArtifacts = new Set<string>()
+
+  for (const id of await storage.list()) {
+    try {
+      const state = await storage.load(id)
+      if (!state) {
+        continue
+      }
+
+      if (isSessionPinned(state, policy)) {
+        result.kept++
+        state.outputFiles?.forEach((file) => referenced.add(file))
+        state.artifacts?.forEach((id) => referencedArtifacts.add(id))
+      } else {
+        const bytes = (await storage.sizeOf?.(id)) ?? Buffer.byteLength(JSON.stringify(state), "utf-8")
+        candidates.push({ id, state, bytes })
+      }
+    } catch (error) {
+      // Unreadable sessions are left alone
+      result.failed.push({ id, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const unreadable = result.failed.length > 0
+
+  candidates.sort((a, b) => b.state.updatedAt - a.state.updatedAt || a.id.localeCompare(b.id))
+
+  const expired: PruneCandidate[] = []
+  let count = 0
+  let totalBytes = 0
+
+  for (const candidate of candidates) {
+    const tooOld = policy.maxAgeMs !== undefined && now - candidate.state.updatedAt > policy.maxAgeMs
+    const tooMany = policy.maxCount !== undefined && count >= policy.maxCount
+    const tooLarge = policy.maxTotalBytes !== undefined && totalBytes + candidate.bytes > policy.maxTotalBytes
+
+    if (tooOld || tooMany || tooLarge) {
+      expired.push(candidate)
+    } else {
+      count++
+      totalBytes += candidate.bytes
+      candidate.state.outputFiles?.forEach((file) => referenced.add(file))
+      candidate.state.artifacts?.forEach((id) => referencedArtifacts.add(id))
+    }
+  }
+
+  result.kept += count
+
+  for (const candidate of expired) {
+    if (!options.dryRun) {
+      try {
+        await storage.delete(candidate.id)
+      } catch (error) {
+        result.failed.push({ id: candidate.id, error: error instanceof Error ? error.message : String(error) })
+        candidate.state.outputFiles?.forEach((file) => referenced.add(file))
+        candidate.state.artifacts?.forEach((id) => referencedArtifacts.add(id))
+        continue
+      }
+    }
+
+    result.deleted.push(candidate.id)
+    result.freedBytes += candidate.bytes
+  }
+
+  if (options.dryRun) {
+    return result
+  }
+
+  for (const candidate of expired) {
+    for (const file of candidate.state.outputFiles ?? []) {
+      // Forks share output files with the session they were forked from
+      if (referenced.has(file)) {
+        continue
+      }
+      try {
+        await unlink(file)
+        result.removedOutputFiles++
+      } catch {
+        // Already removed
+      }
+      referenced.add(file)
+    }
+  }
+
+  // An unreadable session may still use any artifact, so only delete when all were read
+  if (options.artifactStore && !unreadable) {
+    for (const candidate of expired) {
+      for (const id of candidate.state.artifacts ?? []) {
+        if (referencedArtifacts.has(id)) {
+          continue
+        }
+        if (await options.artifactStore.has(id)) {
+          await options.artifactStore.delete(id)
+          result.removedArtifacts++
+        }
+        referencedArtifacts.add(id)
+      }
+    }
+  }
+
+  result.removedOutputFiles += await cleanupTruncatedOutputs(
+    options.tempDir ? { tempDir: options.tempDir } : undefined,
+    referenced
+  )
+
+  return result
+}
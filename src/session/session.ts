@@ -10,16 +10,60 @@ import type {
   SessionEvent,
   SendOptions,
   ReceiveOptions,
+  CompactEvent,
+  ResultEvent,
+  StopEvent,
+  Checkpoint,
+  RewindOptions,
+  RewindResult,
+  BranchInfo,
+  BranchDiff,
+  CreateBranchOptions,
+  MergeBranchOptions,
+  AutosaveConfig,
+  AutoTitleConfig,
+  PersistedEvent,
 } from "../types/session"
-import type { SDKMessage, ExtendedUsageInfo, ContentBlock } from "../types/core"
-import type { LLMProvider } from "../types/provider"
+import type {
+  SDKMessage,
+  UsageInfo,
+  ExtendedUsageInfo,
+  ContentBlock,
+  ThinkingBlock,
+  ToolUseBlock,
+  ArtifactRef,
+  StreamEvent,
+  ModelConfig,
+} from "../types/core"
+import { readFile, writeFile, unlink } from "node:fs/promises"
+import { existsSync } from "node:fs"
+import type { AggregatedUsage, CostTracker } from "../types/cost"
+import type { LLMProvider, LLMRequest } from "../types/provider"
+import type { OutputFormat } from "../types/hooks"
 import type { ToolDefinition, ToolContext, ToolOutput } from "../types/tool"
 import { generateSessionId, generateMessageId, generateToolCallId } from "../utils/id"
 import { TypedEventEmitter } from "../utils/events"
-import { truncateToolOutput, needsTruncation } from "../utils/truncation"
-import { HooksManager } from "../hooks/manager"
+import { truncateOutput, needsTruncation } from "../utils/truncation"
+import { validateJsonSchema } from "../utils/schema"
+import { HooksManager, type StopResult } from "../hooks/manager"
 import { createSkillTool } from "../tools/skill"
+import { createReadArtifactTool } from "../tools/artifact"
 import { defaultSystemPromptBuilder, defaultClaudeMdLoader } from "../prompt"
+import { CostTrackerImpl, calculateCacheHitRate, globalCostTracker } from "../cost/tracker"
+import { SessionCompactor, flattenToolBlocks, generateSummaryPrompt } from "./compaction"
+import {
+  DEFAULT_BRANCH,
+  resolveBranchPath,
+  commonPrefixLength,
+  updateBranchPath,
+  generateBranchSummaryPrompt,
+} from "./branches"
+import {
+  TITLE_DEFAULTS,
+  formatTranscriptExcerpt,
+  generateSessionMetadataPrompt,
+  parseSessionMetadata,
+} from "./titles"
 
 /**
  * Session event types
@@ -27,12 +71,83 @@ import { defaultSystemPromptBuilder, defaultClaudeMdLoader } from "../prompt"
 type SessionEventMap = {
   message: [SessionEvent]
   text: [SessionEvent]
+  thinking: [SessionEvent]
   tool_use: [SessionEvent]
   tool_result: [SessionEvent]
   stop: [SessionEvent]
+  compact: [SessionEvent]
+  turn_start: [SessionEvent]
+  persisted: [SessionEvent]
+  result: [SessionEvent]
   error: [SessionEvent]
 }
 
+/**
+ * Name of the synthetic tool used for structured output when the provider
+ * has no native JSON schema mode
+ */
+export const STRUCTURED_OUTPUT_TOOL_NAME = "StructuredOutput"
+
+/**
+ * Default number of re-prompts for invalid structured output
+ */
+const DEFAULT_STRUCTURED_OUTPUT_RETRIES = 3
+
+/**
+ * Default number of concurrency-safe tool calls run in parallel
+ */
+const DEFAULT_MAX_CONCURRENT_TOOLS = 10
+
+/**
+ * Default delay of debounced autosaves (ms)
+ */
+const DEFAULT_AUTOSAVE_DEBOUNCE_MS = 1000
+
+/**
+ * Check whether a message is a user prompt (not a tool result message)
+ */
+function isCheckpointMessage(message: SDKMessage): boolean {
+  if (message.role !== "user" || !message.id) {
+    return false
+  }
+  return typeof message.content === "string" || !message.content.some((b) => b.type === "tool_result")
+}
+
+/**
+ * Get the text of a user prompt
+ */
+function promptText(message: SDKMessage): string {
+  if (typeof message.content === "string") {
+    return message.content
+  }
+  return message.content
+    .map((block) => (block.type === "text" ? block.text : ""))
+    .filter(Boolean)
+    .join("\n")
+}
+
+/**
+ * State of one turn of the agent loop
+ */
+interface TurnState {
+  /** Turn number within the current receive() call (1-based) */
+  turn: number
+  /** Model id reported by the provider */
+  model: string
+  /** Completed assistant content blocks */
+  content: ContentBlock[]
+  /** Provider stop reason */
+  stopReason: string
+  /** Usage reported for this turn */
+  usage: ExtendedUsageInfo
+  /** Text block being streamed */
+  text: string
+  /** Thinking block being streamed */
+  thinking: ThinkingBlock | null
+  /** Tool call being streamed (input JSON accumulates across deltas) */
+  toolUse: { id: string; name: string; input: string } | null
+}
+
 /**
  * Internal session implementation
  */
@@ -46,12 +161,33 @@ export class SessionImpl implements Session {
   private toolNameLookup: Map<string, string> = new Map() // lowercase -> original name
   private emitter: TypedEventEmitter<SessionEventMap>
   private pendingMessage: SDKMessage | null = null
+  private steeringQueue: SDKMessage[] = []
+  /** Prompts whose UserPromptSubmit hooks already ran */
+  private submittedPrompts: WeakSet<SDKMessage> = new WeakSet()
+  private checkpointId: string | null = null
   private isReceiving = false
   private abortController: AbortController | null = null
   private closed = false
   private hooksManager: HooksManager | null = null
+  private compactor: SessionCompactor | null = null
+  private costTracker: CostTracker | null = null
+  private toolCallCount = 0
+  private stopHookActive = false
+  private structuredOutputMode: "native" | "tool" = "tool"
+  private structuredOutput: { value?: Record<string, unknown>; attempts: number; errors: string[] } = {
+    attempts: 0,
+    errors: [],
+  }
   private maxTurns: number | undefined
   private enableToolRepair: boolean = true
+  private autosave: AutosaveConfig | null = null
+  private autosaveTimer: ReturnType<typeof setTimeout> | null = null
+  private saveChain: Promise<unknown> = Promise.resolve()
+  private persistedEvents: PersistedEvent[] = []
+  private autoTitle: AutoTitleConfig | null = null
+  private metadataTask: Promise<void> | null = null
+  private runsSinceSummary = 0
+  private closeHandlers: Array<() => Promise<void>> = []
 
   constructor(
     id: string,
@@ -66,9 +202,13 @@ export class SessionImpl implements Session {
     this.emitter = new TypedEventEmitter()
 
     // Initialize state
+    const branches = state?.branches ? JSON.parse(JSON.stringify(state.branches)) : undefined
+
     this._state = {
       id,
-      messages: state?.messages ?? [],
+      messages:
+        state?.messages ??
+        (branches && state?.activeBranch ? resolveBranchPath(branches, state.activeBranch) : []),
       usage: state?.usage ?? {
         input_tokens: 0,
         output_tokens: 0,
@@ -77,6 +217,12 @@ export class SessionImpl implements Session {
       createdAt: state?.createdAt ?? Date.now(),
       updatedAt: Date.now(),
       parentId: state?.parentId,
+      forkIndex: state?.forkIndex,
+      fileSnapshots: state?.fileSnapshots ? [...state.fileSnapshots] : undefined,
+      outputFiles: state?.outputFiles ? [...state.outputFiles] : undefined,
+      artifacts: state?.artifacts ? [...state.artifacts] : undefined,
+      branches,
+      activeBranch: branches ? state?.activeBranch : undefined,
     }
 
     this.maxTurns = config.maxTurns
@@ -99,9 +245,22 @@ export class SessionImpl implements Session {
       this.toolNameLookup.set(skillTool.name.toLowerCase(), skillTool.name)
     }
 
+    // Add ReadArtifact tool when an artifact store is configured
+    if (config.artifactStore) {
+      const artifactTool = createReadArtifactTool(config.artifactStore)
+      this.tools.set(artifactTool.name, artifactTool)
+      this.toolNameLookup.set(artifactTool.name.toLowerCase(), artifactTool.name)
+    }
+
     // Apply allowed tools filter (after all tools are registered)
     this.applyAllowedToolsFilter()
 
+    // Add the final-answer tool for structured output (never filtered out)
+    if (config.outputFormat) {
+      const outputTool = this.createStructuredOutputTool(config.outputFormat)
+      this.tools.set(outputTool.name, outputTool)
+    }
+
     // Initialize hooks manager if hooks are configured
     if (config.hooks) {
       this.hooksManager = new HooksManager(
@@ -110,9 +269,29 @@ export class SessionImpl implements Session {
         config.cwd ?? process.cwd()
       )
     }
+
+    // Initialize compactor if compaction is configured
+    if (config.compaction) {
+      this.compactor = new SessionCompactor(config.compaction)
+    }
+
+    // Autosave needs somewhere to save to (and read-only sessions never save)
+    if (config.autosave && config.storage && !config.readOnly) {
+      this.autosave = typeof config.autosave === "string" ? { policy: config.autosave } : config.autosave
+    }
+
+    if (config.autoTitle) {
+      this.autoTitle = config.autoTitle === true ? {} : config.autoTitle
+    }
+
+    // Initialize per-session cost tracking (required to enforce a USD budget)
+    if (config.trackCost || config.maxBudgetUsd !== undefined) {
+      this.costTracker = new CostTrackerImpl({ pricing: config.pricing })
+    }
   }
 
   get state(): SessionState {
+    this.syncBranch()
     return { ...this._state }
   }
 
@@ -121,22 +300,15 @@ export class SessionImpl implements Session {
       throw new Error("Session is closed")
     }
 
+    if (this.config.readOnly) {
+      throw new Error(`Session "${this.id}" is read-only`)
+    }
+
     if (this.isReceiving) {
       throw new Error("Cannot send while receiving")
     }
 
-    // Normalize message
-    const normalizedMessage: SDKMessage =
-      typeof message === "string"
-        ? {
-            id: generateMessageId(),
-            role: "user",
-            content: message,
-          }
-        : {
-            ...message,
-            id: message.id ?? generateMessageId(),
-          }
+    const normalizedMessage = this.normalizeMessage(message)
 
     // Store pending message
     this.pendingMessage = normalizedMessage
@@ -146,6 +318,42 @@ export class SessionImpl implements Session {
     this._state.updatedAt = Date.now()
   }
 
+  async steer(message: string | SDKMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error("Session is closed")
+    }
+
+    // Nothing running to steer - start a normal turn instead
+    if (!this.isReceiving) {
+      return this.send(message)
+    }
+
+    const normalizedMessage = this.normalizeMessage(message)
+
+    // Steering is user input too: hooks may block it or add context
+    if (this.hooksManager) {
+      const signal = this.abortController?.signal ?? new AbortController().signal
+      if ((await this.runPromptHooks(normalizedMessage, signal)) !== null) {
+        return
+      }
+    }
+    this.submittedPrompts.add(normalizedMessage)
+
+    if (this.isReceiving) {
+      this.steeringQueue.push(normalizedMessage)
+      return
+    }
+
+    // The run ended while the hooks ran, so this is the next prompt
+    this.pendingMessage = normalizedMessage
+    this._state.messages.push(normalizedMessage)
+    this._state.updatedAt = Date.now()
+  }
+
+  interrupt(): void {
+    this.abortController?.abort()
+  }
+
   async *receive(options?: ReceiveOptions): AsyncGenerator<SessionEvent, void, unknown> {
     if (this.closed) {
       throw new Error("Session is closed")
@@ -159,264 +367,312 @@ export class SessionImpl implements Session {
       throw new Error("No pending message to process")
     }
 
-    // Max turns guard (counts assistant messages in history)
-    if (this.maxTurns !== undefined) {
-      const assistantCount = this._state.messages.filter((m) => m.role === "assistant").length
-      if (assistantCount >= this.maxTurns) {
-        this.pendingMessage = null
-        yield {
-          type: "stop",
-          stop_reason: "max_turns",
-          usage: this._state.usage,
-        }
-        return
-      }
+    // Max turns and budget guard
+    const limitEvent = this.checkTurnLimits()
+    if (limitEvent) {
+      this.pendingMessage = null
+      yield limitEvent
+      return
     }
 
     this.isReceiving = true
     this.abortController = new AbortController()
+    this.structuredOutput = { attempts: 0, errors: [] }
+    this.stopHookActive = false
+    this.checkpointId = this.pendingMessage?.id ?? this.getCheckpoints().at(-1)?.messageId ?? null
 
     const abortSignal = options?.abortSignal
       ? this.combineAbortSignals(options.abortSignal, this.abortController.signal)
       : this.abortController.signal
 
     try {
-      // Build request
-      const request = await this.buildRequest()
+      // Run UserPromptSubmit hooks for the new prompt
+      if (this.pendingMessage && this.hooksManager && !this.submittedPrompts.has(this.pendingMessage)) {
+        const blockReason = await this.submitPrompt(this.pendingMessage, abortSignal)
+        if (blockReason !== null) {
+          yield this.createStopEvent("prompt_blocked", blockReason)
+          return
+        }
+      }
 
-      // Get streaming response from provider
-      const streamOptions = {
-        onText: (text: string) => {
-          const event: SessionEvent = { type: "text", text }
-          this.emitter.emit("text", event)
-        },
-        onToolUse: (toolUse: { id: string; name: string; input: Record<string, unknown> }) => {
-          const event: SessionEvent = {
-            type: "tool_use",
-            id: toolUse.id,
-            name: toolUse.name,
-            input: toolUse.input,
+      for await (const event of this.runTurns(abortSignal)) {
+        // Save before consumers act on the stop (they often stop iterating)
+        if (event.type === "stop") {
+          this.scheduleMetadataUpdate()
+          const saved = await this.flushAutosave("stop")
+          if (saved) {
+            yield saved
           }
-          this.emitter.emit("tool_use", event)
-        },
+        }
+        yield event
+        yield* this.drainPersistedEvents()
+      }
+
+      // Clear pending message
+      this.pendingMessage = null
+    } catch (error) {
+      const errorEvent: SessionEvent = {
+        type: "error",
+        error: error instanceof Error ? error : new Error(String(error)),
+      }
+      this.emitter.emit("error", errorEvent)
+      yield errorEvent
+    } finally {
+      this.isReceiving = false
+      this.abortController = null
+
+      // Steering that arrived too late for this run becomes the next prompt
+      if (this.steeringQueue.length > 0 && !this.closed) {
+        const message = this.mergeUserMessages(this.steeringQueue.splice(0))
+        this.submittedPrompts.add(message)
+        this._state.messages.push(message)
+        this.pendingMessage = message
       }
+    }
+  }
 
-      const stream = await this.provider.stream(request, streamOptions)
+  getMessages(): SDKMessage[] {
+    return [...this._state.messages]
+  }
 
-      // Collect response content
-      const content: ContentBlock[] = []
-      let currentText = ""
-      let currentToolUse: { id: string; name: string; input: string } | null = null
-      let stopReason = "end_turn"
-      let usage: ExtendedUsageInfo = { input_tokens: 0, output_tokens: 0 }
+  getCheckpoints(): Checkpoint[] {
+    const snapshots = this._state.fileSnapshots ?? []
 
-      for await (const event of stream) {
-        if (abortSignal.aborted) {
-          break
-        }
+    return this._state.messages.filter(isCheckpointMessage).map((message, index, checkpoints) => {
+      // Files changed from this prompt onwards
+      const later = new Set(checkpoints.slice(index).map((m) => m.id))
+      const files = snapshots.filter((s) => later.has(s.messageId)).map((s) => s.path)
 
-        if (event.type === "content_block_start") {
-          if (event.content_block.type === "text") {
-            currentText = ""
-          } else if (event.content_block.type === "tool_use") {
-            currentToolUse = {
-              id: event.content_block.id,
-              name: event.content_block.name,
-              input: "",
-            }
-          }
-        } else if (event.type === "content_block_delta") {
-          if (event.delta.type === "text_delta" && event.delta.text) {
-            currentText += event.delta.text
-            yield { type: "text", text: event.delta.text }
-          } else if (event.delta.type === "input_json_delta" && currentToolUse) {
-            currentToolUse.input += event.delta.partial_json || ""
-          }
-        } else if (event.type === "content_block_stop") {
-          if (currentText) {
-            content.push({ type: "text", text: currentText })
-            currentText = ""
-          }
-          if (currentToolUse) {
-            // Parse the accumulated JSON input
-            let parsedInput: Record<string, unknown> = {}
-            try {
-              parsedInput = JSON.parse(currentToolUse.input || "{}")
-            } catch {
-              // Ignore parse errors
-            }
-            // Emit tool_use event with complete input
-            yield {
-              type: "tool_use",
-              id: currentToolUse.id,
-              name: currentToolUse.name,
-              input: parsedInput,
-            }
-            content.push({
-              type: "tool_use",
-              id: currentToolUse.id,
-              name: currentToolUse.name,
-              input: parsedInput,
-            })
-            currentToolUse = null
-          }
-        } else if (event.type === "message_delta") {
-          stopReason = event.delta?.stop_reason
-          if (event.usage?.output_tokens !== undefined) {
-            usage = {
-              ...usage,
-              output_tokens: event.usage.output_tokens,
-            }
-          }
-          if ((event.usage as any)?.input_tokens !== undefined) {
-            usage = {
-              ...usage,
-              input_tokens: (event.usage as any).input_tokens,
-            }
-          }
-        } else if (event.type === "message_start") {
-          if (event.message?.usage?.input_tokens !== undefined) {
-            usage = {
-              ...usage,
-              input_tokens: event.message.usage.input_tokens,
-            }
-          }
-        } else if (event.type === "message_stop") {
-          // Message complete
-        }
+      return {
+        messageId: message.id!,
+        prompt: promptText(message),
+        files: [...new Set(files)],
       }
+    })
+  }
 
-      // Flush any unterminated blocks (provider-agnostic safety)
-      if (currentText) {
-        content.push({ type: "text", text: currentText })
-        currentText = ""
-      }
-      if (currentToolUse) {
-        let parsedInput: Record<string, unknown> = {}
-        try {
-          parsedInput = JSON.parse(currentToolUse.input || "{}")
-        } catch {
-          // Ignore parse errors
-        }
-        yield {
-          type: "tool_use",
-          id: currentToolUse.id,
-          name: currentToolUse.name,
-          input: parsedInput,
+  async rewind(messageId: string, options?: RewindOptions): Promise<RewindResult> {
+    if (this.isReceiving) {
+      throw new Error("Cannot rewind while receiving")
+    }
+
+    const index = this._state.messages.findIndex((m) => m.id === messageId)
+    if (index === -1 || !isCheckpointMessage(this._state.messages[index])) {
+      throw new Error(`Checkpoint not found: ${messageId}`)
+    }
+
+    const removed = this._state.messages.slice(index)
+    const removedIds = new Set(removed.map((m) => m.id))
+    const snapshots = this._state.fileSnapshots ?? []
+    const restoredFiles: string[] = []
+
+    if (options?.restoreFiles) {
+      // The first snapshot of each file holds its contents at the checkpoint
+      const original = new Map<string, string | null>()
+      for (const snapshot of snapshots) {
+        if (removedIds.has(snapshot.messageId) && !original.has(snapshot.path)) {
+          original.set(snapshot.path, snapshot.content)
         }
-        content.push({
-          type: "tool_use",
-          id: currentToolUse.id,
-          name: currentToolUse.name,
-          input: parsedInput,
-        })
-        currentToolUse = null
       }
 
-      // Create assistant message (without tool_result - those go in user messages)
-      const assistantContent = content.filter((b) => b.type !== "tool_result")
-      const assistantMessage: SDKMessage = {
-        id: generateMessageId(),
-        role: "assistant",
-        content: assistantContent,
-        stop_reason: stopReason as any,
-        usage,
+      for (const [path, content] of original) {
+        if (content === null) {
+          if (existsSync(path)) {
+            await unlink(path)
+          }
+        } else {
+          await writeFile(path, content, "utf-8")
+        }
+        restoredFiles.push(path)
       }
+    }
+
+    this._state.messages = this._state.messages.slice(0, index)
+    this._state.fileSnapshots = snapshots.filter((s) => !removedIds.has(s.messageId))
+    this._state.updatedAt = Date.now()
+    this.pendingMessage = null
+
+    return { removedMessages: removed.length, restoredFiles }
+  }
+
+  getBranches(): BranchInfo[] {
+    const branches = this.syncBranch()
+    const active = this.getActiveBranch()
+
+    if (!branches) {
+      return [
+        {
+          name: DEFAULT_BRANCH,
+          forkIndex: 0,
+          messageCount: this._state.messages.length,
+          active: true,
+          createdAt: this._state.createdAt,
+        },
+      ]
+    }
+
+    return Object.entries(branches).map(([name, branch]) => ({
+      name,
+      parent: branch.parent,
+      forkIndex: branch.forkIndex,
+      messageCount: resolveBranchPath(branches, name).length,
+      active: name === active,
+      createdAt: branch.createdAt,
+    }))
+  }
+
+  getActiveBranch(): string {
+    return this._state.activeBranch ?? DEFAULT_BRANCH
+  }
+
+  createBranch(name: string, options?: CreateBranchOptions): BranchInfo {
+    if (this.isReceiving) {
+      throw new Error("Cannot create a branch while receiving")
+    }
+    if (!name.trim()) {
+      throw new Error("Branch name must be non-empty")
+    }
 
-      // Add assistant message to history
-      this._state.messages.push(assistantMessage)
+    const active = this.getActiveBranch()
+    const branches = this.syncBranch() ?? this.initBranches()
+    if (branches[name]) {
+      throw new Error(`Branch already exists: ${name}`)
+    }
 
-      // Update usage
-      this._state.usage = {
-        input_tokens: this._state.usage.input_tokens + usage.input_tokens,
-        output_tokens: this._state.usage.output_tokens + usage.output_tokens,
+    let forkIndex = this._state.messages.length
+    if (options?.fromMessageId) {
+      const index = this._state.messages.findIndex((m) => m.id === options.fromMessageId)
+      if (index === -1) {
+        throw new Error(`Message not found: ${options.fromMessageId}`)
       }
-      this._state.updatedAt = Date.now()
+      forkIndex = index + 1
+    }
 
-      // Yield message event
-      yield { type: "message", message: assistantMessage }
+    const createdAt = Date.now()
+    branches[name] = { parent: active, forkIndex, messages: [], createdAt }
+    this._state.updatedAt = createdAt
 
-      // Handle tool calls - execute and continue conversation
-      const toolUseBlocks = assistantContent.filter((b) => b.type === "tool_use")
-      if (toolUseBlocks.length > 0) {
-        // Enforce maxTurns across recursive tool loops
-        if (this.maxTurns !== undefined) {
-          const assistantCountNow = this._state.messages.filter((m) => m.role === "assistant").length
-          if (assistantCountNow >= this.maxTurns) {
-            yield {
-              type: "stop",
-              stop_reason: "max_turns",
-              usage: this._state.usage,
-            }
-            this.pendingMessage = null
-            return
-          }
-        }
+    if (options?.switch) {
+      this.switchBranch(name)
+    }
 
-        const toolResults: ContentBlock[] = []
+    return {
+      name,
+      parent: active,
+      forkIndex,
+      messageCount: forkIndex,
+      active: this.getActiveBranch() === name,
+      createdAt,
+    }
+  }
 
-        for (const block of toolUseBlocks) {
-          if (block.type === "tool_use") {
-            const toolResult = await this.executeToolCall(block, abortSignal)
-            yield toolResult
+  switchBranch(name: string): void {
+    if (this.isReceiving) {
+      throw new Error("Cannot switch branches while receiving")
+    }
 
-            // Collect tool results for user message
-            if (toolResult.type === "tool_result") {
-              toolResults.push({
-                type: "tool_result",
-                tool_use_id: block.id,
-                content: typeof toolResult.content === "string" ? toolResult.content : "",
-                is_error: toolResult.is_error,
-              })
-            }
-          }
-        }
+    const branches = this.syncBranch()
+    if (!branches?.[name]) {
+      throw new Error(`Branch not found: ${name}`)
+    }
+    if (name === this._state.activeBranch) {
+      return
+    }
 
-        // Add user message with tool results
-        const toolResultMessage: SDKMessage = {
-          id: generateMessageId(),
-          role: "user",
-          content: toolResults,
-        }
-        this._state.messages.push(toolResultMessage)
+    // Copy so changes on this branch never touch messages it shares
+    this._state.messages = JSON.parse(JSON.stringify(resolveBranchPath(branches, name)))
+    this._state.activeBranch = name
+    this._state.updatedAt = Date.now()
+    this.pendingMessage = null
+  }
 
-        // Continue conversation to get assistant's response to tool results
-        // Recursively yield from the continued conversation
-        for await (const event of this.continueConversation(abortSignal)) {
-          yield event
-        }
-      } else {
-        // No tool calls - yield stop event and finish
-        yield {
-          type: "stop",
-          stop_reason: stopReason,
-          usage: this._state.usage,
-        }
+  diffBranches(a: string, b: string = this.getActiveBranch()): BranchDiff {
+    const pathA = this.getBranchPath(a)
+    const pathB = this.getBranchPath(b)
+    const commonMessages = commonPrefixLength(pathA, pathB)
+
+    return {
+      commonMessages,
+      onlyInA: pathA.slice(commonMessages),
+      onlyInB: pathB.slice(commonMessages),
+    }
+  }
+
+  async mergeBranch(name: string, options?: MergeBranchOptions): Promise<string> {
+    if (this.isReceiving) {
+      throw new Error("Cannot merge while receiving")
+    }
+    if (name === this.getActiveBranch()) {
+      throw new Error("Cannot merge a branch into itself")
+    }
+
+    const path = this.getBranchPath(name)
+    const { onlyInA } = this.diffBranches(name)
+    if (onlyInA.length === 0) {
+      throw new Error(`Nothing to merge from branch: ${name}`)
+    }
+
+    let summary = options?.summary?.trim()
+    if (!summary) {
+      const { config, systemPrompt } = await this.buildSummaryRequest()
+      const response = await this.provider.complete({
+        messages: [...flattenToolBlocks(path), { role: "user", content: generateBranchSummaryPrompt(onlyInA.length) }],
+        config,
+        systemPrompt,
+        abortSignal: options?.abortSignal,
+      })
+
+      this.recordUsage(response.id || generateMessageId(), response.model || config.model, response.usage)
+
+      summary = response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("")
+        .trim()
+      if (!summary) {
+        throw new Error(`Empty summary for branch: ${name}`)
       }
+    }
 
-      // Clear pending message
-      this.pendingMessage = null
-    } catch (error) {
-      const errorEvent: SessionEvent = {
-        type: "error",
-        error: error instanceof Error ? error : new Error(String(error)),
+    const text = `[Summary of branch "${name}"]\n\n${summary}`
+    const last = this._state.messages[this._state.messages.length - 1]
+
+    // Replace rather than mutate: the message may be shared with other branches
+    if (last?.role === "user") {
+      this._state.messages[this._state.messages.length - 1] = {
+        ...last,
+        content: [...this.toContentBlocks(last.content), { type: "text", text }],
       }
-      this.emitter.emit("error", errorEvent)
-      yield errorEvent
-    } finally {
-      this.isReceiving = false
-      this.abortController = null
+    } else {
+      this._state.messages.push({ id: generateMessageId(), role: "user", content: text })
     }
-  }
+    this._state.updatedAt = Date.now()
 
-  getMessages(): SDKMessage[] {
-    return [...this._state.messages]
+    return summary
   }
 
   getUsage(): ExtendedUsageInfo {
     return { ...this._state.usage }
   }
 
+  getCost(): AggregatedUsage | undefined {
+    if (!this.costTracker) {
+      return undefined
+    }
+
+    return (
+      this.costTracker.getSessionUsage(this.id) ?? {
+        totalInputTokens: 0,
+        totalOutputTokens: 0,
+        totalCacheCreationTokens: 0,
+        totalCacheReadTokens: 0,
+        cacheHitRate: 0,
+        totalCostUsd: 0,
+        callCount: 0,
+        byModel: {},
+      }
+    )
+  }
+
   async close(): Promise<void> {
     if (this.closed) {
       return
@@ -425,11 +681,33 @@ export class SessionImpl implements Session {
     // Abort any ongoing operation
     this.abortController?.abort()
 
-    // Clear state
-    this.emitter.removeAllListeners()
-    this.tools.clear()
-    this.pendingMessage = null
-    this.closed = true
+    // Let a title or summary in progress land in the final save
+    await this.metadataTask
+
+    // Flush autosave
+    await this.flushAutosave("close")
+
+    try {
+      for (const handler of this.closeHandlers) {
+        await handler()
+      }
+    } finally {
+      // Clear state
+      this.emitter.removeAllListeners()
+      this.tools.clear()
+      this.pendingMessage = null
+      this.closed = true
+    }
+  }
+
+  /**
+   * Run a callback when the session closes, after background work and the
+   * final autosave have finished
+   *
+   * The session manager uses this to save the session and release its lease.
+   */
+  onClose(handler: () => Promise<void>): void {
+    this.closeHandlers.push(handler)
   }
 
   async [Symbol.asyncDispose](): Promise<void> {
@@ -437,18 +715,46 @@ export class SessionImpl implements Session {
   }
 
   /**
-   * Build LLM request from current state
+   * Create the branch tree with the current history as the default branch
    */
-  private async buildRequest() {
-    // Convert messages to SDK format
-    const messages = this._state.messages.map((msg) => ({
-      role: msg.role as "user" | "assistant",
-      content: msg.content,
-    }))
+  private initBranches(): NonNullable<SessionState["branches"]> {
+    const branches = {
+      [DEFAULT_BRANCH]: { forkIndex: 0, messages: [...this._state.messages], createdAt: this._state.createdAt },
+    }
+    this._state.branches = branches
+    this._state.activeBranch = DEFAULT_BRANCH
+    return branches
+  }
+
+  /**
+   * Write the current history back to the active branch of the tree
+   */
+  private syncBranch(): SessionState["branches"] {
+    const { branches, activeBranch } = this._state
+    if (branches && activeBranch) {
+      updateBranchPath(branches, activeBranch, this._state.messages)
+    }
+    return branches
+  }
 
-    // Get tool definitions
-    const tools = Array.from(this.tools.values())
+  /**
+   * Get the full history of a branch
+   */
+  private getBranchPath(name: string): SDKMessage[] {
+    const branches = this.syncBranch()
+    if (branches?.[name]) {
+      return resolveBranchPath(branches, name)
+    }
+    if (!branches && name === DEFAULT_BRANCH) {
+      return [...this._state.messages]
+    }
+    throw new Error(`Branch not found: ${name}`)
+  }
 
+  /**
+   * Resolve the configured model (a name or a full ModelConfig)
+   */
+  private getModelConfig(): ModelConfig {
     const model =
       typeof this.config.model === "string"
         ? this.config.model
@@ -459,19 +765,539 @@ export class SessionImpl implements Session {
         ? 4096
         : this.config.model?.maxTokens ?? 4096
 
+    return {
+      ...((typeof this.config.model === "string" ? {} : this.config.model) ?? {}),
+      model,
+      maxTokens,
+    }
+  }
+
+  /**
+   * Build LLM request from current state
+   */
+  private async buildRequest() {
+    // Convert messages to SDK format
+    const messages = this._state.messages.map((msg) => ({
+      role: msg.role as "user" | "assistant",
+      content: msg.content,
+    }))
+
+    // Get tool definitions (the structured output tool is added below if needed)
+    const tools = Array.from(this.tools.values()).filter((t) => t.name !== STRUCTURED_OUTPUT_TOOL_NAME)
+
     const systemPrompt = await this.buildSystemPrompt(tools.map((t) => t.name))
 
-    return {
+    const request: LLMRequest = {
       messages: messages as SDKMessage[],
       tools,
-      config: {
-        ...((typeof this.config.model === "string" ? {} : this.config.model) ?? {}),
-        model,
-        maxTokens,
-      },
+      config: this.getModelConfig(),
       systemPrompt,
       abortSignal: this.abortController?.signal,
     }
+
+    if (this.config.outputFormat) {
+      if (this.provider.supportsOutputFormat?.(request)) {
+        this.structuredOutputMode = "native"
+        request.outputFormat = this.config.outputFormat
+      } else {
+        this.structuredOutputMode = "tool"
+        request.tools = [...tools, this.tools.get(STRUCTURED_OUTPUT_TOOL_NAME)!]
+        request.systemPrompt = [
+          systemPrompt,
+          `When you have finished the task, call the ${STRUCTURED_OUTPUT_TOOL_NAME} tool exactly once with your final answer. Do not give the final answer as plain text.`,
+        ]
+          .filter(Boolean)
+          .join("\n\n")
+      }
+    }
+
+    return request
+  }
+
+  /**
+   * Build the config and system prompt for a summary request
+   *
+   * Unlike buildRequest(), this leaves the structured output mode alone and
+   * does not ask for the StructuredOutput tool.
+   */
+  private async buildSummaryRequest() {
+    const toolNames = Array.from(this.tools.keys()).filter((name) => name !== STRUCTURED_OUTPUT_TOOL_NAME)
+    return {
+      config: this.getModelConfig(),
+      systemPrompt: await this.buildSystemPrompt(toolNames),
+    }
+  }
+
+  /**
+   * Create the synthetic final-answer tool that validates structured output
+   */
+  private createStructuredOutputTool(outputFormat: OutputFormat): ToolDefinition {
+    return {
+      name: STRUCTURED_OUTPUT_TOOL_NAME,
+      description: "Return the final answer in the required structured format. Call this once, when the task is complete.",
+      inputSchema: outputFormat.schema,
+      execute: async (input) => {
+        const errors = validateJsonSchema(input, outputFormat.schema)
+        if (errors.length > 0) {
+          this.structuredOutput.attempts++
+          this.structuredOutput.errors = errors
+          return {
+            content: `Output does not match the required schema:\n- ${errors.join("\n- ")}\nCall ${STRUCTURED_OUTPUT_TOOL_NAME} again with corrected input.`,
+            isError: true,
+          }
+        }
+        this.structuredOutput.value = input
+        return { content: "Structured output accepted." }
+      },
+    }
+  }
+
+  /**
+   * Check the final answer of a turn against the output schema
+   *
+   * Queues a corrective user message when the answer is invalid and
+   * retries remain.
+   *
+   * @returns true when the structured output is settled (accepted or out of retries)
+   */
+  private checkStructuredOutput(content: ContentBlock[]): boolean {
+    const schema = this.config.outputFormat!.schema
+
+    if (this.structuredOutput.value === undefined) {
+      if (this.structuredOutputMode === "native") {
+        const text = content
+          .map((block) => (block.type === "text" ? block.text : ""))
+          .join("")
+          .trim()
+          .replace(/^```(?:json)?\s*/, "")
+          .replace(/\s*```$/, "")
+
+        let parsed: unknown
+        let errors: string[]
+        try {
+          parsed = JSON.parse(text)
+          errors = validateJsonSchema(parsed, schema)
+        } catch (error) {
+          errors = [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]
+        }
+
+        if (errors.length === 0) {
+          this.structuredOutput.value = parsed as Record<string, unknown>
+        } else {
+          this.structuredOutput.attempts++
+          this.structuredOutput.errors = errors
+        }
+      } else {
+        this.structuredOutput.attempts++
+        this.structuredOutput.errors = [`The ${STRUCTURED_OUTPUT_TOOL_NAME} tool was not called`]
+      }
+    }
+
+    if (this.isStructuredOutputSettled()) {
+      return true
+    }
+
+    const instruction =
+      this.structuredOutputMode === "native"
+        ? "Respond again with only a JSON value that matches the required schema."
+        : `Call the ${STRUCTURED_OUTPUT_TOOL_NAME} tool with your final answer.`
+    this._state.messages.push({
+      id: generateMessageId(),
+      role: "user",
+      content: `Your final answer did not match the required output format:\n- ${this.structuredOutput.errors.join("\n- ")}\n${instruction}`,
+    })
+    return false
+  }
+
+  /**
+   * Whether the structured output was accepted or its retries are used up
+   */
+  private isStructuredOutputSettled(): boolean {
+    const maxRetries = this.config.maxStructuredOutputRetries ?? DEFAULT_STRUCTURED_OUTPUT_RETRIES
+    return this.structuredOutput.value !== undefined || this.structuredOutput.attempts > maxRetries
+  }
+
+  /**
+   * Create the result event for the current structured output
+   */
+  private createResultEvent(): ResultEvent {
+    const event: ResultEvent =
+      this.structuredOutput.value !== undefined
+        ? { type: "result", subtype: "success", structured_output: this.structuredOutput.value }
+        : {
+            type: "result",
+            subtype: "error_max_structured_output_retries",
+            error: `Structured output failed validation: ${this.structuredOutput.errors.join("; ")}`,
+          }
+    this.emitter.emit("result", event)
+    return event
+  }
+
+  /**
+   * Add the usage of one model call to the session totals and, when cost
+   * tracking is enabled, to the session and global cost trackers
+   */
+  private recordUsage(messageId: string, model: string, usage: UsageInfo): void {
+    const totals = this._state.usage
+    this._state.usage = {
+      input_tokens: totals.input_tokens + usage.input_tokens,
+      output_tokens: totals.output_tokens + usage.output_tokens,
+    }
+
+    const cacheCreation = (totals.cache_creation_input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0)
+    const cacheRead = (totals.cache_read_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0)
+    if (cacheCreation || cacheRead) {
+      this._state.usage.cache_creation_input_tokens = cacheCreation
+      this._state.usage.cache_read_input_tokens = cacheRead
+      this._state.usage.cache_hit_rate = calculateCacheHitRate(this._state.usage)
+    }
+
+    if (this.costTracker) {
+      const record = this.costTracker.processMessage(messageId, model, usage, this.id)
+      globalCostTracker.processMessage(messageId, model, usage, this.id)
+      this._state.usage.total_cost_usd = (totals.total_cost_usd ?? 0) + record.cost
+    }
+
+    this._state.updatedAt = Date.now()
+  }
+
+  /**
+   * Check the configured budgets
+   *
+   * @param pendingToolCalls - Tool calls about to be executed
+   * @returns Description of the exceeded limit, or null when within budget
+   */
+  private checkBudget(pendingToolCalls: number = 0): string | null {
+    const { maxBudgetUsd, maxTotalTokens, maxToolCalls } = this.config
+    const usage = this._state.usage
+
+    if (maxBudgetUsd !== undefined && (usage.total_cost_usd ?? 0) >= maxBudgetUsd) {
+      return `Cost budget of $${maxBudgetUsd} reached ($${(usage.total_cost_usd ?? 0).toFixed(4)} spent)`
+    }
+
+    if (maxTotalTokens !== undefined) {
+      const totalTokens = usage.input_tokens + usage.output_tokens
+      if (totalTokens >= maxTotalTokens) {
+        return `Token budget of ${maxTotalTokens} reached (${totalTokens} used)`
+      }
+    }
+
+    if (maxToolCalls !== undefined && this.toolCallCount + pendingToolCalls > maxToolCalls) {
+      return `Tool call budget of ${maxToolCalls} reached (${this.toolCallCount} made, ${pendingToolCalls} requested)`
+    }
+
+    return null
+  }
+
+  /**
+   * Create a stop event with the current usage and cost
+   */
+  private createStopEvent(stopReason: string, reason?: string): StopEvent {
+    const event: StopEvent = {
+      type: "stop",
+      stop_reason: stopReason,
+      usage: this._state.usage,
+      reason,
+    }
+
+    if (this.costTracker) {
+      event.total_cost_usd = this._state.usage.total_cost_usd ?? 0
+    }
+
+    return event
+  }
+
+  /**
+   * Run UserPromptSubmit hooks for a new prompt
+   *
+   * Hook context and system messages are appended to the prompt. A blocked
+   * prompt is removed from the history so it is never sent or persisted.
+   *
+   * @returns The block reason, or null when the prompt may be processed
+   */
+  private async submitPrompt(message: SDKMessage, abortSignal: AbortSignal): Promise<string | null> {
+    const blockReason = await this.runPromptHooks(message, abortSignal)
+
+    if (blockReason !== null) {
+      this._state.messages = this._state.messages.filter((m) => m !== message)
+      this._state.updatedAt = Date.now()
+      this.pendingMessage = null
+    }
+
+    return blockReason
+  }
+
+  /**
+   * Run UserPromptSubmit hooks on a message and append their context to it
+   *
+   * @returns The block reason, or null when the message may be sent
+   */
+  private async runPromptHooks(message: SDKMessage, abortSignal: AbortSignal): Promise<string | null> {
+    const result = await this.hooksManager!.runUserPromptSubmit(promptText(message), abortSignal)
+
+    if (!result.continue) {
+      return result.stopReason ?? "Prompt blocked by hook"
+    }
+
+    const extra = [result.additionalContext, result.systemMessage].filter((t): t is string => Boolean(t))
+    if (extra.length > 0 && message.role === "user") {
+      const blocks: ContentBlock[] =
+        typeof message.content === "string" ? [{ type: "text", text: message.content }] : [...message.content]
+      message.content = [...blocks, ...extra.map((text) => ({ type: "text" as const, text }))]
+    }
+
+    return null
+  }
+
+  /**
+   * Run Stop hooks before the agent finishes
+   *
+   * When a hook asks to keep working, its system message (or a generic
+   * instruction) is queued as the next user message.
+   */
+  private async runStopHooks(abortSignal: AbortSignal): Promise<StopResult> {
+    if (!this.hooksManager) {
+      return {}
+    }
+
+    const result = await this.hooksManager.runStop(abortSignal, this.stopHookActive)
+    if (result.continue) {
+      this.stopHookActive = true
+      this._state.messages.push({
+        id: generateMessageId(),
+        role: "user",
+        content: result.systemMessage ?? "Continue working on the task.",
+      })
+      this._state.updatedAt = Date.now()
+    }
+
+    return result
+  }
+
+  /**
+   * Prune old tool outputs and summarize the history once it passes the
+   * compaction threshold
+   */
+  private async compactIfNeeded(abortSignal: AbortSignal): Promise<CompactEvent | null> {
+    if (!this.compactor) {
+      return null
+    }
+
+    const tokensBefore = this.compactor.estimateTokens(this._state.messages).total
+    let messages = this.compactor.pruneToolOutputs(this._state.messages).messages
+
+    // A failed summary must not fail the user's turn
+    let error: Error | undefined
+    if (this.compactor.needsCompaction(messages)) {
+      try {
+        messages = (await this.summarizeHistory(messages, abortSignal)) ?? messages
+      } catch (e) {
+        error = e instanceof Error ? e : new Error(String(e))
+      }
+    }
+
+    if (messages === this._state.messages && !error) {
+      return null
+    }
+
+    if (messages !== this._state.messages) {
+      this._state.messages = messages
+      this._state.updatedAt = Date.now()
+    }
+
+    const event: CompactEvent = {
+      type: "compact",
+      trigger: "auto",
+      tokens_before: tokensBefore,
+      tokens_after: this.compactor.estimateTokens(messages).total,
+      ...(error ? { error } : {}),
+    }
+    this.emitter.emit("compact", event)
+    return event
+  }
+
+  /**
+   * Ask the provider for a summary and swap it in for the older history
+   */
+  private async summarizeHistory(
+    messages: SDKMessage[],
+    abortSignal: AbortSignal
+  ): Promise<SDKMessage[] | null> {
+    const compactor = this.compactor!
+
+    // Nothing would be dropped, so a summary would only add tokens
+    if (compactor.compact(messages).length >= messages.length) {
+      return null
+    }
+
+    if (this.hooksManager) {
+      const hookResult = await this.hooksManager.runPreCompact("auto", abortSignal)
+      if (!hookResult.continue) {
+        return null
+      }
+    }
+
+    const { config, systemPrompt } = await this.buildSummaryRequest()
+    const response = await this.provider.complete({
+      messages: [...flattenToolBlocks(messages), { role: "user", content: generateSummaryPrompt() }],
+      config,
+      systemPrompt,
+      abortSignal,
+    })
+
+    this.recordUsage(response.id || generateMessageId(), response.model || config.model, response.usage)
+
+    const summary = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("")
+      .trim()
+
+    return summary ? compactor.compact(messages, summary) : null
+  }
+
+  /**
+   * Record a file's contents before a tool changes it
+   *
+   * Only the first change to a file per checkpoint is recorded, since that
+   * is the state rewind restores.
+   */
+  private async snapshotFile(filePath: string, toolUseId: string): Promise<void> {
+    const messageId = this.checkpointId
+    if (!messageId) {
+      return
+    }
+
+    const snapshots = (this._state.fileSnapshots ??= [])
+    if (snapshots.some((s) => s.messageId === messageId && s.path === filePath)) {
+      return
+    }
+
+    snapshots.push({
+      messageId,
+      toolUseId,
+      path: filePath,
+      content: existsSync(filePath) ? await readFile(filePath, "utf-8") : null,
+      timestamp: Date.now(),
+    })
+    this._state.updatedAt = Date.now()
+  }
+
+  /**
+   * Look up a tool, falling back to case-insensitive matching when tool
+   * repair is enabled
+   */
+  private findTool(name: string): { tool?: ToolDefinition; name: string } {
+    const tool = this.tools.get(name)
+    if (tool || !this.enableToolRepair) {
+      return { tool, name }
+    }
+
+    const originalName = this.toolNameLookup.get(name.toLowerCase())
+    return originalName ? { tool: this.tools.get(originalName), name: originalName } : { tool, name }
+  }
+
+  /**
+   * Check whether a tool call may run in parallel with other calls
+   */
+  private isConcurrencySafe(name: string): boolean {
+    const { tool } = this.findTool(name)
+    return Boolean(tool && (tool.concurrencySafe ?? tool.readOnly))
+  }
+
+  /**
+   * Execute the tool calls of one assistant turn
+   *
+   * Consecutive concurrency-safe calls run in parallel (up to
+   * maxConcurrentTools) and their results are yielded as they finish; all
+   * other calls run one at a time. The returned blocks keep call order.
+   */
+  private async *executeToolCalls(
+    blocks: ToolUseBlock[],
+    abortSignal: AbortSignal
+  ): AsyncGenerator<SessionEvent, ContentBlock[]> {
+    const results: ContentBlock[] = []
+    const limit = Math.max(1, this.config.maxConcurrentTools ?? DEFAULT_MAX_CONCURRENT_TOOLS)
+    this.toolCallCount += blocks.length
+
+    let start = 0
+    while (start < blocks.length) {
+      // Group consecutive concurrency-safe calls into one batch
+      let end = start + 1
+      if (this.isConcurrencySafe(blocks[start].name)) {
+        while (end < blocks.length && this.isConcurrencySafe(blocks[end].name)) {
+          end++
+        }
+      }
+
+      const batch = blocks.slice(start, end)
+      for await (const { index, event } of this.runToolBatch(batch, limit, abortSignal)) {
+        yield event
+
+        // Collect tool results for user message
+        if (event.type === "tool_result") {
+          results[start + index] = {
+            type: "tool_result",
+            tool_use_id: batch[index].id,
+            content: typeof event.content === "string" ? event.content : "",
+            is_error: event.is_error,
+            ...(event.artifacts ? { artifacts: event.artifacts } : {}),
+          }
+        }
+      }
+
+      start = end
+    }
+
+    return results.filter(Boolean)
+  }
+
+  /**
+   * Run a batch of tool calls with at most `limit` in flight, yielding each
+   * result with its batch index as soon as it completes
+   */
+  private async *runToolBatch(
+    batch: ToolUseBlock[],
+    limit: number,
+    abortSignal: AbortSignal
+  ): AsyncGenerator<{ index: number; event: SessionEvent }> {
+    const finished: Array<{ index: number; event: SessionEvent }> = []
+    let notify: (() => void) | null = null
+    let next = 0
+    let running = 0
+
+    const launch = () => {
+      while (next < batch.length && running < limit) {
+        const index = next++
+        running++
+        const block = batch[index]
+        this.executeToolCall(block, abortSignal)
+          .catch((error): SessionEvent => ({
+            type: "tool_result",
+            tool_use_id: block.id,
+            content: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            is_error: true,
+          }))
+          .then((event) => {
+            running--
+            finished.push({ index, event })
+            launch()
+            notify?.()
+          })
+      }
+    }
+
+    launch()
+
+    for (let done = 0; done < batch.length; done++) {
+      if (finished.length === 0) {
+        await new Promise<void>((resolve) => {
+          notify = resolve
+        })
+        notify = null
+      }
+
+      yield finished.shift()!
+    }
   }
 
   /**
@@ -481,22 +1307,20 @@ export class SessionImpl implements Session {
     block: { type: "tool_use"; id: string; name: string; input: Record<string, unknown> },
     abortSignal: AbortSignal
   ): Promise<SessionEvent & { _hookSystemMessage?: string }> {
+    // Skip calls that had not started when the run was interrupted
+    if (abortSignal.aborted) {
+      return {
+        type: "tool_result",
+        tool_use_id: block.id,
+        content: "Interrupted by user",
+        is_error: true,
+      }
+    }
+
     let toolInput = block.input
     let systemMessage: string | undefined
 
-    // Try to get tool with case-insensitive matching
-    let tool = this.tools.get(block.name)
-    let effectiveToolName = block.name
-
-    if (!tool && this.enableToolRepair) {
-      // Try case-insensitive lookup
-      const lowerName = block.name.toLowerCase()
-      const originalName = this.toolNameLookup.get(lowerName)
-      if (originalName) {
-        tool = this.tools.get(originalName)
-        effectiveToolName = originalName
-      }
-    }
+    const { tool, name: effectiveToolName } = this.findTool(block.name)
 
     // Run PreToolUse hooks
     if (this.hooksManager) {
@@ -553,6 +1377,7 @@ export class SessionImpl implements Session {
     const context: ToolContext = {
       sessionId: this.id,
       abortSignal,
+      snapshotFile: (filePath) => this.snapshotFile(filePath, block.id),
     }
 
     let result: SessionEvent
@@ -560,12 +1385,60 @@ export class SessionImpl implements Session {
 
     try {
       const toolResult = await tool.execute(toolInput, context)
-      let content = typeof toolResult.content === "string" ? toolResult.content : JSON.stringify(toolResult.content)
+      const store = this.config.artifactStore
+      const artifacts: ArtifactRef[] = []
+
+      let output = toolResult.content
+      if (store) {
+        for (const artifact of toolResult.artifacts ?? []) {
+          artifacts.push(await store.put(artifact.data, { mediaType: artifact.mediaType, name: artifact.name }))
+        }
+
+        // Images are stored rather than kept in the history as base64
+        if (typeof output !== "string") {
+          const blocks: ContentBlock[] = []
+          for (const contentBlock of output) {
+            if (contentBlock.type === "image" && contentBlock.source.data) {
+              const ref = await store.put(Buffer.from(contentBlock.source.data, "base64"), {
+                mediaType: contentBlock.source.media_type ?? "application/octet-stream",
+              })
+              artifacts.push(ref)
+              blocks.push({ type: "text", text: `[image stored as artifact ${ref.id} (${ref.mediaType}, ${ref.size} bytes)]` })
+            } else {
+              blocks.push(contentBlock)
+            }
+          }
+          output = blocks
+        }
+      }
+
+      let content = typeof output === "string" ? output : JSON.stringify(output)
 
       // Apply output truncation to prevent token explosion
       if (needsTruncation(content)) {
-        const truncationConfig = this.config.tempDir ? { tempDir: this.config.tempDir } : undefined
-        content = await truncateToolOutput(content, truncationConfig)
+        if (store) {
+          const ref = await store.put(content)
+          artifacts.push(ref)
+          const truncated = await truncateOutput(content, {
+            saveToFile: false,
+            hint: `Full output stored as artifact ${ref.id} (${ref.lines} lines).\nUse the ReadArtifact tool with offset/limit to view specific sections.`,
+          })
+          content = truncated.content
+        } else {
+          const truncated = await truncateOutput(content, this.config.tempDir ? { tempDir: this.config.tempDir } : undefined)
+          content = truncated.content
+
+          // Recorded so pruning the session also removes the file
+          if (truncated.outputPath) {
+            this._state.outputFiles = [...(this._state.outputFiles ?? []), truncated.outputPath]
+          }
+        }
+      }
+
+      // Recorded so pruning the session can release the artifacts
+      const ids = artifacts.map((ref) => ref.id).filter((id) => !this._state.artifacts?.includes(id))
+      if (ids.length > 0) {
+        this._state.artifacts = [...(this._state.artifacts ?? []), ...new Set(ids)]
       }
 
       toolResponse = toolResult
@@ -575,6 +1448,7 @@ export class SessionImpl implements Session {
         tool_use_id: block.id,
         content,
         is_error: toolResult.isError,
+        ...(artifacts.length > 0 ? { artifacts } : {}),
       }
     } catch (error) {
       toolResponse = { error: error instanceof Error ? error.message : String(error) }
@@ -616,191 +1490,546 @@ export class SessionImpl implements Session {
   }
 
   /**
-   * Continue conversation after tool execution
-   * This handles the agentic loop - getting assistant response after tool results
+   * Run the agent loop until the model finishes, a limit is hit, or a hook
+   * ends the run
+   *
+   * Each iteration is one turn: a model request followed by the tool calls it
+   * asked for. Turns run iteratively so long autonomous runs do not build up
+   * nested generators.
    */
-  private async *continueConversation(
-    abortSignal: AbortSignal
-  ): AsyncGenerator<SessionEvent, void, unknown> {
-    // Build request with updated messages (including tool results)
-    // Max turns guard
-    if (this.maxTurns !== undefined) {
-      const assistantCount = this._state.messages.filter((m) => m.role === "assistant").length
-      if (assistantCount >= this.maxTurns) {
-        yield {
-          type: "stop",
-          stop_reason: "max_turns",
-          usage: this._state.usage,
-        }
+  private async *runTurns(abortSignal: AbortSignal): AsyncGenerator<SessionEvent, void, unknown> {
+    for (let turn = 1; ; turn++) {
+      if (abortSignal.aborted) {
+        yield this.createStopEvent("interrupted")
         return
       }
-    }
 
-    const request = await this.buildRequest()
+      const limitEvent = this.checkTurnLimits()
+      if (limitEvent) {
+        yield limitEvent
+        return
+      }
 
-    // Get streaming response from provider
-    const stream = await this.provider.stream(request, {})
+      this.applySteering()
 
-    // Collect response content
-    const content: ContentBlock[] = []
-    let currentText = ""
-    let currentToolUse: { id: string; name: string; input: string } | null = null
-    let stopReason = "end_turn"
-    let usage: ExtendedUsageInfo = { input_tokens: 0, output_tokens: 0 }
+      const turnStart: SessionEvent = { type: "turn_start", turn }
+      this.emitter.emit("turn_start", turnStart)
+      yield turnStart
 
-    for await (const event of stream) {
-      if (abortSignal.aborted) {
-        break
+      // Compact history before it outgrows the context window
+      const compactEvent = await this.compactIfNeeded(abortSignal)
+      if (compactEvent) {
+        yield compactEvent
       }
 
-      if (event.type === "content_block_start") {
-        if (event.content_block.type === "text") {
-          currentText = ""
-        } else if (event.content_block.type === "tool_use") {
-          currentToolUse = {
-            id: event.content_block.id,
-            name: event.content_block.name,
-            input: "",
-          }
+      const state = yield* this.streamTurn(turn, abortSignal)
+      yield* this.autosaveAfter("assistant_message")
+      if (abortSignal.aborted && !state.content.some((b) => b.type === "tool_use")) {
+        yield this.createStopEvent("interrupted")
+        return
+      }
+
+      const toolUseBlocks = state.content.filter((b): b is ToolUseBlock => b.type === "tool_use")
+      if (toolUseBlocks.length > 0) {
+        // No turn left to send the tool results back
+        if (this.maxTurns !== undefined && this.countAssistantTurns() >= this.maxTurns) {
+          yield this.createStopEvent("max_turns")
+          return
         }
-      } else if (event.type === "content_block_delta") {
-        if (event.delta.type === "text_delta" && event.delta.text) {
-          currentText += event.delta.text
-          yield { type: "text", text: event.delta.text }
-        } else if (event.delta.type === "input_json_delta" && currentToolUse) {
-          currentToolUse.input += event.delta.partial_json || ""
+
+        // Enforce the tool call budget before running anything
+        const toolBudgetReason = this.checkBudget(toolUseBlocks.length)
+        if (toolBudgetReason) {
+          this.answerSkippedToolCalls(toolUseBlocks, "Tool call budget exceeded")
+          yield* this.autosaveAfter("tool_result")
+          yield this.createStopEvent("budget_exceeded", toolBudgetReason)
+          return
         }
-      } else if (event.type === "content_block_stop") {
-        if (currentText) {
-          content.push({ type: "text", text: currentText })
-          currentText = ""
+
+        const toolResults = yield* this.executeToolCalls(toolUseBlocks, abortSignal)
+
+        // Add user message with tool results
+        this._state.messages.push({
+          id: generateMessageId(),
+          role: "user",
+          content: toolResults,
+        })
+        this._state.updatedAt = Date.now()
+        yield* this.autosaveAfter("tool_result")
+
+        if (abortSignal.aborted) {
+          yield this.createStopEvent("interrupted")
+          return
         }
-        if (currentToolUse) {
-          let parsedInput: Record<string, unknown> = {}
-          try {
-            parsedInput = JSON.parse(currentToolUse.input || "{}")
-          } catch {
-            // Ignore parse errors
-          }
-          yield {
-            type: "tool_use",
-            id: currentToolUse.id,
-            name: currentToolUse.name,
-            input: parsedInput,
+
+        if (this.config.outputFormat && this.isStructuredOutputSettled()) {
+          // Final answer was given through the structured output tool
+          yield this.createResultEvent()
+          yield this.createStopEvent("end_turn")
+          return
+        }
+
+        continue
+      }
+
+      // Re-prompt until the final answer matches the output schema
+      if (this.config.outputFormat && !this.checkStructuredOutput(state.content)) {
+        continue
+      }
+
+      // Answer steering messages before finishing
+      if (this.steeringQueue.length > 0) {
+        continue
+      }
+
+      // A Stop hook may ask the agent to keep working
+      const stopHook = await this.runStopHooks(abortSignal)
+      if (stopHook.continue) {
+        continue
+      }
+
+      if (this.config.outputFormat) {
+        yield this.createResultEvent()
+      }
+
+      yield this.createStopEvent(state.stopReason, stopHook.stopReason)
+
+      // Steering sent while the stop event was being handled starts a new turn
+      if (this.steeringQueue.length === 0 || abortSignal.aborted) {
+        return
+      }
+    }
+  }
+
+  /**
+   * Save according to the autosave policy after a history change
+   */
+  private async *autosaveAfter(trigger: "assistant_message" | "tool_result"): AsyncGenerator<PersistedEvent> {
+    if (!this.autosave) {
+      return
+    }
+
+    if (this.autosave.policy === trigger) {
+      yield (await this.flushAutosave(trigger))!
+    } else if (this.autosave.policy === "debounced" && !this.autosaveTimer) {
+      this.autosaveTimer = setTimeout(() => {
+        this.autosaveTimer = null
+        void this.save("debounced").then((event) => {
+          // Yielded by receive() when it is still running
+          if (this.isReceiving) {
+            this.persistedEvents.push(event)
           }
-          content.push({
-            type: "tool_use",
-            id: currentToolUse.id,
-            name: currentToolUse.name,
-            input: parsedInput,
-          })
-          currentToolUse = null
+        })
+      }, this.autosave.debounceMs ?? DEFAULT_AUTOSAVE_DEBOUNCE_MS)
+    }
+  }
+
+  /**
+   * Save now when autosave is on, cancelling a pending debounced save
+   */
+  private async flushAutosave(trigger: PersistedEvent["trigger"]): Promise<PersistedEvent | null> {
+    if (!this.autosave) {
+      return null
+    }
+
+    if (this.autosaveTimer) {
+      clearTimeout(this.autosaveTimer)
+      this.autosaveTimer = null
+    }
+
+    return this.save(trigger)
+  }
+
+  /**
+   * Write the state to storage, one save at a time
+   */
+  private save(trigger: PersistedEvent["trigger"]): Promise<PersistedEvent> {
+    const run = this.saveChain.then(async () => {
+      const event: PersistedEvent = {
+        type: "persisted",
+        trigger,
+        message_count: this._state.messages.length,
+      }
+
+      try {
+        await this.config.storage!.save(this.state)
+      } catch (error) {
+        event.error = error instanceof Error ? error : new Error(String(error))
+      }
+
+      this.emitter.emit("persisted", event)
+      return event
+    })
+
+    this.saveChain = run
+    return run
+  }
+
+  /**
+   * Start a background title/summary update when one is due
+   *
+   * Runs after a run completes and is never awaited by the turn loop.
+   */
+  private scheduleMetadataUpdate(): void {
+    if (!this.autoTitle || this.metadataTask) {
+      return
+    }
+
+    this.runsSinceSummary++
+    const metadata = this._state.metadata
+    const title = typeof metadata.title !== "string"
+    const summary =
+      this.autoTitle.summary !== false &&
+      (typeof metadata.summary !== "string" ||
+        this.runsSinceSummary >= (this.autoTitle.summaryInterval ?? TITLE_DEFAULTS.SUMMARY_INTERVAL))
+
+    if (!title && !summary) {
+      return
+    }
+
+    this.metadataTask = this.updateMetadata(title, summary)
+      .catch(() => {
+        // Titles are best effort; the next run tries again
+      })
+      .finally(() => {
+        this.metadataTask = null
+      })
+  }
+
+  /**
+   * Ask the model for a title and/or summary and store them in metadata
+   */
+  private async updateMetadata(title: boolean, summary: boolean): Promise<void> {
+    const config = this.getModelConfig()
+    const previousSummary = typeof this._state.metadata.summary === "string" ? this._state.metadata.summary : undefined
+    const prompt = generateSessionMetadataPrompt(formatTranscriptExcerpt(this._state.messages), {
+      title,
+      summary,
+      previousSummary,
+    })
+
+    const response = await this.provider.complete({
+      messages: [{ role: "user", content: prompt }],
+      config: {
+        ...config,
+        model: this.autoTitle?.model ?? config.model,
+        maxTokens: TITLE_DEFAULTS.MAX_TOKENS,
+        reasoning: undefined,
+      },
+    })
+    this.recordUsage(response.id || generateMessageId(), response.model || config.model, response.usage)
+
+    const update = parseSessionMetadata(
+      response.content.map((block) => (block.type === "text" ? block.text : "")).join("")
+    )
+    if (!title) delete update.title
+    if (!summary) delete update.summary
+    if (!update.title && !update.summary) {
+      return
+    }
+
+    this._state.metadata = { ...this._state.metadata, ...update }
+    if (update.summary) {
+      this.runsSinceSummary = 0
+    }
+
+    if (this.autosave && !this.closed) {
+      const event = await this.save("metadata")
+      // Yielded by receive() when it is still running
+      if (this.isReceiving) {
+        this.persistedEvents.push(event)
+      }
+    }
+  }
+
+  /**
+   * Yield events of debounced saves that finished in the background
+   */
+  private *drainPersistedEvents(): Generator<PersistedEvent> {
+    while (this.persistedEvents.length > 0) {
+      yield this.persistedEvents.shift()!
+    }
+  }
+
+  /**
+   * Answer tool calls that will not run with error results, so later
+   * requests do not carry unanswered tool calls
+   */
+  private answerSkippedToolCalls(blocks: ToolUseBlock[], reason: string): void {
+    this._state.messages.push({
+      id: generateMessageId(),
+      role: "user",
+      content: blocks.map((block) => ({ type: "tool_result", tool_use_id: block.id, content: reason, is_error: true })),
+    })
+    this._state.updatedAt = Date.now()
+  }
+
+  /**
+   * Merge queued steering messages into the history, after the latest tool
+   * results, so the next model request sees them
+   */
+  private applySteering(): void {
+    if (this.steeringQueue.length === 0) {
+      return
+    }
+
+    const steering = this.mergeUserMessages(this.steeringQueue.splice(0))
+    const last = this._state.messages[this._state.messages.length - 1]
+
+    if (last?.role === "user") {
+      this._state.messages[this._state.messages.length - 1] = {
+        ...last,
+        content: [...this.toContentBlocks(last.content), ...this.toContentBlocks(steering.content)],
+      }
+    } else {
+      this._state.messages.push(steering)
+    }
+    this._state.updatedAt = Date.now()
+  }
+
+  /**
+   * Combine user messages into a single message
+   */
+  private mergeUserMessages(messages: SDKMessage[]): SDKMessage {
+    if (messages.length === 1) {
+      return messages[0]
+    }
+
+    return {
+      id: messages[0].id,
+      role: "user",
+      content: messages.flatMap((m) => this.toContentBlocks(m.content)),
+    }
+  }
+
+  /**
+   * Convert message content to content blocks
+   */
+  private toContentBlocks(content: string | ContentBlock[]): ContentBlock[] {
+    return typeof content === "string" ? [{ type: "text", text: content }] : content
+  }
+
+  /**
+   * Normalize a string or partial message into a user message with an id
+   */
+  private normalizeMessage(message: string | SDKMessage): SDKMessage {
+    return typeof message === "string"
+      ? {
+          id: generateMessageId(),
+          role: "user",
+          content: message,
         }
-      } else if (event.type === "message_delta") {
-        stopReason = event.delta?.stop_reason
-        if (event.usage?.output_tokens !== undefined) {
-          usage = { ...usage, output_tokens: event.usage.output_tokens }
+      : {
+          ...message,
+          id: message.id ?? generateMessageId(),
         }
-        if ((event.usage as any)?.input_tokens !== undefined) {
-          usage = { ...usage, input_tokens: (event.usage as any).input_tokens }
+  }
+
+  /**
+   * Stream one model response, yielding text and tool_use events as they
+   * arrive, then record the assistant message
+   */
+  private async *streamTurn(turn: number, abortSignal: AbortSignal): AsyncGenerator<SessionEvent, TurnState> {
+    const request = await this.buildRequest()
+    await this.applyToolChoice(request, turn, abortSignal)
+
+    const state: TurnState = {
+      turn,
+      model: request.config.model,
+      content: [],
+      stopReason: "end_turn",
+      usage: { input_tokens: 0, output_tokens: 0 },
+      text: "",
+      thinking: null,
+      toolUse: null,
+    }
+
+    try {
+      const stream = await this.provider.stream(request, {
+        onText: (text: string) => {
+          this.emitter.emit("text", { type: "text", text })
+        },
+        onThinking: (thinking: string) => {
+          this.emitter.emit("thinking", { type: "thinking", thinking })
+        },
+        onToolUse: (toolUse: { id: string; name: string; input: Record<string, unknown> }) => {
+          this.emitter.emit("tool_use", { type: "tool_use", ...toolUse })
+        },
+      })
+
+      for await (const event of stream) {
+        if (abortSignal.aborted) {
+          break
         }
-      } else if (event.type === "message_start") {
-        if (event.message?.usage?.input_tokens !== undefined) {
-          usage = { ...usage, input_tokens: event.message.usage.input_tokens }
+
+        const sessionEvent = this.applyStreamEvent(state, event)
+        if (sessionEvent) {
+          yield sessionEvent
         }
       }
+    } catch (error) {
+      // An interrupted stream may reject; keep what was received so far
+      if (!abortSignal.aborted) {
+        throw error
+      }
     }
 
     // Flush any unterminated blocks (provider-agnostic safety)
-    if (currentText) {
-      content.push({ type: "text", text: currentText })
-      currentText = ""
+    const toolUseEvent = this.flushTurnBlocks(state)
+    if (toolUseEvent) {
+      yield toolUseEvent
     }
-    if (currentToolUse) {
-      let parsedInput: Record<string, unknown> = {}
-      try {
-        parsedInput = JSON.parse(currentToolUse.input || "{}")
-      } catch {
-        // Ignore parse errors
-      }
-      yield {
-        type: "tool_use",
-        id: currentToolUse.id,
-        name: currentToolUse.name,
-        input: parsedInput,
-      }
-      content.push({
-        type: "tool_use",
-        id: currentToolUse.id,
-        name: currentToolUse.name,
-        input: parsedInput,
-      })
-      currentToolUse = null
+
+    // Nothing was received before an interrupt
+    if (state.content.length === 0 && abortSignal.aborted) {
+      return state
     }
 
-    // Create assistant message
+    // Create assistant message (tool results go in user messages)
     const assistantMessage: SDKMessage = {
       id: generateMessageId(),
       role: "assistant",
-      content,
-      stop_reason: stopReason as any,
-      usage,
+      content: state.content,
+      stop_reason: state.stopReason as any,
+      usage: state.usage,
     }
 
-    // Add to history
     this._state.messages.push(assistantMessage)
+    this.recordUsage(assistantMessage.id!, state.model, state.usage)
 
-    // Update usage
-    this._state.usage = {
-      input_tokens: this._state.usage.input_tokens + usage.input_tokens,
-      output_tokens: this._state.usage.output_tokens + usage.output_tokens,
-    }
-    this._state.updatedAt = Date.now()
-
-    // Yield message event
     yield { type: "message", message: assistantMessage }
 
-    // Handle more tool calls if any
-    const toolUseBlocks = content.filter((b) => b.type === "tool_use")
-    if (toolUseBlocks.length > 0) {
-      const toolResults: ContentBlock[] = []
-
-      for (const block of toolUseBlocks) {
-        if (block.type === "tool_use") {
-          const toolResult = await this.executeToolCall(block, abortSignal)
-          yield toolResult
-
-          if (toolResult.type === "tool_result") {
-            toolResults.push({
-              type: "tool_result",
-              tool_use_id: block.id,
-              content: typeof toolResult.content === "string" ? toolResult.content : "",
-              is_error: toolResult.is_error,
-            })
-          }
+    return state
+  }
+
+  /**
+   * Set the turn's tool choice and parallel tool call setting from the
+   * session config, then let TurnStart hooks override them
+   */
+  private async applyToolChoice(request: LLMRequest, turn: number, abortSignal: AbortSignal): Promise<void> {
+    const { toolChoice, parallelToolCalls } = this.config
+    request.toolChoice = typeof toolChoice === "function" ? toolChoice(turn) : toolChoice
+    request.parallelToolCalls = parallelToolCalls
+
+    if (this.hooksManager) {
+      const toolNames = (request.tools ?? []).map((t) => t.name)
+      const hookResult = await this.hooksManager.runTurnStart(turn, toolNames, abortSignal)
+      request.toolChoice = hookResult.toolChoice ?? request.toolChoice
+      request.parallelToolCalls = hookResult.parallelToolCalls ?? request.parallelToolCalls
+    }
+  }
+
+  /**
+   * Apply one provider stream event to the turn state
+   *
+   * @returns The session event to yield, if any
+   */
+  private applyStreamEvent(state: TurnState, event: StreamEvent): SessionEvent | null {
+    if (event.type === "content_block_start") {
+      if (event.content_block.type === "text") {
+        state.text = ""
+      } else if (event.content_block.type === "thinking") {
+        state.thinking = { ...event.content_block }
+      } else if (event.content_block.type === "tool_use") {
+        state.toolUse = {
+          id: event.content_block.id,
+          name: event.content_block.name,
+          input: "",
         }
       }
-
-      // Add user message with tool results
-      const toolResultMessage: SDKMessage = {
-        id: generateMessageId(),
-        role: "user",
-        content: toolResults,
+    } else if (event.type === "content_block_delta") {
+      if (event.delta.type === "text_delta" && event.delta.text) {
+        state.text += event.delta.text
+        return { type: "text", text: event.delta.text }
+      } else if (event.delta.type === "thinking_delta" && state.thinking && event.delta.thinking) {
+        state.thinking.thinking += event.delta.thinking
+        return { type: "thinking", thinking: event.delta.thinking }
+      } else if (event.delta.type === "signature_delta" && state.thinking) {
+        state.thinking.signature = (state.thinking.signature ?? "") + (event.delta.signature ?? "")
+      } else if (event.delta.type === "input_json_delta" && state.toolUse) {
+        state.toolUse.input += event.delta.partial_json || ""
       }
-      this._state.messages.push(toolResultMessage)
-
-      // Recursively continue
-      for await (const event of this.continueConversation(abortSignal)) {
-        yield event
+    } else if (event.type === "content_block_stop") {
+      return this.flushTurnBlocks(state)
+    } else if (event.type === "message_delta") {
+      state.stopReason = event.delta?.stop_reason ?? state.stopReason
+      if (event.usage?.output_tokens !== undefined) {
+        state.usage = { ...state.usage, output_tokens: event.usage.output_tokens }
       }
-    } else {
-      // No more tool calls - done
-      yield {
-        type: "stop",
-        stop_reason: stopReason,
-        usage: this._state.usage,
+      if ((event.usage as any)?.input_tokens !== undefined) {
+        state.usage = { ...state.usage, input_tokens: (event.usage as any).input_tokens }
+      }
+    } else if (event.type === "message_start") {
+      state.model = event.message?.model || state.model
+      const usage = event.message?.usage
+      if (usage?.input_tokens !== undefined) {
+        state.usage = { ...state.usage, input_tokens: usage.input_tokens }
+      }
+      if (usage?.cache_creation_input_tokens || usage?.cache_read_input_tokens) {
+        state.usage = {
+          ...state.usage,
+          cache_creation_input_tokens: usage.cache_creation_input_tokens ?? 0,
+          cache_read_input_tokens: usage.cache_read_input_tokens ?? 0,
+          ...(usage.cache_creation ? { cache_creation: usage.cache_creation } : {}),
+        }
       }
     }
+
+    return null
+  }
+
+  /**
+   * Move the thinking, text and tool call being streamed into the turn content
+   *
+   * @returns The tool_use event for a completed tool call
+   */
+  private flushTurnBlocks(state: TurnState): SessionEvent | null {
+    // Providers may open a block with nothing in it (reasoning that was not
+    // summarized or returned)
+    if (state.thinking && (state.thinking.thinking || state.thinking.signature)) {
+      state.content.push(state.thinking)
+    }
+    state.thinking = null
+
+    if (state.text) {
+      state.content.push({ type: "text", text: state.text })
+      state.text = ""
+    }
+
+    if (!state.toolUse) {
+      return null
+    }
+
+    let input: Record<string, unknown> = {}
+    try {
+      input = JSON.parse(state.toolUse.input || "{}")
+    } catch {
+      // Ignore parse errors
+    }
+
+    const { id, name } = state.toolUse
+    state.toolUse = null
+    state.content.push({ type: "tool_use", id, name, input })
+    return { type: "tool_use", id, name, input }
+  }
+
+  /**
+   * Check maxTurns and the budgets before starting a turn
+   */
+  private checkTurnLimits(): StopEvent | null {
+    if (this.maxTurns !== undefined && this.countAssistantTurns() >= this.maxTurns) {
+      return this.createStopEvent("max_turns")
+    }
+
+    const budgetReason = this.checkBudget()
+    return budgetReason ? this.createStopEvent("budget_exceeded", budgetReason) : null
+  }
+
+  /**
+   * Count assistant messages in the history
+   */
+  private countAssistantTurns(): number {
+    return this._state.messages.filter((m) => m.role === "assistant").length
   }
 
   /**
@@ -892,7 +2121,7 @@ export function createSessionImpl(
   config: SessionConfig,
   provider: LLMProvider,
   state?: Partial<SessionState>
-): Session {
+): SessionImpl {
   const id = state?.id ?? generateSessionId()
   return new SessionImpl(id, config, provider, state)
 }
@@ -0,0 +1,505 @@
+/**
+ * SQLite session storage
+ * @module formagent-sdk/session/sqlite-storage
+ */
+
+import { randomUUID } from "crypto"
+import { hostname } from "os"
+import type { SDKMessage, ContentBlock } from "../types/core"
+import type {
+  PruneOptions,
+  PruneResult,
+  RetentionPolicy,
+  SessionLease,
+  SessionState,
+  SessionStorage,
+  SessionQuery,
+  SessionSummary,
+} from "../types/session"
+import { migrateSessionState, sessionMigrations } from "./migrations"
+import { pruneSessions } from "./retention"
+import { SessionLockedError, isProcessAlive } from "./lock"
+
+/**
+ * Prepared statement subset shared by bun:sqlite, node:sqlite and better-sqlite3
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown
+  all(...params: unknown[]): unknown[]
+  get(...params: unknown[]): unknown
+}
+
+/**
+ * Database subset shared by bun:sqlite, node:sqlite and better-sqlite3
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown
+  prepare(sql: string): SqliteStatement
+  close(): unknown
+}
+
+/**
+ * Options for SqliteSessionStorage
+ */
+export interface SqliteSessionStorageOptions {
+  /** Database file path (default: ":memory:") */
+  path?: string
+  /** Use an already open database instead of opening `path` */
+  database?: SqliteDatabase
+  /** Policy applied by `prune()` */
+  retention?: RetentionPolicy
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  parent_id TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  metadata TEXT NOT NULL,
+  state TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS sessions_created_at ON sessions (created_at);
+CREATE INDEX IF NOT EXISTS sessions_updated_at ON sessions (updated_at);
+CREATE INDEX IF NOT EXISTS sessions_parent_id ON sessions (parent_id);
+
+CREATE TABLE IF NOT EXISTS session_metadata (
+  session_id TEXT NOT NULL,
+  key TEXT NOT NULL,
+  value TEXT NOT NULL,
+  PRIMARY KEY (session_id, key)
+);
+CREATE INDEX IF NOT EXISTS session_metadata_key_value ON session_metadata (key, value);
+
+CREATE TABLE IF NOT EXISTS messages (
+  session_id TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  id TEXT,
+  role TEXT NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (session_id, seq)
+);
+
+CREATE TABLE IF NOT EXISTS message_tools (
+  session_id TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  tool_name TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS message_tools_name ON message_tools (tool_name, session_id);
+CREATE INDEX IF NOT EXISTS message_tools_session ON message_tools (session_id, seq);
+
+CREATE TABLE IF NOT EXISTS session_locks (
+  session_id TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  pid INTEGER NOT NULL,
+  host TEXT NOT NULL,
+  acquired_at INTEGER NOT NULL
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5 (
+  text,
+  session_id UNINDEXED,
+  seq UNINDEXED
+);
+`
+
+/**
+ * SQLite session storage implementation
+ *
+ * Stores one row per message, so saving a longer history only writes the
+ * new (or changed) messages. Sessions can be queried by timestamps, parent,
+ * metadata, tools used and message text without loading them.
+ *
+ * Uses `bun:sqlite` on Bun and `node:sqlite` (Node.js 22.5+) elsewhere, or
+ * any database passed as `options.database` (e.g. better-sqlite3).
+ *
+ * `lock()` records the holder in a `session_locks` table, so every process
+ * sharing the database sees it. Locks of processes that exited on the same
+ * host are taken over.
+ *
+ * @example
+ * ```ts
+ * const storage = new SqliteSessionStorage({ path: "./sessions.db" })
+ *
+ * const recent = await storage.query({
+ *   updatedAfter: Date.now() - 24 * 60 * 60 * 1000,
+ *   toolName: "Bash",
+ * })
+ * ```
+ */
+export class SqliteSessionStorage implements SessionStorage {
+  private options: SqliteSessionStorageOptions
+  private db: Promise<SqliteDatabase> | null = null
+  /** Identifies this storage instance in `session_locks` */
+  private owner = randomUUID()
+
+  constructor(options: SqliteSessionStorageOptions = {}) {
+    this.options = options
+  }
+
+  async save(state: SessionState): Promise<void> {
+    const db = await this.open()
+    const { messages, ...rest } = { ...state, schemaVersion: sessionMigrations.version }
+
+    this.transaction(db, () => {
+      db.prepare(
+        `INSERT INTO sessions (id, parent_id, created_at, updated_at, metadata, state)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           parent_id = excluded.parent_id,
+           created_at = excluded.created_at,
+           updated_at = excluded.updated_at,
+           metadata = excluded.metadata,
+           state = excluded.state`
+      ).run(
+        state.id,
+        state.parentId ?? null,
+        state.createdAt,
+        state.updatedAt,
+        JSON.stringify(state.metadata ?? {}),
+        JSON.stringify(rest)
+      )
+
+      db.prepare("DELETE FROM session_metadata WHERE session_id = ?").run(state.id)
+      const insertMetadata = db.prepare("INSERT INTO session_metadata (session_id, key, value) VALUES (?, ?, ?)")
+      for (const [key, value] of Object.entries(state.metadata ?? {})) {
+        insertMetadata.run(state.id, key, JSON.stringify(value))
+      }
+
+      this.saveMessages(db, state.id, messages)
+    })
+  }
+
+  async load(sessionId: string): Promise<SessionState | undefined> {
+    const db = await this.open()
+
+    const row = db.prepare("SELECT state FROM sessions WHERE id = ?").get(sessionId) as
+      | { state: string }
+      | undefined
+    if (!row) {
+      return undefined
+    }
+
+    const messages = db
+      .prepare("SELECT data FROM messages WHERE session_id = ? ORDER BY seq")
+      .all(sessionId) as Array<{ data: string }>
+
+    return migrateSessionState({
+      ...JSON.parse(row.state),
+      messages: messages.map((m) => JSON.parse(m.data) as SDKMessage),
+    })
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const db = await this.open()
+
+    this.transaction(db, () => {
+      for (const table of ["sessions", "session_metadata", "messages", "message_tools", "messages_fts"]) {
+        const column = table === "sessions" ? "id" : "session_id"
+        db.prepare(`DELETE FROM ${table} WHERE ${column} = ?`).run(sessionId)
+      }
+    })
+  }
+
+  async list(): Promise<string[]> {
+    const db = await this.open()
+    const rows = db.prepare("SELECT id FROM sessions ORDER BY created_at").all() as Array<{ id: string }>
+    return rows.map((r) => r.id)
+  }
+
+  /**
+   * Find stored sessions without loading their messages
+   *
+   * @param query - Filters, sort order and paging
+   * @returns Matching sessions (most recently updated first by default)
+   */
+  async query(query: SessionQuery = {}): Promise<SessionSummary[]> {
+    const db = await this.open()
+    const { where, params } = this.buildFilter(query)
+
+    const orderBy = query.orderBy === "createdAt" ? "created_at" : "updated_at"
+    const order = query.order === "asc" ? "ASC" : "DESC"
+
+    let sql = `SELECT s.id, s.parent_id, s.created_at, s.updated_at, s.metadata,
+        (SELECT COUNT(*) FROM messages m WHERE m.session_id = s.id) AS message_count
+      FROM sessions s ${where} ORDER BY s.${orderBy} ${order}, s.id`
+
+    if (query.limit !== undefined || query.offset !== undefined) {
+      sql += " LIMIT ? OFFSET ?"
+      params.push(query.limit ?? -1, query.offset ?? 0)
+    }
+
+    const rows = db.prepare(sql).all(...params) as Array<{
+      id: string
+      parent_id: string | null
+      created_at: number
+      updated_at: number
+      metadata: string
+      message_count: number
+    }>
+
+    return rows.map((row) => {
+      const metadata = JSON.parse(row.metadata) as Record<string, unknown>
+      return {
+        id: row.id,
+        parentId: row.parent_id ?? undefined,
+        metadata,
+        title: typeof metadata.title === "string" ? metadata.title : undefined,
+        summary: typeof metadata.summary === "string" ? metadata.summary : undefined,
+        messageCount: Number(row.message_count),
+        createdAt: Number(row.created_at),
+        updatedAt: Number(row.updated_at),
+      }
+    })
+  }
+
+  /**
+   * Count stored sessions matching a query (ignores limit and offset)
+   */
+  async count(query: SessionQuery = {}): Promise<number> {
+    const db = await this.open()
+    const { where, params } = this.buildFilter(query)
+    const row = db.prepare(`SELECT COUNT(*) AS count FROM sessions s ${where}`).get(...params) as {
+      count: number
+    }
+    return Number(row.count)
+  }
+
+  /**
+   * Delete sessions outside a retention policy
+   *
+   * @param policy - Policy to apply (default: the `retention` option; nothing is deleted without one)
+   * @param options - Prune options
+   */
+  async prune(policy: RetentionPolicy = this.options.retention ?? {}, options?: PruneOptions): Promise<PruneResult> {
+    return pruneSessions(this, policy, options)
+  }
+
+  /**
+   * Claim a session for writing
+   *
+   * @throws SessionLockedError if another process or storage instance holds the session
+   */
+  async lock(sessionId: string): Promise<SessionLease> {
+    const db = await this.open()
+
+    this.transaction(db, () => {
+      const holder = db.prepare("SELECT pid, host FROM session_locks WHERE session_id = ?").get(sessionId) as
+        | { pid: number; host: string }
+        | undefined
+
+      if (holder) {
+        // Stale lock: its process is gone
+        if (holder.host !== hostname() || isProcessAlive(Number(holder.pid))) {
+          throw new SessionLockedError(sessionId, Number(holder.pid))
+        }
+        db.prepare("DELETE FROM session_locks WHERE session_id = ?").run(sessionId)
+      }
+
+      db.prepare(
+        "INSERT INTO session_locks (session_id, owner, pid, host, acquired_at) VALUES (?, ?, ?, ?, ?)"
+      ).run(sessionId, this.owner, process.pid, hostname(), Date.now())
+    })
+
+    return { sessionId, release: () => this.release(sessionId) }
+  }
+
+  /**
+   * Release the lock held for a session
+   */
+  async release(sessionId: string): Promise<void> {
+    const db = await this.open()
+    db.prepare("DELETE FROM session_locks WHERE session_id = ? AND owner = ?").run(sessionId, this.owner)
+  }
+
+  /**
+   * Release this storage's locks and close the database (only when it was opened by this storage)
+   */
+  async close(): Promise<void> {
+    if (!this.db) {
+      return
+    }
+
+    const db = await this.db
+    this.db = null
+    db.prepare("DELETE FROM session_locks WHERE owner = ?").run(this.owner)
+    if (!this.options.database) {
+      db.close()
+    }
+  }
+
+  /**
+   * Open the database and create the schema on first use
+   */
+  private open(): Promise<SqliteDatabase> {
+    this.db ??= (async () => {
+      const db = this.options.database ?? (await openDatabase(this.options.path ?? ":memory:"))
+      db.exec(SCHEMA)
+      return db
+    })()
+    return this.db
+  }
+
+  /**
+   * Run statements in a transaction
+   */
+  private transaction(db: SqliteDatabase, fn: () => void): void {
+    db.exec("BEGIN")
+    try {
+      fn()
+      db.exec("COMMIT")
+    } catch (error) {
+      db.exec("ROLLBACK")
+      throw error
+    }
+  }
+
+  /**
+   * Write the messages that differ from the stored ones
+   *
+   * Rows are compared in order; everything from the first difference on is
+   * replaced, so appending to a history only inserts the new messages.
+   */
+  private saveMessages(db: SqliteDatabase, sessionId: string, messages: SDKMessage[]): void {
+    const stored = db
+      .prepare("SELECT data FROM messages WHERE session_id = ? ORDER BY seq")
+      .all(sessionId) as Array<{ data: string }>
+    const data = messages.map((m) => JSON.stringify(m))
+
+    let start = 0
+    while (start < stored.length && start < data.length && stored[start].data === data[start]) {
+      start++
+    }
+
+    for (const table of ["messages", "message_tools", "messages_fts"]) {
+      db.prepare(`DELETE FROM ${table} WHERE session_id = ? AND seq >= ?`).run(sessionId, start)
+    }
+
+    const insertMessage = db.prepare("INSERT INTO messages (session_id, seq, id, role, data) VALUES (?, ?, ?, ?, ?)")
+    const insertTool = db.prepare("INSERT INTO message_tools (session_id, seq, tool_name) VALUES (?, ?, ?)")
+    const insertText = db.prepare("INSERT INTO messages_fts (text, session_id, seq) VALUES (?, ?, ?)")
+
+    for (let seq = start; seq < messages.length; seq++) {
+      const message = messages[seq]
+      insertMessage.run(sessionId, seq, message.id ?? null, message.role, data[seq])
+
+      if (typeof message.content === "string") {
+        insertText.run(message.content, sessionId, seq)
+        continue
+      }
+
+      for (const name of new Set(message.content.flatMap((b) => (b.type === "tool_use" ? [b.name] : [])))) {
+        insertTool.run(sessionId, seq, name)
+      }
+
+      const text = blocksText(message.content)
+      if (text) {
+        insertText.run(text, sessionId, seq)
+      }
+    }
+  }
+
+  /**
+   * Build the WHERE clause for a query
+   */
+  private buildFilter(query: SessionQuery): { where: string; params: unknown[] } {
+    const conditions: string[] = []
+    const params: unknown[] = []
+
+    const ranges: Array<[number | undefined, string]> = [
+      [query.createdAfter, "s.created_at >= ?"],
+      [query.createdBefore, "s.created_at < ?"],
+      [query.updatedAfter, "s.updated_at >= ?"],
+      [query.updatedBefore, "s.updated_at < ?"],
+    ]
+    for (const [value, condition] of ranges) {
+      if (value !== undefined) {
+        conditions.push(condition)
+        params.push(value)
+      }
+    }
+
+    if (query.parentId !== undefined) {
+      conditions.push("s.parent_id = ?")
+      params.push(query.parentId)
+    }
+
+    for (const [key, value] of Object.entries(query.metadata ?? {})) {
+      conditions.push("EXISTS (SELECT 1 FROM session_metadata md WHERE md.session_id = s.id AND md.key = ? AND md.value = ?)")
+      params.push(key, JSON.stringify(value))
+    }
+
+    if (query.toolName) {
+      conditions.push("EXISTS (SELECT 1 FROM message_tools t WHERE t.session_id = s.id AND t.tool_name = ?)")
+      params.push(query.toolName)
+    }
+
+    const match = query.search ? toMatchQuery(query.search) : ""
+    if (match) {
+      conditions.push("s.id IN (SELECT session_id FROM messages_fts WHERE messages_fts MATCH ?)")
+      params.push(match)
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+      params,
+    }
+  }
+}
+
+/**
+ * Open a database file with the runtime's built-in SQLite module
+ */
+async function openDatabase(path: string): Promise<SqliteDatabase> {
+  if (path !== ":memory:") {
+    const { mkdir } = await import("fs/promises")
+    const { dirname } = await import("path")
+    await mkdir(dirname(path), { recursive: true })
+  }
+
+  // Module names are kept out of static imports so bundlers leave them alone
+  if (typeof (globalThis as { Bun?: unknown }).Bun !== "undefined") {
+    const bunSqlite = "bun:sqlite"
+    const { Database } = await import(bunSqlite)
+    return new Database(path, { create: true }) as SqliteDatabase
+  }
+
+  const nodeSqlite = "node:sqlite"
+  try {
+    const { DatabaseSync } = await import(nodeSqlite)
+    return new DatabaseSync(path) as SqliteDatabase
+  } catch (error) {
+    throw new Error(
+      `SQLite storage requires Bun or Node.js 22.5+ (node:sqlite), or an open database in options.database: ${error}`
+    )
+  }
+}
+
+/**
+ * Searchable text of content blocks (text and tool results)
+ */
+function blocksText(blocks: ContentBlock[]): string {
+  return blocks
+    .map((block) => {
+      if (block.type === "text") {
+        return block.text
+      }
+      if (block.type === "tool_result") {
+        return typeof block.content === "string" ? block.content : blocksText(block.content)
+      }
+      return ""
+    })
+    .filter(Boolean)
+    .join("\n")
+}
+
+/**
+ * Turn free text into an FTS5 query matching all of its words
+ */
+function toMatchQuery(search: string): string {
+  return search
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => `"${word.replace(/"/g, '""')}"`)
+    .join(" ")
+}
@@ -4,7 +4,30 @@
  */
 
 import path from "path"
-import type { SessionState, SessionStorage } from "../types/session"
+import type { SDKMessage } from "../types/core"
+import type {
+  PruneOptions,
+  PruneResult,
+  RetentionPolicy,
+  SessionLease,
+  SessionState,
+  SessionStorage,
+  SessionSummary,
+} from "../types/session"
+import { resolveBranchPath } from "./branches"
+import { SqliteSessionStorage, type SqliteDatabase } from "./sqlite-storage"
+import { JsonlSessionStorage } from "./jsonl-storage"
+import { migrateSessionState, sessionMigrations } from "./migrations"
+import { pruneSessions } from "./retention"
+import { SessionLockedError, acquireFileLock, type FileLock } from "./lock"
+
+/**
+ * Options shared by the built-in session storages
+ */
+export interface SessionStorageOptions {
+  /** Policy applied by `prune()` */
+  retention?: RetentionPolicy
+}
 
 /**
  * In-memory session storage implementation
@@ -22,6 +45,12 @@ import type { SessionState, SessionStorage } from "../types/session"
  */
 export class MemorySessionStorage implements SessionStorage {
   private sessions: Map<string, SessionState> = new Map()
+  private leases: Set<string> = new Set()
+  private retention: RetentionPolicy | undefined
+
+  constructor(options?: SessionStorageOptions) {
+    this.retention = options?.retention
+  }
 
   async save(state: SessionState): Promise<void> {
     // Clone state to prevent external mutations
@@ -46,6 +75,39 @@ export class MemorySessionStorage implements SessionStorage {
     return Array.from(this.sessions.keys())
   }
 
+  /**
+   * Claim a session for writing (within this storage instance)
+   *
+   * @throws SessionLockedError if the session is already claimed
+   */
+  async lock(sessionId: string): Promise<SessionLease> {
+    if (this.leases.has(sessionId)) {
+      throw new SessionLockedError(sessionId, process.pid)
+    }
+
+    this.leases.add(sessionId)
+    let released = false
+    return {
+      sessionId,
+      release: async () => {
+        if (!released) {
+          released = true
+          this.leases.delete(sessionId)
+        }
+      },
+    }
+  }
+
+  /**
+   * Delete sessions outside a retention policy
+   *
+   * @param policy - Policy to apply (default: the `retention` option; nothing is deleted without one)
+   * @param options - Prune options
+   */
+  async prune(policy: RetentionPolicy = this.retention ?? {}, options?: PruneOptions): Promise<PruneResult> {
+    return pruneSessions(this, policy, options)
+  }
+
   /**
    * Clear all stored sessions
    */
@@ -65,7 +127,12 @@ export class MemorySessionStorage implements SessionStorage {
  * File-based session storage implementation
  *
  * Stores session state as JSON files in a directory.
- * Provides persistence across process restarts.
+ * Provides persistence across process restarts. Sessions with branches are
+ * written as their branch tree only, and forks as the messages after their
+ * fork point, so shared history is stored once. Forks get their own copy of
+ * the shared messages before the parent rewrites or deletes them.
+ * `lock()` takes an advisory `<id>.json.lock` file, so two processes cannot
+ * resume the same session for writing.
  *
  * @example
  * ```ts
@@ -77,9 +144,16 @@ export class MemorySessionStorage implements SessionStorage {
  */
 export class FileSessionStorage implements SessionStorage {
   private directory: string
+  private retention: RetentionPolicy | undefined
+  private locks: Map<string, FileLock> = new Map()
+  /** Parent messages (as JSON) each fork was last found to share */
+  private sharedPrefixes: Map<string, { parentId: string; messages: string[] }> = new Map()
+  /** Last saved history (as JSON) of sessions that have forks */
+  private forkedHistories: Map<string, string[]> = new Map()
 
-  constructor(directory: string) {
+  constructor(directory: string, options?: SessionStorageOptions) {
     this.directory = directory
+    this.retention = options?.retention
   }
 
   private getFilePath(sessionId: string): string {
@@ -105,28 +179,52 @@ export class FileSessionStorage implements SessionStorage {
     await mkdir(this.directory, { recursive: true })
 
     const filePath = this.getFilePath(state.id)
-    const content = JSON.stringify(state, null, 2)
-    await writeFile(filePath, content, "utf-8")
+    await this.detachForks(state.id, state.messages)
+
+    const { messages, forkIndex, ...rest } = { ...state, schemaVersion: sessionMigrations.version }
+    let stored: Partial<SessionState>
+    if (state.branches && state.activeBranch) {
+      // The active history is rebuilt from the branch tree on load
+      stored = rest
+    } else if (await this.sharesParentHistory(state)) {
+      // The shared messages are read from the parent on load
+      stored = { ...rest, forkIndex, messages: messages.slice(forkIndex) }
+      await this.addFork(state.parentId!, state.id)
+    } else {
+      stored = { ...rest, messages }
+    }
+
+    await writeFile(filePath, JSON.stringify(stored, null, 2), "utf-8")
   }
 
   async load(sessionId: string): Promise<SessionState | undefined> {
-    const { readFile } = await import("fs/promises")
+    const state = await this.readState(sessionId)
+    if (!state) {
+      return undefined
+    }
 
-    try {
-      const filePath = this.getFilePath(sessionId)
-      const content = await readFile(filePath, "utf-8")
-      return JSON.parse(content) as SessionState
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-        return undefined
+    if (!state.messages && state.branches && state.activeBranch) {
+      state.messages = resolveBranchPath(state.branches, state.activeBranch)
+    } else if (state.parentId && state.forkIndex) {
+      const parent = await this.load(state.parentId)
+      if (!parent || parent.messages.length < state.forkIndex) {
+        throw new Error(
+          `Parent session ${state.parentId} no longer has the ${state.forkIndex} messages it shares with ${sessionId}`
+        )
       }
-      throw error
+      const shared = parent.messages.slice(0, state.forkIndex)
+      this.sharedPrefixes.set(sessionId, { parentId: state.parentId, messages: shared.map((m) => JSON.stringify(m)) })
+      state.messages = [...shared, ...state.messages]
     }
+    return state
   }
 
   async delete(sessionId: string): Promise<void> {
     const { unlink } = await import("fs/promises")
 
+    await this.detachForks(sessionId, [])
+    this.sharedPrefixes.delete(sessionId)
+
     try {
       const filePath = this.getFilePath(sessionId)
       await unlink(filePath)
@@ -137,6 +235,29 @@ export class FileSessionStorage implements SessionStorage {
     }
   }
 
+  /**
+   * Bytes a session takes on disk, including its fork list
+   */
+  async sizeOf(sessionId: string): Promise<number | undefined> {
+    const { stat } = await import("fs/promises")
+
+    const filePath = this.getFilePath(sessionId)
+    let bytes = 0
+    for (const file of [filePath, `${filePath}.forks`]) {
+      try {
+        bytes += (await stat(file)).size
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error
+        }
+        if (file === filePath) {
+          return undefined
+        }
+      }
+    }
+    return bytes
+  }
+
   async list(): Promise<string[]> {
     const { readdir } = await import("fs/promises")
 
@@ -152,24 +273,265 @@ export class FileSessionStorage implements SessionStorage {
       throw error
     }
   }
+
+  /**
+   * Delete sessions outside a retention policy
+   *
+   * @param policy - Policy to apply (default: the `retention` option; nothing is deleted without one)
+   * @param options - Prune options
+   */
+  async prune(policy: RetentionPolicy = this.retention ?? {}, options?: PruneOptions): Promise<PruneResult> {
+    return pruneSessions(this, policy, options)
+  }
+
+  /**
+   * Claim a session for writing with a `<id>.json.lock` file
+   *
+   * Locks left behind by processes that have exited are taken over.
+   *
+   * @throws SessionLockedError if another process or storage instance holds the session
+   */
+  async lock(sessionId: string): Promise<SessionLease> {
+    const { mkdir } = await import("fs/promises")
+
+    if (this.locks.has(sessionId)) {
+      throw new SessionLockedError(sessionId, process.pid)
+    }
+
+    await mkdir(this.directory, { recursive: true })
+    const lock = await acquireFileLock(`${this.getFilePath(sessionId)}.lock`, sessionId)
+    this.locks.set(sessionId, lock)
+
+    return {
+      sessionId,
+      release: async () => {
+        if (this.locks.get(sessionId) === lock) {
+          this.locks.delete(sessionId)
+          await lock.release()
+        }
+      },
+    }
+  }
+
+  /**
+   * Release the lock held for a session
+   */
+  async release(sessionId: string): Promise<void> {
+    const lock = this.locks.get(sessionId)
+    if (lock) {
+      this.locks.delete(sessionId)
+      await lock.release()
+    }
+  }
+
+  /**
+   * Read a session file as stored (forks and branch trees unresolved)
+   */
+  private async readState(sessionId: string): Promise<SessionState | undefined> {
+    const { readFile } = await import("fs/promises")
+
+    try {
+      const content = await readFile(this.getFilePath(sessionId), "utf-8")
+      return migrateSessionState(JSON.parse(content))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Whether a fork still starts with the messages it shares with its parent
+   *
+   * The parent is read once; later saves compare against the cached messages
+   * for as long as the parent lists the fork.
+   */
+  private async sharesParentHistory(state: SessionState): Promise<boolean> {
+    const { parentId, forkIndex } = state
+    if (!parentId || !forkIndex || state.messages.length < forkIndex) {
+      return false
+    }
+
+    let shared = this.sharedPrefixes.get(state.id)
+    if (!shared || shared.parentId !== parentId || !(await this.readForks(parentId)).includes(state.id)) {
+      const parent = await this.load(parentId)
+      shared = { parentId, messages: (parent?.messages ?? []).slice(0, forkIndex).map((m) => JSON.stringify(m)) }
+      this.sharedPrefixes.set(state.id, shared)
+    }
+
+    return (
+      shared.messages.length === forkIndex &&
+      commonJsonPrefixLength(shared.messages, state.messages.slice(0, forkIndex)) === forkIndex
+    )
+  }
+
+  /**
+   * Give forks of a session their own copy of the history they share, before
+   * the session's history changes to `messages`
+   */
+  private async detachForks(sessionId: string, messages: SDKMessage[]): Promise<void> {
+    const { writeFile } = await import("fs/promises")
+
+    const forks = await this.readForks(sessionId)
+    if (forks.length === 0) {
+      this.forkedHistories.delete(sessionId)
+      return
+    }
+
+    const previous =
+      this.forkedHistories.get(sessionId) ??
+      ((await this.load(sessionId))?.messages ?? []).map((m) => JSON.stringify(m))
+    const kept = commonJsonPrefixLength(previous, messages)
+
+    const remaining: string[] = []
+    for (const forkId of forks) {
+      const stored = await this.readState(forkId)
+      if (stored?.parentId !== sessionId || !stored.forkIndex) {
+        continue
+      }
+      if (stored.forkIndex <= kept) {
+        remaining.push(forkId)
+        continue
+      }
+
+      // Still resolves against the previous history, which is on disk until the caller writes
+      const { forkIndex: _forkIndex, ...fork } = (await this.load(forkId))!
+      await writeFile(this.getFilePath(forkId), JSON.stringify(fork, null, 2), "utf-8")
+      this.sharedPrefixes.delete(forkId)
+    }
+
+    await this.writeForks(sessionId, remaining)
+    if (remaining.length > 0) {
+      this.forkedHistories.set(sessionId, messages.map((m) => JSON.stringify(m)))
+    } else {
+      this.forkedHistories.delete(sessionId)
+    }
+  }
+
+  /**
+   * Record that a fork reads its shared history from a session
+   */
+  private async addFork(sessionId: string, forkId: string): Promise<void> {
+    const forks = await this.readForks(sessionId)
+    if (!forks.includes(forkId)) {
+      await this.writeForks(sessionId, [...forks, forkId])
+    }
+  }
+
+  /**
+   * IDs of forks stored as a reference to a session (`<id>.json.forks`)
+   */
+  private async readForks(sessionId: string): Promise<string[]> {
+    const { readFile } = await import("fs/promises")
+
+    try {
+      return JSON.parse(await readFile(`${this.getFilePath(sessionId)}.forks`, "utf-8")) as string[]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return []
+      }
+      throw error
+    }
+  }
+
+  private async writeForks(sessionId: string, forks: string[]): Promise<void> {
+    const { unlink, writeFile } = await import("fs/promises")
+    const forksPath = `${this.getFilePath(sessionId)}.forks`
+
+    if (forks.length > 0) {
+      await writeFile(forksPath, JSON.stringify(forks), "utf-8")
+      return
+    }
+    try {
+      await unlink(forksPath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error
+      }
+    }
+  }
+}
+
+/**
+ * Count the leading messages that match a list of serialized messages
+ */
+function commonJsonPrefixLength(serialized: string[], messages: SDKMessage[]): number {
+  const max = Math.min(serialized.length, messages.length)
+  let i = 0
+  while (i < max && serialized[i] === JSON.stringify(messages[i])) {
+    i++
+  }
+  return i
+}
+
+/**
+ * List stored sessions with their titles and summaries, most recently updated first
+ *
+ * Uses `query()` on SqliteSessionStorage; other storages load each session.
+ * Sessions that fail to load are skipped.
+ *
+ * @param storage - Storage to list
+ * @param limit - Maximum number of sessions to return
+ */
+export async function listSessionSummaries(storage: SessionStorage, limit?: number): Promise<SessionSummary[]> {
+  if (storage instanceof SqliteSessionStorage) {
+    return storage.query({ orderBy: "updatedAt", order: "desc", limit })
+  }
+
+  const summaries: SessionSummary[] = []
+  for (const id of await storage.list()) {
+    try {
+      const state = await storage.load(id)
+      if (state) {
+        summaries.push({
+          id: state.id,
+          parentId: state.parentId,
+          metadata: state.metadata,
+          title: typeof state.metadata?.title === "string" ? state.metadata.title : undefined,
+          summary: typeof state.metadata?.summary === "string" ? state.metadata.summary : undefined,
+          messageCount: state.messages.length,
+          createdAt: state.createdAt,
+          updatedAt: state.updatedAt,
+        })
+      }
+    } catch {
+      // Unreadable sessions are left out of the listing
+    }
+  }
+
+  summaries.sort((a, b) => b.updatedAt - a.updatedAt)
+  return limit === undefined ? summaries : summaries.slice(0, limit)
 }
 
 /**
  * Create a session storage instance
  *
- * @param type - Storage type ("memory" or "file")
- * @param options - Options for the storage
+ * @param type - Storage type ("memory", "file", "jsonl" or "sqlite")
+ * @param options - Options for the storage (sqlite uses `path`, or `sessions.db` in `directory`; `retention` sets the prune policy)
  * @returns SessionStorage instance
  */
 export function createSessionStorage(
-  type: "memory" | "file" = "memory",
-  options?: { directory?: string }
+  type: "memory" | "file" | "jsonl" | "sqlite" = "memory",
+  options?: SessionStorageOptions & { directory?: string; path?: string; database?: SqliteDatabase }
 ): SessionStorage {
+  const retention = options?.retention
+
   if (type === "file") {
     if (!options?.directory) {
       throw new Error("File storage requires a directory option")
     }
-    return new FileSessionStorage(options.directory)
+    return new FileSessionStorage(options.directory, { retention })
+  }
+  if (type === "jsonl") {
+    if (!options?.directory) {
+      throw new Error("JSONL storage requires a directory option")
+    }
+    return new JsonlSessionStorage(options.directory, { retention })
+  }
+  if (type === "sqlite") {
+    const dbPath = options?.path ?? (options?.directory ? path.join(options.directory, "sessions.db") : undefined)
+    return new SqliteSessionStorage({ path: dbPath, database: options?.database, retention })
   }
-  return new MemorySessionStorage()
+  return new MemorySessionStorage({ retention })
 }
@@ -0,0 +1,137 @@
+/**
+ * Session titles and rolling summaries
+ * @module formagent-sdk/session/titles
+ */
+
+import type { SDKMessage } from "../types/core"
+
+/**
+ * Default settings for automatic titles and summaries
+ */
+export const TITLE_DEFAULTS = {
+  /** Completed runs between summary updates */
+  SUMMARY_INTERVAL: 5,
+  /** Longest title kept */
+  MAX_TITLE_LENGTH: 80,
+  /** Characters of transcript sent to the model */
+  MAX_TRANSCRIPT_CHARS: 8000,
+  /** Output token limit for the title call */
+  MAX_TOKENS: 300,
+} as const
+
+/**
+ * Title and summary parsed from a model response
+ */
+export interface SessionMetadataUpdate {
+  title?: string
+  summary?: string
+}
+
+/**
+ * Render messages as a compact plain-text transcript
+ *
+ * Tool calls are reduced to their names and tool results are left out. When
+ * the text is too long, the start of the conversation is kept along with its
+ * most recent part.
+ *
+ * @param messages - Messages to render
+ * @param maxChars - Maximum length of the result
+ */
+export function formatTranscriptExcerpt(
+  messages: SDKMessage[],
+  maxChars: number = TITLE_DEFAULTS.MAX_TRANSCRIPT_CHARS
+): string {
+  const lines: string[] = []
+
+  for (const message of messages) {
+    const parts =
+      typeof message.content === "string"
+        ? [message.content]
+        : message.content.flatMap((block) => {
+            if (block.type === "text") return [block.text]
+            if (block.type === "tool_use") return [`[used ${block.name}]`]
+            return []
+          })
+
+    const text = parts.join(" ").trim()
+    if (text) {
+      lines.push(`${message.role === "user" ? "User" : "Assistant"}: ${text}`)
+    }
+  }
+
+  const transcript = lines.join("\n")
+  if (transcript.length <= maxChars) {
+    return transcript
+  }
+
+  const half = Math.floor(maxChars / 2)
+  return `${transcript.slice(0, half)}\n[...]\n${transcript.slice(-half)}`
+}
+
+/**
+ * Prompt asking for a session title and/or summary
+ *
+ * @param transcript - Transcript excerpt (see formatTranscriptExcerpt)
+ * @param options - What to ask for, and the summary to update
+ */
+export function generateSessionMetadataPrompt(
+  transcript: string,
+  options: { title: boolean; summary: boolean; previousSummary?: string }
+): string {
+  const instructions: string[] = []
+  if (options.title) {
+    instructions.push(
+      "Title: a short title for this conversation (at most 8 words, no quotes or trailing punctuation)"
+    )
+  }
+  if (options.summary) {
+    instructions.push(
+      options.previousSummary
+        ? "Summary: the previous summary updated with what has happened since (2-3 sentences)"
+        : "Summary: what this conversation is about and where it stands (2-3 sentences)"
+    )
+  }
+
+  const previous = options.previousSummary ? `\n\nPrevious summary:\n${options.previousSummary}` : ""
+
+  return `Here is a conversation between a user and an AI assistant:
+
+<transcript>
+${transcript}
+</transcript>${previous}
+
+Reply with exactly these lines and nothing else:
+${instructions.join("\n")}`
+}
+
+/**
+ * Read the title and summary lines from a model response
+ */
+export function parseSessionMetadata(text: string): SessionMetadataUpdate {
+  const update: SessionMetadataUpdate = {}
+
+  const title = text.match(/^\s*\**title\**\s*:\s*(.+)$/im)?.[1]
+  if (title) {
+    const cleaned = title
+      .trim()
+      .replace(/^["'`*]+|["'`*]+$/g, "")
+      .replace(/[.!]+$/, "")
+      .trim()
+    if (cleaned) {
+      update.title =
+        cleaned.length > TITLE_DEFAULTS.MAX_TITLE_LENGTH
+          ? `${cleaned.slice(0, TITLE_DEFAULTS.MAX_TITLE_LENGTH - 3)}...`
+          : cleaned
+    }
+  }
+
+  const summary = text
+    .match(/^\s*\**summary\**\s*:\s*([\s\S]+)$/im)?.[1]
+    ?.split(/\n\s*\**title\**\s*:/i)[0]
+    .trim()
+  if (summary) {
+    update.summary = summary
+  }
+
+  return update
+}
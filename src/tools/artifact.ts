@@ -0,0 +1,122 @@
+/**
+ * ReadArtifact tool implementation
+ *
+ * Lets the model read back tool outputs that were kept in the session's
+ * artifact store instead of the conversation history.
+ *
+ * @module formagent-sdk/tools/artifact
+ */
+
+import type { ToolDefinition, ToolContext, ToolOutput } from "../types/tool"
+import { ArtifactStore, isTextMediaType } from "../session/artifacts"
+
+const DEFAULT_LINE_LIMIT = 2000
+const MAX_LINE_LENGTH = 2000
+const MAX_BYTE_LENGTH = 64 * 1024
+
+/**
+ * ReadArtifact tool input
+ */
+export interface ReadArtifactInput {
+  /** Artifact ID ("sha256:...") */
+  artifact_id: string
+  /** Line to start reading from (1-indexed, text artifacts) */
+  offset?: number
+  /** Number of lines to read */
+  limit?: number
+  /** Byte to start reading from */
+  byte_offset?: number
+  /** Number of bytes to read */
+  byte_length?: number
+}
+
+/**
+ * Create the ReadArtifact tool
+ *
+ * Sessions register this tool automatically when `artifactStore` is set.
+ *
+ * @param store - Artifact store to read from
+ * @returns ReadArtifact tool definition
+ */
+export function createReadArtifactTool(store: ArtifactStore): ToolDefinition {
+  return {
+    name: "ReadArtifact",
+    description: `Read a stored artifact (a large or binary tool output kept out of the conversation). Text artifacts are returned with line numbers; use offset/limit for a line range. Use byte_offset/byte_length for a byte range (binary content is returned as base64, up to ${MAX_BYTE_LENGTH} bytes).`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        artifact_id: {
+          type: "string",
+          description: "Artifact ID (sha256:...)",
+        },
+        offset: {
+          type: "number",
+          description: "Line number to start reading from (1-indexed)",
+        },
+        limit: {
+          type: "number",
+          description: `Number of lines to read (default: ${DEFAULT_LINE_LIMIT})`,
+        },
+        byte_offset: {
+          type: "number",
+          description: "Byte to start reading from (0-indexed)",
+        },
+        byte_length: {
+          type: "number",
+          description: `Number of bytes to read (max: ${MAX_BYTE_LENGTH})`,
+        },
+      },
+      required: ["artifact_id"],
+    },
+    readOnly: true,
+    execute: async (rawInput: Record<string, unknown>, _context: ToolContext): Promise<ToolOutput> => {
+      const input = rawInput as unknown as ReadArtifactInput
+
+      let ref
+      try {
+        ref = await store.stat(input.artifact_id)
+      } catch (error) {
+        return { content: error instanceof Error ? error.message : String(error), isError: true }
+      }
+      if (!ref) {
+        return { content: `Artifact not found: ${input.artifact_id}`, isError: true }
+      }
+
+      const isText = isTextMediaType(ref.mediaType)
+
+      if (input.byte_offset !== undefined || input.byte_length !== undefined) {
+        const start = input.byte_offset ?? 0
+        const length = Math.min(input.byte_length ?? MAX_BYTE_LENGTH, MAX_BYTE_LENGTH)
+        const bytes = (await store.readBytes(ref.id, start, length)) ?? Buffer.alloc(0)
+        const header = `[Bytes ${start}-${start + bytes.length} of ${ref.size}${isText ? "" : ", base64"}]\n\n`
+        return { content: header + bytes.toString(isText ? "utf-8" : "base64") }
+      }
+
+      if (!isText) {
+        return {
+          content: `Binary artifact: ${ref.id}\nSize: ${ref.size} bytes\nType: ${ref.mediaType}\n\nUse byte_offset/byte_length to read its content as base64.`,
+        }
+      }
+
+      const startLine = Math.max(1, input.offset ?? 1)
+      const result = await store.readLines(ref.id, startLine, input.limit ?? DEFAULT_LINE_LIMIT)
+      if (!result) {
+        return { content: `Artifact not found: ${input.artifact_id}`, isError: true }
+      }
+
+      const endLine = startLine + result.lines.length - 1
+      const padding = String(endLine).length
+      const outputLines = result.lines.map((line, index) => {
+        const text = line.length > MAX_LINE_LENGTH ? line.slice(0, MAX_LINE_LENGTH) + "..." : line
+        return `${String(startLine + index).padStart(padding)}→${text}`
+      })
+
+      let header = ""
+      if (startLine > 1 || endLine < result.total) {
+        header = `[Lines ${startLine}-${endLine} of ${result.total}]\n\n`
+      }
+
+      return { content: header + outputLines.join("\n") }
+    },
+  }
+}
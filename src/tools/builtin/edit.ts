@@ -39,7 +39,7 @@ export function createEditTool(options: BuiltinToolOptions = {}): ToolDefinition
       },
       required: ["file_path", "old_string", "new_string"],
     },
-    execute: async (rawInput: Record<string, unknown>, _context: ToolContext): Promise<ToolOutput> => {
+    execute: async (rawInput: Record<string, unknown>, context: ToolContext): Promise<ToolOutput> => {
       const input = rawInput as unknown as EditInput
       const { file_path, old_string, new_string, replace_all = false } = input
 
@@ -98,6 +98,7 @@ export function createEditTool(options: BuiltinToolOptions = {}): ToolDefinition
         }
 
         // Write back
+        await context.snapshotFile?.(access.resolved)
         await writeFile(access.resolved, newContent, "utf-8")
 
         return {
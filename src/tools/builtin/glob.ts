@@ -102,6 +102,7 @@ export function createGlobTool(options: BuiltinToolOptions = {}): ToolDefinition
       },
       required: ["pattern"],
     },
+    readOnly: true,
     execute: async (rawInput: Record<string, unknown>, _context: ToolContext): Promise<ToolOutput> => {
       const input = rawInput as unknown as GlobInput
       const { pattern, path = defaultCwd } = input
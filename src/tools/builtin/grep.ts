@@ -188,6 +188,7 @@ export function createGrepTool(options: BuiltinToolOptions = {}): ToolDefinition
       },
       required: ["pattern"],
     },
+    readOnly: true,
     execute: async (rawInput: Record<string, unknown>, _context: ToolContext): Promise<ToolOutput> => {
       const input = rawInput as unknown as GrepInput
       const {
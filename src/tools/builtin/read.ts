@@ -53,6 +53,7 @@ export function createReadTool(options: BuiltinToolOptions = {}): ToolDefinition
       },
       required: ["file_path"],
     },
+    readOnly: true,
     execute: async (rawInput: Record<string, unknown>, _context: ToolContext): Promise<ToolOutput> => {
       const input = rawInput as unknown as ReadInput
       const { file_path, offset = 1, limit = DEFAULT_LINE_LIMIT } = input
@@ -184,6 +184,7 @@ export function createWebFetchTool(options: BuiltinToolOptions = {}): ToolDefini
       },
       required: ["url"],
     },
+    readOnly: true,
     execute: async (rawInput: Record<string, unknown>, _context: ToolContext): Promise<ToolOutput> => {
       const input = rawInput as unknown as WebFetchInput
       const { url, prompt } = input
@@ -105,6 +105,7 @@ export function createWebSearchTool(options: BuiltinToolOptions = {}): ToolDefin
       },
       required: ["query"],
     },
+    readOnly: true,
     execute: async (rawInput: Record<string, unknown>, context: ToolContext): Promise<ToolOutput> => {
       const input = rawInput as unknown as WebSearchInput
       const { query, numResults, livecrawl, type, contextMaxCharacters } = input
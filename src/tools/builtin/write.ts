@@ -31,7 +31,7 @@ export function createWriteTool(options: BuiltinToolOptions = {}): ToolDefinitio
       },
       required: ["file_path", "content"],
     },
-    execute: async (rawInput: Record<string, unknown>, _context: ToolContext): Promise<ToolOutput> => {
+    execute: async (rawInput: Record<string, unknown>, context: ToolContext): Promise<ToolOutput> => {
       const input = rawInput as unknown as WriteInput
       const { file_path, content } = input
 
@@ -48,6 +48,7 @@ export function createWriteTool(options: BuiltinToolOptions = {}): ToolDefinitio
         }
 
         // Write file
+        await context.snapshotFile?.(access.resolved)
         await writeFile(access.resolved, content, "utf-8")
 
         const lines = content.split("\n").length
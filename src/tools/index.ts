@@ -93,6 +93,10 @@ export {
 } from "./skill"
 export type { SkillToolConfig } from "./skill"
 
+// ReadArtifact tool
+export { createReadArtifactTool } from "./artifact"
+export type { ReadArtifactInput } from "./artifact"
+
 // Built-in tool types
 export type {
   BuiltinToolContext,
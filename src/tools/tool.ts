@@ -23,6 +23,10 @@ export interface ToolHelperOptions<TInput = Record<string, unknown>> {
   schema: JSONSchema | ZodLikeSchema<TInput>
   /** Tool execution function */
   execute: (input: TInput, context: ToolContext) => Promise<ToolOutput | string>
+  /** Tool has no side effects (implies concurrencySafe unless set) */
+  readOnly?: boolean
+  /** Tool calls may run in parallel with other concurrency-safe calls */
+  concurrencySafe?: boolean
 }
 
 /**
@@ -149,6 +153,8 @@ export function tool<TInput = Record<string, unknown>>(
 
       return result
     },
+    readOnly: options.readOnly,
+    concurrencySafe: options.concurrencySafe,
   }
 }
 
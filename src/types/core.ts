@@ -44,12 +44,50 @@ export interface ToolResultBlock {
   tool_use_id: string
   content: string | ContentBlock[]
   is_error?: boolean
+  /** Artifacts holding output kept out of the history (not sent to the model) */
+  artifacts?: ArtifactRef[]
+}
+
+/**
+ * Reference to content in an artifact store
+ */
+export interface ArtifactRef {
+  /** Content hash ("sha256:<hex>") */
+  id: string
+  /** Media type (e.g. "text/plain", "image/png") */
+  mediaType: string
+  /** Size in bytes */
+  size: number
+  /** Line count (text artifacts only) */
+  lines?: number
+  /** Name given by the tool that produced it */
+  name?: string
+}
+
+/**
+ * Thinking content block (model reasoning, from assistant)
+ *
+ * Kept in the history so providers that require it (Anthropic, during tool
+ * use) get their reasoning back unchanged on the next turn.
+ */
+export interface ThinkingBlock {
+  type: "thinking"
+  /** Reasoning text (may be a summary, depending on the provider) */
+  thinking: string
+  /** Provider signature or encrypted reasoning needed to send the block back */
+  signature?: string
+  /** Set when the provider returned the reasoning encrypted instead of as text */
+  redacted?: boolean
+  /** Provider that produced the block (only that provider is sent it back) */
+  provider?: string
+  /** Provider item ID (OpenAI reasoning items) */
+  id?: string
 }
 
 /**
  * Union type for all content blocks
  */
-export type ContentBlock = TextBlock | ImageBlock | ToolUseBlock | ToolResultBlock
+export type ContentBlock = TextBlock | ImageBlock | ToolUseBlock | ToolResultBlock | ThinkingBlock
 
 // === Message Types (Claude SDK Compatible) ===
 
@@ -113,6 +151,11 @@ export interface UsageInfo {
   output_tokens: number
   cache_creation_input_tokens?: number
   cache_read_input_tokens?: number
+  /** Cache writes by TTL (Anthropic) */
+  cache_creation?: {
+    ephemeral_5m_input_tokens?: number
+    ephemeral_1h_input_tokens?: number
+  }
 }
 
 /**
@@ -120,6 +163,8 @@ export interface UsageInfo {
  */
 export interface ExtendedUsageInfo extends UsageInfo {
   total_cost_usd?: number
+  /** Share of prompt tokens read from the prompt cache (0-1) */
+  cache_hit_rate?: number
 }
 
 // === Model Configuration Types ===
@@ -158,6 +203,31 @@ export interface ModelConfig {
   topK?: number
   /** Stop sequences */
   stopSequences?: string[]
+  /** Extended thinking / reasoning (ignored by models without it) */
+  reasoning?: ReasoningConfig
+  /** Prompt cache breakpoints (Anthropic, default: true) */
+  promptCaching?: boolean | PromptCachingConfig
+}
+
+/**
+ * Prompt caching settings
+ */
+export interface PromptCachingConfig {
+  /** How long cached prefixes live (default: "5m") */
+  ttl?: "5m" | "1h"
+}
+
+/**
+ * Extended thinking / reasoning settings
+ *
+ * Anthropic and Gemini use `budgetTokens`, OpenAI uses `effort`. When only
+ * one is set the other is derived from it.
+ */
+export interface ReasoningConfig {
+  /** Tokens the model may spend thinking */
+  budgetTokens?: number
+  /** Reasoning effort */
+  effort?: "low" | "medium" | "high"
 }
 
 // === Event Types ===
@@ -203,9 +273,11 @@ export interface ContentBlockDeltaEvent extends BaseEvent {
   type: "content_block_delta"
   index: number
   delta: {
-    type: "text_delta" | "input_json_delta"
+    type: "text_delta" | "input_json_delta" | "thinking_delta" | "signature_delta"
     text?: string
     partial_json?: string
+    thinking?: string
+    signature?: string
   }
 }
 
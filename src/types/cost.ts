@@ -17,6 +17,8 @@ export interface ModelPricing {
   outputPricePerMillion: number
   /** Price per 1M cache write tokens (USD) */
   cacheWritePricePerMillion?: number
+  /** Price per 1M cache write tokens with a 1-hour TTL (USD, default: twice the input price) */
+  cacheWrite1hPricePerMillion?: number
   /** Price per 1M cache read tokens (USD) */
   cacheReadPricePerMillion?: number
 }
@@ -70,6 +72,8 @@ export interface AggregatedUsage {
   totalCacheCreationTokens: number
   /** Total cache read tokens */
   totalCacheReadTokens: number
+  /** Share of prompt tokens read from the prompt cache (0-1) */
+  cacheHitRate: number
   /** Total cost (USD) */
   totalCostUsd: number
   /** Number of API calls */
@@ -215,6 +219,24 @@ export const DEFAULT_PRICING: PricingConfig = {
         cacheWritePricePerMillion: 6.25,
         cacheReadPricePerMillion: 0.5,
       },
+      "claude-sonnet-4": {
+        inputPricePerMillion: 3.0,
+        outputPricePerMillion: 15.0,
+        cacheWritePricePerMillion: 3.75,
+        cacheReadPricePerMillion: 0.3,
+      },
+      "claude-opus-4-5": {
+        inputPricePerMillion: 5.0,
+        outputPricePerMillion: 25.0,
+        cacheWritePricePerMillion: 6.25,
+        cacheReadPricePerMillion: 0.5,
+      },
+      "claude-opus-4": {
+        inputPricePerMillion: 15.0,
+        outputPricePerMillion: 75.0,
+        cacheWritePricePerMillion: 18.75,
+        cacheReadPricePerMillion: 1.5,
+      },
     },
     openai: {
       "gpt-4-turbo": {
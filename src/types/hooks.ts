@@ -4,6 +4,7 @@
  */
 
 import type { JSONSchema } from "./core"
+import type { ToolChoice } from "./provider"
 
 // === Hook Event Names ===
 
@@ -17,6 +18,7 @@ export type HookEventName =
   | "Stop"
   | "SubagentStop"
   | "PreCompact"
+  | "TurnStart"
 
 // === Hook Input Types ===
 
@@ -96,6 +98,17 @@ export interface PreCompactHookInput extends HookInputBase {
   custom_instructions?: string
 }
 
+/**
+ * TurnStart hook input (before each model request of the agent loop)
+ */
+export interface TurnStartHookInput extends HookInputBase {
+  hook_event_name: "TurnStart"
+  /** Turn number within the current receive() call (1-based) */
+  turn: number
+  /** Names of the tools sent with the request */
+  tool_names: string[]
+}
+
 /**
  * Union type for all hook inputs
  */
@@ -106,6 +119,7 @@ export type HookInput =
   | StopHookInput
   | SubagentStopHookInput
   | PreCompactHookInput
+  | TurnStartHookInput
 
 // === Hook Output Types ===
 
@@ -166,6 +180,17 @@ export interface PreCompactHookOutput {
   hookEventName: "PreCompact"
 }
 
+/**
+ * TurnStart specific output
+ */
+export interface TurnStartHookOutput {
+  hookEventName: "TurnStart"
+  /** Tool choice for this turn's request */
+  toolChoice?: ToolChoice
+  /** Allow several tool calls in this turn's response */
+  parallelToolCalls?: boolean
+}
+
 /**
  * Union type for hook-specific outputs
  */
@@ -176,6 +201,7 @@ export type HookSpecificOutput =
   | StopHookOutput
   | SubagentStopHookOutput
   | PreCompactHookOutput
+  | TurnStartHookOutput
 
 /**
  * Hook callback return type
@@ -246,6 +272,8 @@ export interface HooksConfig {
   SubagentStop?: HookMatcher[]
   /** Pre-compaction hooks */
   PreCompact?: HookMatcher[]
+  /** Turn start hooks (before each model request) */
+  TurnStart?: HookMatcher[]
 }
 
 // === Structured Output Types ===
@@ -12,6 +12,7 @@ import type {
   ContentBlock,
 } from "./core"
 import type { ToolDefinition } from "./tool"
+import type { OutputFormat } from "./hooks"
 
 // === Provider Request Types ===
 
@@ -27,10 +28,26 @@ export interface LLMRequest {
   config: ModelConfig
   /** System prompt (if not in messages) */
   systemPrompt?: string
+  /** Native structured output format (only set when the provider supports it) */
+  outputFormat?: OutputFormat
+  /** Which tools the model may or must call (default: "auto") */
+  toolChoice?: ToolChoice
+  /** Allow several tool calls in one response (default: provider default, usually true) */
+  parallelToolCalls?: boolean
   /** Abort signal for cancellation */
   abortSignal?: AbortSignal
 }
 
+/**
+ * Which tools the model may or must call
+ *
+ * - `"auto"`: the model decides
+ * - `"none"`: no tool calls
+ * - `"any"`: at least one tool call
+ * - `{ name }`: a call to this tool
+ */
+export type ToolChoice = "auto" | "none" | "any" | { name: string }
+
 /**
  * Streaming request options
  */
@@ -39,6 +56,8 @@ export interface StreamOptions {
   onEvent?: (event: StreamEvent) => void | Promise<void>
   /** Callback for text chunks */
   onText?: (text: string) => void | Promise<void>
+  /** Callback for thinking chunks */
+  onThinking?: (thinking: string) => void | Promise<void>
   /** Callback for tool use */
   onToolUse?: (toolUse: { id: string; name: string; input: Record<string, unknown> }) => void | Promise<void>
 }
@@ -90,6 +109,13 @@ export interface LLMProvider {
    */
   supportsModel(model: string): boolean
 
+  /**
+   * Check if the provider can enforce an output JSON schema natively for a request
+   * (providers without this method get a synthetic final-answer tool instead)
+   * @param request - LLM request the output format would be added to
+   */
+  supportsOutputFormat?(request: LLMRequest): boolean
+
   /**
    * Send a non-streaming request
    * @param request - LLM request
@@ -177,7 +203,7 @@ export interface AnthropicRequest {
   messages: Array<{
     role: "user" | "assistant"
     content: string | Array<{
-      type: "text" | "image" | "tool_use" | "tool_result"
+      type: "text" | "image" | "tool_use" | "tool_result" | "thinking" | "redacted_thinking"
       text?: string
       source?: { type: "base64"; media_type: string; data: string }
       id?: string
@@ -186,10 +212,15 @@ export interface AnthropicRequest {
       tool_use_id?: string
       content?: string | Array<{ type: "text"; text: string }>
       is_error?: boolean
+      thinking?: string
+      signature?: string
+      data?: string
+      cache_control?: AnthropicCacheControl
     }>
   }>
-  system?: string
+  system?: string | Array<{ type: "text"; text: string; cache_control?: AnthropicCacheControl }>
   max_tokens: number
+  thinking?: { type: "enabled"; budget_tokens: number }
   temperature?: number
   top_p?: number
   top_k?: number
@@ -199,7 +230,21 @@ export interface AnthropicRequest {
     name: string
     description: string
     input_schema: Record<string, unknown>
+    cache_control?: AnthropicCacheControl
   }>
+  tool_choice?: {
+    type: "auto" | "any" | "none" | "tool"
+    name?: string
+    disable_parallel_tool_use?: boolean
+  }
+}
+
+/**
+ * Anthropic prompt cache breakpoint
+ */
+export interface AnthropicCacheControl {
+  type: "ephemeral"
+  ttl?: "5m" | "1h"
 }
 
 /**
@@ -210,11 +255,14 @@ export interface AnthropicResponse {
   type: "message"
   role: "assistant"
   content: Array<{
-    type: "text" | "tool_use"
+    type: "text" | "tool_use" | "thinking" | "redacted_thinking"
     text?: string
     id?: string
     name?: string
     input?: Record<string, unknown>
+    thinking?: string
+    signature?: string
+    data?: string
   }>
   model: string
   stop_reason: string
@@ -224,6 +272,10 @@ export interface AnthropicResponse {
     output_tokens: number
     cache_creation_input_tokens?: number
     cache_read_input_tokens?: number
+    cache_creation?: {
+      ephemeral_5m_input_tokens?: number
+      ephemeral_1h_input_tokens?: number
+    }
   }
 }
 
@@ -251,6 +303,7 @@ export interface OpenAIRequest {
   }>
   max_tokens?: number
   max_completion_tokens?: number
+  reasoning_effort?: "low" | "medium" | "high"
   temperature?: number
   top_p?: number
   stop?: string[]
@@ -258,6 +311,10 @@ export interface OpenAIRequest {
   stream_options?: {
     include_usage?: boolean
   }
+  response_format?: {
+    type: "json_schema"
+    json_schema: { name: string; schema: Record<string, unknown>; strict?: boolean }
+  }
   tools?: Array<{
     type: "function"
     function: {
@@ -266,6 +323,8 @@ export interface OpenAIRequest {
       parameters: Record<string, unknown>
     }
   }>
+  tool_choice?: "auto" | "none" | "required" | { type: "function"; function: { name: string } }
+  parallel_tool_calls?: boolean
 }
 
 /**
@@ -5,6 +5,7 @@
 
 import type { SDKMessage, ExtendedUsageInfo, ContentBlock } from "./core"
 import type { SessionConfig } from "./session"
+import type { AggregatedUsage } from "./cost"
 
 // === Query Input Types ===
 
@@ -106,6 +107,17 @@ export interface QueryComplete {
   stop_reason: string
 }
 
+/**
+ * Structured output result
+ */
+export interface QueryStructuredResult {
+  type: "result"
+  subtype: "success" | "error_max_structured_output_retries"
+  structured_output?: Record<string, unknown>
+  error?: string
+  session_id: string
+}
+
 /**
  * Query error output
  */
@@ -124,6 +136,7 @@ export type QueryOutput =
   | QueryToolUse
   | QueryToolResult
   | QueryComplete
+  | QueryStructuredResult
   | QueryError
 
 // === Query Result ===
@@ -142,6 +155,10 @@ export interface QueryResult {
   usage: ExtendedUsageInfo
   /** Stop reason */
   stopReason: string
+  /** Validated structured output (when outputFormat is set and validation succeeded) */
+  structuredOutput?: Record<string, unknown>
+  /** Cost breakdown (when trackCost is enabled) */
+  cost?: AggregatedUsage
 }
 
 // === Prompt Function Types ===
@@ -166,4 +183,6 @@ export interface PromptResult {
   usage: ExtendedUsageInfo
   /** Session ID */
   sessionId: string
+  /** Validated structured output (when outputFormat is set and validation succeeded) */
+  structuredOutput?: Record<string, unknown>
 }
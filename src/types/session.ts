@@ -10,12 +10,16 @@ import type {
   ExtendedUsageInfo,
   AsyncDisposable,
   ContentBlock,
+  ArtifactRef,
 } from "./core"
 import type { ToolDefinition } from "./tool"
 import type { SkillDefinition } from "./skill"
 import type { SystemPromptConfig } from "./prompt"
-import type { LLMProvider } from "./provider"
+import type { LLMProvider, ToolChoice } from "./provider"
 import type { HooksConfig, OutputFormat } from "./hooks"
+import type { AggregatedUsage, PricingConfig } from "./cost"
+import type { CompactionConfig } from "../session/compaction"
+import type { ArtifactStore } from "../session/artifacts"
 
 // === Session Configuration ===
 
@@ -33,22 +37,81 @@ export interface SessionConfig {
   skills?: string[] | SkillDefinition[]
   /** Maximum turns before stopping */
   maxTurns?: number
+  /** Maximum concurrency-safe tool calls run in parallel (default: 10, 1 disables) */
+  maxConcurrentTools?: number
   /** Allowed tools (filter from registered tools) */
   allowedTools?: string[] | { allow?: string[]; deny?: string[] }
+  /** Which tools the model may or must call, or a function choosing per turn (default: "auto") */
+  toolChoice?: ToolChoice | ((turn: number) => ToolChoice | undefined)
+  /** Allow several tool calls in one response (default: the provider's default) */
+  parallelToolCalls?: boolean
   /** Session storage for persistence */
   storage?: SessionStorage
+  /** Save to `storage` during runs (disabled when omitted) */
+  autosave?: AutosavePolicy | AutosaveConfig
+  /** Fill in `metadata.title` and a rolling `metadata.summary` in the background (default: false) */
+  autoTitle?: boolean | AutoTitleConfig
+  /** Attach without writing: `send()` throws and nothing is saved (default: false) */
+  readOnly?: boolean
   /** Working directory for file operations */
   cwd?: string
   /** Temp directory for truncated output files (defaults to system temp) */
   tempDir?: string
+  /** Keep large and binary tool outputs as artifacts (adds the ReadArtifact tool) */
+  artifactStore?: ArtifactStore
   /** Enable cost tracking */
   trackCost?: boolean
+  /** Model pricing used for cost tracking and budgets (defaults to DEFAULT_PRICING) */
+  pricing?: PricingConfig
+  /** Stop with "budget_exceeded" once the session has spent this much (USD) */
+  maxBudgetUsd?: number
+  /** Stop with "budget_exceeded" once input + output tokens reach this total */
+  maxTotalTokens?: number
+  /** Stop with "budget_exceeded" instead of running more than this many tool calls */
+  maxToolCalls?: number
   /** Hooks configuration for intercepting agent behavior */
   hooks?: HooksConfig
   /** Output format for structured outputs */
   outputFormat?: OutputFormat
+  /** Re-prompts allowed when the output does not match the schema (default: 3) */
+  maxStructuredOutputRetries?: number
   /** Skill source paths (absolute paths to skill directories) */
   settingSources?: string[]
+  /** Automatic context compaction (disabled when omitted) */
+  compaction?: CompactionConfig
+}
+
+/**
+ * When autosave writes the session
+ *
+ * - `assistant_message`: after each assistant message
+ * - `tool_result`: after each batch of tool results is added
+ * - `debounced`: once per `debounceMs` while the history changes
+ *
+ * Every policy also saves when a run stops and when the session closes.
+ */
+export type AutosavePolicy = "assistant_message" | "tool_result" | "debounced"
+
+/**
+ * Autosave configuration
+ */
+export interface AutosaveConfig {
+  /** When to save */
+  policy: AutosavePolicy
+  /** Delay before a debounced save (default: 1000) */
+  debounceMs?: number
+}
+
+/**
+ * Automatic title and summary configuration
+ */
+export interface AutoTitleConfig {
+  /** Model for title and summary calls, ideally a small one (default: the session's model) */
+  model?: string
+  /** Keep a rolling `metadata.summary` (default: true) */
+  summary?: boolean
+  /** Completed runs between summary updates (default: 5) */
+  summaryInterval?: number
 }
 
 /**
@@ -73,6 +136,8 @@ export interface CreateSessionOptions extends SessionConfig {
 export interface SessionState {
   /** Unique session identifier */
   id: string
+  /** Schema version of the persisted record (set by storages; 0 when missing) */
+  schemaVersion?: number
   /** Conversation messages */
   messages: SDKMessage[]
   /** Accumulated usage statistics */
@@ -85,6 +150,135 @@ export interface SessionState {
   updatedAt: number
   /** Parent session ID (if forked) */
   parentId?: string
+  /** Number of leading messages shared with the parent session (if forked) */
+  forkIndex?: number
+  /** File contents recorded before Write/Edit changes (used by rewind) */
+  fileSnapshots?: FileSnapshot[]
+  /** Files holding the full text of truncated tool outputs */
+  outputFiles?: string[]
+  /** IDs of artifacts referenced by tool results */
+  artifacts?: string[]
+  /** Conversation tree, keyed by branch name (absent until a branch is created) */
+  branches?: Record<string, ConversationBranch>
+  /** Branch that `messages` follows */
+  activeBranch?: string
+}
+
+/**
+ * File contents recorded before a tool changed the file
+ */
+export interface FileSnapshot {
+  /** User message (checkpoint) whose turn made the change */
+  messageId: string
+  /** Tool call that changed the file */
+  toolUseId: string
+  /** Absolute file path */
+  path: string
+  /** Contents before the change (null if the file did not exist) */
+  content: string | null
+  /** Snapshot timestamp */
+  timestamp: number
+}
+
+// === Rewind ===
+
+/**
+ * A user prompt the conversation can be rewound to
+ */
+export interface Checkpoint {
+  /** User message ID */
+  messageId: string
+  /** Prompt text */
+  prompt: string
+  /** Files changed by Write/Edit since this prompt */
+  files: string[]
+}
+
+/**
+ * Options for session.rewind()
+ */
+export interface RewindOptions {
+  /** Restore files changed by Write/Edit since the checkpoint (default: false) */
+  restoreFiles?: boolean
+}
+
+/**
+ * Result of session.rewind()
+ */
+export interface RewindResult {
+  /** Number of messages removed from the history */
+  removedMessages: number
+  /** Files restored to their contents at the checkpoint */
+  restoredFiles: string[]
+}
+
+// === Branches ===
+
+/**
+ * A branch of the conversation tree
+ *
+ * Messages up to the fork point are shared with the parent branch and only
+ * stored there.
+ */
+export interface ConversationBranch {
+  /** Branch this one was created from (unset for root branches) */
+  parent?: string
+  /** Number of leading parent messages shared with this branch */
+  forkIndex: number
+  /** Messages after the fork point */
+  messages: SDKMessage[]
+  /** Creation timestamp */
+  createdAt: number
+}
+
+/**
+ * Summary of a branch returned by session.getBranches()
+ */
+export interface BranchInfo {
+  /** Branch name */
+  name: string
+  /** Branch this one was created from */
+  parent?: string
+  /** Number of messages shared with the parent branch */
+  forkIndex: number
+  /** Total number of messages on the branch */
+  messageCount: number
+  /** Whether this is the active branch */
+  active: boolean
+  /** Creation timestamp */
+  createdAt: number
+}
+
+/**
+ * Options for session.createBranch()
+ */
+export interface CreateBranchOptions {
+  /** Last message of the active branch to keep (default: all messages) */
+  fromMessageId?: string
+  /** Make the new branch active (default: false) */
+  switch?: boolean
+}
+
+/**
+ * Result of session.diffBranches()
+ */
+export interface BranchDiff {
+  /** Number of leading messages both branches share */
+  commonMessages: number
+  /** Messages only on the first branch */
+  onlyInA: SDKMessage[]
+  /** Messages only on the second branch */
+  onlyInB: SDKMessage[]
+}
+
+/**
+ * Options for session.mergeBranch()
+ */
+export interface MergeBranchOptions {
+  /** Summary to add (default: ask the model to summarize the branch) */
+  summary?: string
+  /** Abort signal for the summary request */
+  abortSignal?: AbortSignal
 }
 
 // === Session Interface ===
@@ -123,6 +317,15 @@ export interface TextEvent {
   text: string
 }
 
+/**
+ * Thinking event yielded by session.receive() as the model's reasoning
+ * streams (the full block is in the assistant message)
+ */
+export interface ThinkingEvent {
+  type: "thinking"
+  thinking: string
+}
+
 /**
  * Tool use event yielded by session.receive()
  */
@@ -141,6 +344,8 @@ export interface ToolResultEvent {
   tool_use_id: string
   content: string | ContentBlock[]
   is_error?: boolean
+  /** Artifacts stored for this result */
+  artifacts?: ArtifactRef[]
 }
 
 /**
@@ -150,6 +355,10 @@ export interface StopEvent {
   type: "stop"
   stop_reason: string
   usage: ExtendedUsageInfo
+  /** Reason given by a hook that blocked the prompt or ended the run */
+  reason?: string
+  /** Total session cost in USD (when trackCost is enabled) */
+  total_cost_usd?: number
 }
 
 /**
@@ -164,6 +373,46 @@ export interface ResultEvent {
   error?: string
 }
 
+/**
+ * Turn start event yielded before each model request of the agent loop
+ */
+export interface TurnStartEvent {
+  type: "turn_start"
+  /** Turn number within the current receive() call (1-based) */
+  turn: number
+}
+
+/**
+ * Compact event yielded after the conversation history was compacted
+ */
+export interface CompactEvent {
+  type: "compact"
+  /** What triggered the compaction */
+  trigger: "manual" | "auto"
+  /** Estimated conversation tokens before compaction */
+  tokens_before: number
+  /** Estimated conversation tokens after compaction */
+  tokens_after: number
+  /**
+   * Set when the summary request failed; the history was then only pruned
+   * and the turn continues
+   */
+  error?: Error
+}
+
+/**
+ * Persisted event yielded after autosave wrote the session
+ */
+export interface PersistedEvent {
+  type: "persisted"
+  /** What caused the save ("metadata" after a background title or summary update) */
+  trigger: AutosavePolicy | "stop" | "close" | "metadata"
+  /** Number of messages saved */
+  message_count: number
+  /** Set when the save failed (the next save retries) */
+  error?: Error
+}
+
 /**
  * Error event yielded on errors
  */
@@ -178,10 +427,14 @@ export interface SessionErrorEvent {
 export type SessionEvent =
   | MessageEvent
   | TextEvent
+  | ThinkingEvent
   | ToolUseEvent
   | ToolResultEvent
   | StopEvent
   | ResultEvent
+  | TurnStartEvent
+  | CompactEvent
+  | PersistedEvent
   | SessionErrorEvent
 
 /**
@@ -209,16 +462,99 @@ export interface Session extends AsyncDisposable {
    */
   receive(options?: ReceiveOptions): AsyncGenerator<SessionEvent, void, unknown>
 
+  /**
+   * Add a user message to a running receive() without waiting for it to end
+   *
+   * The message is merged into the next model request, after the current
+   * tool results. UserPromptSubmit hooks run on it first, as for a new
+   * prompt; a blocked message is dropped. When nothing is running this
+   * behaves like send().
+   * @param message - User message (string or structured)
+   */
+  steer(message: string | SDKMessage): Promise<void>
+
+  /**
+   * Stop the current turn, keeping the partial history
+   *
+   * receive() finishes with a stop event whose stop_reason is "interrupted".
+   * Tool calls that had not started get an error result.
+   */
+  interrupt(): void
+
   /**
    * Get conversation history
    */
   getMessages(): SDKMessage[]
 
+  /**
+   * Get the user prompts the conversation can be rewound to (oldest first)
+   */
+  getCheckpoints(): Checkpoint[]
+
+  /**
+   * Cut the history back to before a user prompt
+   *
+   * The prompt and everything after it are removed. With `restoreFiles`,
+   * files changed by Write/Edit since then get their earlier contents back.
+   * @param messageId - ID of a checkpoint user message
+   * @param options - Rewind options
+   */
+  rewind(messageId: string, options?: RewindOptions): Promise<RewindResult>
+
+  /**
+   * List the branches of the conversation tree
+   *
+   * Sessions start with a single "main" branch.
+   */
+  getBranches(): BranchInfo[]
+
+  /**
+   * Get the name of the active branch
+   */
+  getActiveBranch(): string
+
+  /**
+   * Create a branch from the active branch
+   *
+   * The new branch shares the history up to `fromMessageId` (or all of it).
+   * @param name - New branch name
+   * @param options - Branch options
+   */
+  createBranch(name: string, options?: CreateBranchOptions): BranchInfo
+
+  /**
+   * Make another branch active; the history switches to that branch
+   * @param name - Branch name
+   */
+  switchBranch(name: string): void
+
+  /**
+   * Compare two branches
+   * @param a - First branch name
+   * @param b - Second branch name (default: the active branch)
+   */
+  diffBranches(a: string, b?: string): BranchDiff
+
+  /**
+   * Add a summary of another branch's work to the active branch
+   *
+   * Only messages after the point where the branches diverge are summarized.
+   * @param name - Branch to summarize
+   * @param options - Merge options
+   * @returns The summary text
+   */
+  mergeBranch(name: string, options?: MergeBranchOptions): Promise<string>
+
   /**
    * Get accumulated usage statistics
    */
   getUsage(): ExtendedUsageInfo
 
+  /**
+   * Get the cost breakdown for this session (undefined unless trackCost is enabled)
+   */
+  getCost(): AggregatedUsage | undefined
+
   /**
    * Close the session and release resources
    */
@@ -254,6 +590,146 @@ export interface SessionStorage {
    * List all stored session IDs
    */
   list(): Promise<string[]>
+
+  /**
+   * Release resources held for a session, such as write locks (optional)
+   * @param sessionId - Session ID that is no longer in use
+   */
+  release?(sessionId: string): Promise<void>
+
+  /**
+   * Claim a session for writing (optional)
+   *
+   * Fails with `SessionLockedError` while another process or storage
+   * instance holds the session.
+   *
+   * @param sessionId - Session ID to claim
+   */
+  lock?(sessionId: string): Promise<SessionLease>
+
+  /**
+   * Bytes a session takes in storage (optional; pruning otherwise uses its serialized size)
+   * @param sessionId - Session ID
+   */
+  sizeOf?(sessionId: string): Promise<number | undefined>
+
+  /**
+   * Delete sessions outside a retention policy (optional)
+   * @param policy - Policy to apply (defaults to the storage's configured policy)
+   * @param options - Prune options
+   */
+  prune?(policy?: RetentionPolicy, options?: PruneOptions): Promise<PruneResult>
+}
+
+/**
+ * A claim on a session, held by the process writing it
+ */
+export interface SessionLease {
+  /** Claimed session */
+  sessionId: string
+  /** Give up the claim */
+  release(): Promise<void>
+}
+
+/**
+ * Which stored sessions to keep when pruning
+ *
+ * Sessions with `metadata.pinned === true` or listed in `pinned` are never
+ * deleted and do not count toward `maxCount` or `maxTotalBytes`.
+ */
+export interface RetentionPolicy {
+  /** Delete sessions not updated for this many milliseconds */
+  maxAgeMs?: number
+  /** Keep at most this many sessions (most recently updated first) */
+  maxCount?: number
+  /** Keep the most recently updated sessions up to this total size in bytes */
+  maxTotalBytes?: number
+  /** Session IDs that are never deleted */
+  pinned?: string[]
+}
+
+/**
+ * Options for pruning a session storage
+ */
+export interface PruneOptions {
+  /** Report what would be deleted without deleting anything */
+  dryRun?: boolean
+  /** Directory of truncated tool outputs to sweep (default: the truncation temp directory) */
+  tempDir?: string
+  /** Current time used for age checks (default: `Date.now()`) */
+  now?: number
+  /** Artifact store to remove deleted sessions' artifacts from */
+  artifactStore?: ArtifactStore
+}
+
+/**
+ * Result of pruning a session storage
+ */
+export interface PruneResult {
+  /** Deleted session IDs (or the ones that would be deleted in a dry run) */
+  deleted: string[]
+  /** Number of sessions kept */
+  kept: number
+  /** Size of the deleted sessions in bytes (see `SessionStorage.sizeOf`) */
+  freedBytes: number
+  /** Truncated output files removed */
+  removedOutputFiles: number
+  /** Number of artifacts removed (when an artifact store was given) */
+  removedArtifacts: number
+  /** Sessions that could not be read or deleted */
+  failed: Array<{ id: string; error: string }>
+}
+
+/**
+ * Filters for querying stored sessions (SqliteSessionStorage.query())
+ */
+export interface SessionQuery {
+  /** Only sessions created at or after this timestamp */
+  createdAfter?: number
+  /** Only sessions created before this timestamp */
+  createdBefore?: number
+  /** Only sessions updated at or after this timestamp */
+  updatedAfter?: number
+  /** Only sessions updated before this timestamp */
+  updatedBefore?: number
+  /** Only sessions forked from this session */
+  parentId?: string
+  /** Only sessions whose metadata has all of these values */
+  metadata?: Record<string, unknown>
+  /** Only sessions that called this tool */
+  toolName?: string
+  /** Full-text search over message text */
+  search?: string
+  /** Sort field (default: "updatedAt") */
+  orderBy?: "createdAt" | "updatedAt"
+  /** Sort direction (default: "desc") */
+  order?: "asc" | "desc"
+  /** Maximum number of results */
+  limit?: number
+  /** Number of results to skip */
+  offset?: number
+}
+
+/**
+ * Stored session returned by a query, without its messages
+ */
+export interface SessionSummary {
+  /** Session ID */
+  id: string
+  /** Parent session ID (if forked) */
+  parentId?: string
+  /** Session metadata */
+  metadata: Record<string, unknown>
+  /** Title from `metadata.title` */
+  title?: string
+  /** Summary from `metadata.summary` */
+  summary?: string
+  /** Number of messages */
+  messageCount: number
+  /** Creation timestamp */
+  createdAt: number
+  /** Last update timestamp */
+  updatedAt: number
 }
 
 // === Session Manager ===
@@ -20,6 +20,10 @@ export interface ToolDefinition<TInput = Record<string, unknown>, TOutput = Tool
   inputSchema: JSONSchema
   /** Tool execution function */
   execute: (input: TInput, context: ToolContext) => Promise<TOutput>
+  /** Tool has no side effects (implies concurrencySafe unless set) */
+  readOnly?: boolean
+  /** Tool calls may run in parallel with other concurrency-safe calls */
+  concurrencySafe?: boolean
 }
 
 /**
@@ -36,6 +40,8 @@ export interface ToolContext {
   reportProgress?: (progress: number) => void
   /** Emit custom metadata */
   emitMetadata?: (data: Record<string, unknown>) => void
+  /** Record a file's contents before the tool modifies it (enables rewind) */
+  snapshotFile?: (filePath: string) => Promise<void>
 }
 
 /**
@@ -48,6 +54,20 @@ export interface ToolOutput {
   isError?: boolean
   /** Additional metadata */
   metadata?: Record<string, unknown>
+  /** Files or binary results to keep in the session's artifact store instead of the history */
+  artifacts?: ToolArtifact[]
+}
+
+/**
+ * Content a tool hands to the artifact store
+ */
+export interface ToolArtifact {
+  /** Raw bytes, or text */
+  data: Uint8Array | string
+  /** Media type (e.g. "application/pdf") */
+  mediaType: string
+  /** Display name (e.g. a file name) */
+  name?: string
 }
 
 // === Tool Helper Types ===
@@ -64,6 +84,10 @@ export interface ToolOptions<TInput> {
   schema: JSONSchema | ZodLikeSchema<TInput>
   /** Execution function */
   execute: (input: TInput, context: ToolContext) => Promise<ToolOutput | string>
+  /** Tool has no side effects */
+  readOnly?: boolean
+  /** Tool calls may run in parallel with other concurrency-safe calls */
+  concurrencySafe?: boolean
 }
 
 /**
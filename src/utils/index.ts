@@ -41,3 +41,6 @@ export { loadEnvOverride, getProviderEnv } from "./env"
 // Retry utilities
 export { withRetry, fetchWithRetry, getRetryOptionsFromEnv } from "./retry"
 export type { RetryOptions } from "./retry"
+
+// JSON Schema validation
+export { validateJsonSchema } from "./schema"
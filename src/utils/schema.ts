@@ -0,0 +1,127 @@
+/**
+ * JSON Schema validation utilities
+ * @module formagent-sdk/utils/schema
+ */
+
+import type { JSONSchema } from "../types/core"
+
+/**
+ * Get the JSON type name of a value
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number"
+  return typeof value
+}
+
+/**
+ * Check a value against a single JSON Schema type name
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonTypeOf(value)
+  if (type === "number") return actual === "number" || actual === "integer"
+  return actual === type
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * Supports the subset of JSON Schema used for tool inputs and structured
+ * outputs: type, enum, const, properties, required, additionalProperties,
+ * items, anyOf/oneOf, and length/range constraints.
+ *
+ * @param value - Value to validate
+ * @param schema - JSON Schema to validate against
+ * @param path - Path of the value (used in error messages)
+ * @returns List of validation errors (empty when valid)
+ *
+ * @example
+ * ```ts
+ * validateJsonSchema({ name: 1 }, {
+ *   type: "object",
+ *   properties: { name: { type: "string" } },
+ *   required: ["name"],
+ * })
+ * // ["$.name: expected string, got integer"]
+ * ```
+ */
+export function validateJsonSchema(value: unknown, schema: JSONSchema, path: string = "$"): string[] {
+  const errors: string[] = []
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type]
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${path}: expected ${types.join(" | ")}, got ${jsonTypeOf(value)}`)
+      return errors
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}`)
+  }
+
+  if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`)
+  }
+
+  const variants = (schema.anyOf ?? schema.oneOf) as JSONSchema[] | undefined
+  if (Array.isArray(variants) && !variants.some((v) => validateJsonSchema(value, v, path).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema`)
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`)
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`)
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`)
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`)
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`)
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`))
+      })
+    }
+  }
+
+  if (jsonTypeOf(value) === "object") {
+    const record = value as Record<string, unknown>
+    const properties = schema.properties ?? {}
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: is required`)
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(record)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propValue, properties[key], `${path}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`)
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(propValue, schema.additionalProperties as JSONSchema, `${path}.${key}`))
+      }
+    }
+  }
+
+  return errors
+}
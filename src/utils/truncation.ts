@@ -22,6 +22,8 @@ export interface TruncationConfig {
   saveToFile?: boolean
   /** Custom temp directory (default: system temp) */
   tempDir?: string
+  /** Note appended to truncated content (default: where the full output was saved) */
+  hint?: string
 }
 
 /**
@@ -80,12 +82,32 @@ async function ensureTempDir(dir: string): Promise<void> {
   }
 }
 
+/**
+ * Save full output text to a new file in the truncation temp directory
+ *
+ * @param text - Content to save
+ * @param config - Truncation configuration (for the temp directory)
+ * @returns Path of the new file
+ */
+export async function saveOutputFile(text: string, config?: TruncationConfig): Promise<string> {
+  const dir = getTempDir(config)
+  await ensureTempDir(dir)
+  const outputPath = path.join(dir, generateOutputFilename())
+  await fs.writeFile(outputPath, text, "utf-8")
+  return outputPath
+}
+
 /**
  * Cleanup old truncated output files
+ *
+ * @param config - Truncation configuration (for the temp directory)
+ * @param keep - Paths that must not be removed, such as files still referenced by sessions
+ * @returns Number of files removed
  */
-export async function cleanupTruncatedOutputs(config?: TruncationConfig): Promise<number> {
+export async function cleanupTruncatedOutputs(config?: TruncationConfig, keep?: Iterable<string>): Promise<number> {
   const dir = getTempDir(config)
   const cutoff = Date.now() - TRUNCATION_DEFAULTS.RETENTION_MS
+  const kept = new Set(Array.from(keep ?? [], (p) => path.resolve(p)))
 
   let cleaned = 0
 
@@ -100,7 +122,7 @@ export async function cleanupTruncatedOutputs(config?: TruncationConfig): Promis
       if (!match) continue
 
       const timestamp = parseInt(match[1], 10)
-      if (timestamp < cutoff) {
+      if (timestamp < cutoff && !kept.has(path.resolve(dir, file))) {
         try {
           await fs.unlink(path.join(dir, file))
           cleaned++
@@ -193,16 +215,13 @@ export async function truncateOutput(
   // Save full content to file if enabled
   let outputPath: string | undefined
   if (saveToFile) {
-    const dir = getTempDir(config)
-    await ensureTempDir(dir)
-    outputPath = path.join(dir, generateOutputFilename())
-    await fs.writeFile(outputPath, text, "utf-8")
+    outputPath = await saveOutputFile(text, config)
   }
 
   // Build truncated message
-  const hint = outputPath
+  const hint = config.hint ?? (outputPath
     ? `Full output saved to: ${outputPath}\nUse Read tool with offset/limit to view specific sections, or Grep to search the content.`
-    : "Output was truncated. Consider using more specific queries."
+    : "Output was truncated. Consider using more specific queries.")
 
   const message =
     direction === "head"
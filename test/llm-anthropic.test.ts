@@ -0,0 +1,108 @@
+/**
+ * Anthropic Provider Tests
+ *
+ * Tests for how AnthropicProvider maps SDK requests to the Anthropic API.
+ */
+
+import { describe, expect, it } from "bun:test"
+import { AnthropicProvider } from "../src/llm/anthropic"
+
+/**
+ * A history with thinking blocks from every provider
+ */
+const thinkingHistory: any[] = [
+  { role: "user", content: "Hi" },
+  {
+    role: "assistant",
+    content: [
+      { type: "thinking", thinking: "Anthropic thought", signature: "a-sig", provider: "anthropic" },
+      { type: "thinking", thinking: "", signature: "a-redacted", redacted: true, provider: "anthropic" },
+      { type: "thinking", thinking: "OpenAI summary", signature: "o-enc", provider: "openai", id: "rs_1" },
+      { type: "thinking", thinking: "Gemini thought", signature: "g-sig", provider: "gemini" },
+      { type: "text", text: "Hello" },
+    ],
+  },
+]
+
+/**
+ * A request offering one tool
+ */
+const toolRequest: any = {
+  messages: [{ role: "user", content: "Hi" }],
+  tools: [{ name: "Lookup", description: "Look something up", inputSchema: { type: "object", properties: {} } }],
+  config: { model: "model", promptCaching: false },
+}
+
+describe("AnthropicProvider", () => {
+  describe("thinking", () => {
+    it("should enable extended thinking and send back its own thinking blocks", () => {
+      const built = (new AnthropicProvider({ apiKey: "test" }) as any).buildRequest(
+        { messages: thinkingHistory, config: { model: "claude-sonnet-4", maxTokens: 2000, temperature: 0.5, reasoning: { budgetTokens: 4000 } } },
+        false
+      )
+      expect(built.thinking).toEqual({ type: "enabled", budget_tokens: 4000 })
+      expect(built.max_tokens).toBe(6000)
+      expect(built.temperature).toBeUndefined()
+      expect(built.messages[1].content).toEqual([
+        { type: "thinking", thinking: "Anthropic thought", signature: "a-sig" },
+        { type: "redacted_thinking", data: "a-redacted" },
+        { type: "text", text: "Hello", cache_control: { type: "ephemeral" } },
+      ])
+    })
+  })
+
+  describe("prompt caching", () => {
+    const request: any = {
+      messages: [
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: [{ type: "text", text: "Hello" }] },
+        { role: "user", content: "Read the file" },
+      ],
+      systemPrompt: "You are helpful.",
+      tools: [
+        { name: "Read", description: "Read a file", inputSchema: { type: "object" } },
+        { name: "Write", description: "Write a file", inputSchema: { type: "object" } },
+      ],
+      config: { model: "claude-sonnet-4" },
+    }
+    const provider = new AnthropicProvider({ apiKey: "test" }) as any
+
+    it("should mark the tools, the system prompt and the last message as breakpoints", () => {
+      const built = provider.buildRequest(request, false)
+
+      expect(built.tools[0].cache_control).toBeUndefined()
+      expect(built.tools[1].cache_control).toEqual({ type: "ephemeral" })
+      expect(built.system).toEqual([{ type: "text", text: "You are helpful.", cache_control: { type: "ephemeral" } }])
+      expect(built.messages[1].content[0].cache_control).toBeUndefined()
+      expect(built.messages[2].content).toEqual([
+        { type: "text", text: "Read the file", cache_control: { type: "ephemeral" } },
+      ])
+    })
+
+    it("should use the configured TTL or leave caching off", () => {
+      const withTtl = provider.buildRequest({ ...request, config: { model: "claude-sonnet-4", promptCaching: { ttl: "1h" } } }, false)
+      expect(withTtl.tools[1].cache_control).toEqual({ type: "ephemeral", ttl: "1h" })
+
+      const disabled = provider.buildRequest({ ...request, config: { model: "claude-sonnet-4", promptCaching: false } }, false)
+      expect(disabled.system).toBe("You are helpful.")
+      expect(JSON.stringify(disabled)).not.toContain("cache_control")
+    })
+  })
+
+  describe("tool choice", () => {
+    const provider = new AnthropicProvider({ apiKey: "test" }) as any
+
+    it("should map tool choice and parallel tool calls", () => {
+      expect(provider.buildRequest({ ...toolRequest, toolChoice: { name: "Lookup" }, parallelToolCalls: false }, false).tool_choice).toEqual({
+        type: "tool",
+        name: "Lookup",
+        disable_parallel_tool_use: true,
+      })
+      expect(provider.buildRequest({ ...toolRequest, toolChoice: "any" }, false).tool_choice).toEqual({ type: "any" })
+    })
+
+    it("should send no tool choice by default", () => {
+      expect(provider.buildRequest(toolRequest, false).tool_choice).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Gemini Provider Tests
+ *
+ * Tests for how GeminiProvider maps SDK requests to the Gemini API.
+ */
+
+import { describe, expect, it } from "bun:test"
+import { GeminiProvider } from "../src/llm/gemini"
+
+/**
+ * A history with thinking blocks from every provider
+ */
+const thinkingHistory: any[] = [
+  { role: "user", content: "Hi" },
+  {
+    role: "assistant",
+    content: [
+      { type: "thinking", thinking: "Anthropic thought", signature: "a-sig", provider: "anthropic" },
+      { type: "thinking", thinking: "", signature: "a-redacted", redacted: true, provider: "anthropic" },
+      { type: "thinking", thinking: "OpenAI summary", signature: "o-enc", provider: "openai", id: "rs_1" },
+      { type: "thinking", thinking: "Gemini thought", signature: "g-sig", provider: "gemini" },
+      { type: "text", text: "Hello" },
+    ],
+  },
+]
+
+/**
+ * A request offering one tool
+ */
+const toolRequest: any = {
+  messages: [{ role: "user", content: "Hi" }],
+  tools: [{ name: "Lookup", description: "Look something up", inputSchema: { type: "object", properties: {} } }],
+  config: { model: "model", promptCaching: false },
+}
+
+describe("GeminiProvider", () => {
+  describe("thinking", () => {
+    it("should set a thinking budget and send back its own thought parts", () => {
+      const built = (new GeminiProvider({ apiKey: "test" }) as any).buildRequest({
+        messages: thinkingHistory,
+        config: { model: "gemini-2.5-pro", reasoning: { effort: "high" } },
+      })
+      expect(built.generationConfig.thinkingConfig).toEqual({ thinkingBudget: 24576, includeThoughts: true })
+      expect(built.contents[1].parts).toEqual([
+        { text: "Gemini thought", thought: true, thoughtSignature: "g-sig" },
+        { text: "Hello" },
+      ])
+    })
+  })
+
+  describe("tool choice", () => {
+    const provider = new GeminiProvider({ apiKey: "test" }) as any
+
+    it("should map tool choice to the function calling mode", () => {
+      expect(provider.buildRequest({ ...toolRequest, toolChoice: { name: "Lookup" } }).toolConfig).toEqual({
+        functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["Lookup"] },
+      })
+      expect(provider.buildRequest({ ...toolRequest, toolChoice: "none" }).toolConfig.functionCallingConfig.mode).toBe("NONE")
+    })
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Mock Provider Tests
+ *
+ * Tests for scripted MockProvider turns, request expectations and errors.
+ */
+
+import { describe, expect, it } from "bun:test"
+import { MockProvider, MockProviderError } from "../src/llm/mock"
+import { createSessionImpl } from "../src/session/session"
+import type { LLMRequest } from "../src/types/provider"
+import type { ToolDefinition } from "../src/types/tool"
+
+describe("MockProvider", () => {
+  const tool: ToolDefinition = {
+    name: "Lookup",
+    description: "Look something up",
+    inputSchema: { type: "object", properties: { query: { type: "string" } } },
+    execute: async (input) => ({ content: `found ${input.query}` }),
+  }
+
+  it("should run scripted turns and check the requests it receives", async () => {
+    const provider = new MockProvider({
+      turns: [
+        { thinking: "Need data", toolUses: [{ name: "Lookup", input: { query: "x" } }], usage: { input_tokens: 12, output_tokens: 4 } },
+        {
+          text: ["It was ", "found"],
+          stopReason: "max_tokens",
+          expect: (request) => {
+            const last = request.messages[request.messages.length - 1].content as any[]
+            if (last[0].content !== "found x") throw new Error("tool result missing")
+          },
+        },
+      ],
+    })
+    const session = createSessionImpl({ model: "any-model", tools: [tool] }, provider)
+    await session.send("Find x")
+    const events: any[] = []
+    for await (const event of session.receive()) {
+      events.push(event)
+    }
+
+    expect(events.filter((e) => e.type === "text").map((e) => e.text)).toEqual(["It was ", "found"])
+    expect(events.find((e) => e.type === "thinking")?.thinking).toBe("Need data")
+    expect(events.find((e) => e.type === "stop")?.stop_reason).toBe("max_tokens")
+    expect(provider.requests).toHaveLength(2)
+    expect(session.getUsage()).toMatchObject({ input_tokens: 12, output_tokens: 4 })
+    expect(() => provider.assertDone()).not.toThrow()
+
+    // Requests beyond the script fail clearly
+    await expect(provider.stream(provider.lastRequest!)).rejects.toBeInstanceOf(MockProviderError)
+  })
+
+  it("should fail requests with scripted errors and failed expectations", async () => {
+    const provider = new MockProvider({
+      turns: [
+        { error: "rate limited" },
+        { text: "Hi", expect: () => { throw new Error("wrong prompt") } },
+        { text: "unused" },
+      ],
+    })
+    const request: LLMRequest = { messages: [{ role: "user", content: "Hi" }], config: { model: "m" } }
+
+    await expect(provider.stream(request)).rejects.toThrow("rate limited")
+    await expect(provider.complete(request)).rejects.toThrow("request #2 failed its expectation: wrong prompt")
+    expect(() => provider.assertDone()).toThrow(MockProviderError)
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Ollama Provider Tests
+ *
+ * Tests for OllamaProvider requests, host parsing, resolution of local
+ * models and streaming against the native chat endpoint.
+ */
+
+import { describe, expect, it, spyOn } from "bun:test"
+import { OllamaProvider } from "../src/llm/ollama"
+import { createProviderResolver } from "../src/llm/resolver"
+import { createSessionImpl } from "../src/session/session"
+import type { ToolDefinition } from "../src/types/tool"
+
+describe("OllamaProvider", () => {
+  const tool: ToolDefinition = {
+    name: "Lookup",
+    description: "Look something up",
+    inputSchema: { type: "object", properties: { query: { type: "string" } } },
+    execute: async () => ({ content: "found" }),
+  }
+
+  it("should build native chat requests with images, tool calls and server options", () => {
+    const provider = new OllamaProvider({ baseUrl: "http://ollama:11434", keepAlive: "10m", contextLength: 8192 }) as any
+    const body = provider.buildRequest(
+      {
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "What is this?" },
+              { type: "image", source: { type: "base64", media_type: "image/png", data: "aW1n" } },
+            ],
+          },
+          {
+            role: "assistant",
+            content: [
+              { type: "thinking", thinking: "Look it up", provider: "ollama" },
+              { type: "thinking", thinking: "Foreign", signature: "sig", provider: "anthropic" },
+              { type: "tool_use", id: "call_1", name: "Lookup", input: { query: "png" } },
+            ],
+          },
+          { role: "user", content: [{ type: "tool_result", tool_use_id: "call_1", content: "A picture" }] },
+        ],
+        tools: [tool],
+        systemPrompt: "Be brief",
+        config: { model: "llama3.2", maxTokens: 256, temperature: 0.2, reasoning: { effort: "low" } },
+      },
+      true
+    )
+
+    expect(body.messages).toEqual([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: "What is this?", images: ["aW1n"] },
+      {
+        role: "assistant",
+        content: "",
+        thinking: "Look it up",
+        tool_calls: [{ function: { name: "Lookup", arguments: { query: "png" } } }],
+      },
+      { role: "tool", content: "A picture", tool_name: "Lookup" },
+    ])
+    expect(body.tools[0].function.name).toBe("Lookup")
+    expect(body.stream).toBe(true)
+    expect(body.think).toBe(true)
+    expect(body.keep_alive).toBe("10m")
+    expect(body.options).toMatchObject({ temperature: 0.2, num_predict: 256, num_ctx: 8192 })
+  })
+
+  it("should accept OLLAMA_HOST values without a scheme or port", () => {
+    const baseUrl = (value?: string) => (new OllamaProvider({ baseUrl: value }) as any).config.baseUrl
+    expect(baseUrl("0.0.0.0:11434")).toBe("http://0.0.0.0:11434")
+    expect(baseUrl("127.0.0.1")).toBe("http://127.0.0.1:11434")
+    expect(baseUrl(":8080")).toBe("http://127.0.0.1:8080")
+    expect(baseUrl("::1")).toBe("http://[::1]:11434")
+    expect(baseUrl("ollama.local/proxy/")).toBe("http://ollama.local:11434/proxy")
+    expect(baseUrl("https://ollama.example.com/")).toBe("https://ollama.example.com")
+
+    const previous = process.env.OLLAMA_HOST
+    process.env.OLLAMA_HOST = "localhost"
+    try {
+      expect(baseUrl()).toBe("http://localhost:11434")
+    } finally {
+      if (previous === undefined) delete process.env.OLLAMA_HOST
+      else process.env.OLLAMA_HOST = previous
+    }
+  })
+
+  it("should resolve local models to Ollama by default", () => {
+    const resolver = createProviderResolver({ anthropicApiKey: "sk-test" })
+    for (const model of ["llama3.2", "mistral-nemo", "codellama:7b"]) {
+      expect(resolver.resolveProvider(model)).toBeInstanceOf(OllamaProvider)
+    }
+    expect(resolver.resolveProvider("claude-sonnet-4-5")?.id).toBe("anthropic")
+  })
+
+  it("should run a session against the streaming NDJSON endpoint", async () => {
+    const replies = [
+      [
+        { model: "llama3.2", message: { role: "assistant", content: "Checking" }, done: false },
+        {
+          model: "llama3.2",
+          message: { role: "assistant", content: "", tool_calls: [{ function: { name: "Lookup", arguments: { query: "x" } } }] },
+          done: false,
+        },
+        { model: "llama3.2", message: { role: "assistant", content: "" }, done: true, done_reason: "stop", prompt_eval_count: 20, eval_count: 5 },
+      ],
+      [
+        { model: "llama3.2", message: { role: "assistant", content: "It was " }, done: false },
+        { model: "llama3.2", message: { role: "assistant", content: "found" }, done: false },
+        { model: "llama3.2", message: { role: "assistant", content: "" }, done: true, done_reason: "stop", prompt_eval_count: 30, eval_count: 3 },
+      ],
+    ]
+    const bodies: any[] = []
+    const fetchSpy = spyOn(globalThis, "fetch").mockImplementation((async (url: string, init: RequestInit) => {
+      expect(url).toBe("http://ollama:11434/api/chat")
+      bodies.push(JSON.parse(init.body as string))
+      const lines = replies[bodies.length - 1].map((line) => JSON.stringify(line)).join("\n")
+      return new Response(lines, { headers: { "Content-Type": "application/x-ndjson" } })
+    }) as any)
+
+    try {
+      const session = createSessionImpl(
+        { model: "llama3.2", tools: [tool] },
+        new OllamaProvider({ baseUrl: "http://ollama:11434/" })
+      )
+      await session.send("Find x")
+      let text = ""
+      for await (const event of session.receive()) {
+        if (event.type === "text") text += event.text
+      }
+
+      expect(text).toBe("CheckingIt was found")
+      const toolCall = (session.getMessages()[1].content as any[]).find((b) => b.type === "tool_use")
+      expect(toolCall).toMatchObject({ name: "Lookup", input: { query: "x" } })
+      expect(bodies[1].messages.at(-1)).toEqual({ role: "tool", content: "found", tool_name: "Lookup" })
+      expect(session.getUsage()).toMatchObject({ input_tokens: 50, output_tokens: 8 })
+    } finally {
+      fetchSpy.mockRestore()
+    }
+  })
+})
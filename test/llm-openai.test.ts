@@ -0,0 +1,86 @@
+/**
+ * OpenAI Provider Tests
+ *
+ * Tests for how OpenAIProvider maps SDK requests to the OpenAI API.
+ */
+
+import { describe, expect, it } from "bun:test"
+import { OpenAIProvider } from "../src/llm/openai"
+import type { LLMRequest } from "../src/types/provider"
+
+/**
+ * A history with thinking blocks from every provider
+ */
+const thinkingHistory: any[] = [
+  { role: "user", content: "Hi" },
+  {
+    role: "assistant",
+    content: [
+      { type: "thinking", thinking: "Anthropic thought", signature: "a-sig", provider: "anthropic" },
+      { type: "thinking", thinking: "", signature: "a-redacted", redacted: true, provider: "anthropic" },
+      { type: "thinking", thinking: "OpenAI summary", signature: "o-enc", provider: "openai", id: "rs_1" },
+      { type: "thinking", thinking: "Gemini thought", signature: "g-sig", provider: "gemini" },
+      { type: "text", text: "Hello" },
+    ],
+  },
+]
+
+/**
+ * A request offering one tool
+ */
+const toolRequest: any = {
+  messages: [{ role: "user", content: "Hi" }],
+  tools: [{ name: "Lookup", description: "Look something up", inputSchema: { type: "object", properties: {} } }],
+  config: { model: "model", promptCaching: false },
+}
+
+describe("OpenAIProvider", () => {
+  describe("thinking", () => {
+    it("should request reasoning summaries and send back its own reasoning items", () => {
+      const built = (new OpenAIProvider({ apiKey: "test" }) as any).buildResponsesRequest(
+        { messages: thinkingHistory, config: { model: "gpt-5", reasoning: { budgetTokens: 4000 } } },
+        false
+      )
+      expect(built.reasoning).toEqual({ effort: "medium", summary: "auto" })
+      expect(built.include).toEqual(["reasoning.encrypted_content"])
+      expect(built.input.filter((item: any) => item.type === "reasoning")).toEqual([
+        { type: "reasoning", id: "rs_1", summary: [{ type: "summary_text", text: "OpenAI summary" }], encrypted_content: "o-enc" },
+      ])
+    })
+  })
+
+  describe("tool choice", () => {
+    const provider = new OpenAIProvider({ apiKey: "test" }) as any
+
+    it("should map tool choice and parallel tool calls", () => {
+      const forced = { ...toolRequest, toolChoice: { name: "Lookup" }, parallelToolCalls: false }
+      expect(provider.buildRequest(forced, false).tool_choice).toEqual({ type: "function", function: { name: "Lookup" } })
+      expect(provider.buildRequest(forced, false).parallel_tool_calls).toBe(false)
+      expect(provider.buildResponsesRequest(forced, false).tool_choice).toEqual({ type: "function", name: "Lookup" })
+      expect(provider.buildRequest({ ...toolRequest, toolChoice: "any" }, false).tool_choice).toBe("required")
+    })
+
+    it("should send no tool choice by default", () => {
+      expect(provider.buildRequest(toolRequest, false).tool_choice).toBeUndefined()
+    })
+  })
+
+  describe("structured output", () => {
+    it("should only use json_schema output where the endpoint and model support it", () => {
+      const request = (model: string): LLMRequest => ({ messages: [], config: { model } })
+      const official = new OpenAIProvider({ apiKey: "test", baseUrl: "https://api.openai.com/v1" })
+      expect(official.supportsOutputFormat(request("gpt-4o"))).toBe(true)
+      expect(official.supportsOutputFormat(request("gpt-4-turbo"))).toBe(false)
+      expect(official.supportsOutputFormat(request("gpt-3.5-turbo"))).toBe(false)
+
+      const compatible = new OpenAIProvider({ apiKey: "test", baseUrl: "http://localhost:8000/v1" })
+      expect(compatible.supportsOutputFormat(request("gpt-4o"))).toBe(false)
+      const optedIn = new OpenAIProvider({
+        apiKey: "test",
+        baseUrl: "http://localhost:8000/v1",
+        supportsStructuredOutput: true,
+      })
+      expect(optedIn.supportsOutputFormat(request("local-model"))).toBe(true)
+    })
+  })
+})
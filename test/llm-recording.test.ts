@@ -0,0 +1,74 @@
+/**
+ * Recording Provider Tests
+ *
+ * Tests for recording provider traffic to fixtures and replaying it.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "bun:test"
+import { MockProvider } from "../src/llm/mock"
+import { RecordingProvider, RecordingMismatchError } from "../src/llm/recording"
+import { createSessionImpl } from "../src/session/session"
+import type { LLMProvider, LLMRequest } from "../src/types/provider"
+import { rm, mkdir, readFile } from "fs/promises"
+import { join } from "path"
+import { tmpdir } from "os"
+
+describe("RecordingProvider", () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = join(tmpdir(), `formagent-recording-${Date.now()}`)
+    await mkdir(dir, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it("should record provider traffic and replay it offline", async () => {
+    const fixturePath = join(dir, "fixtures", "chat.json")
+    const run = async (provider: LLMProvider) => {
+      const session = createSessionImpl({ model: "mock-model" }, provider)
+      await session.send("Hello")
+      let text = ""
+      for await (const event of session.receive()) {
+        if (event.type === "text") text += event.text
+      }
+      return text
+    }
+
+    const recorder = new RecordingProvider({
+      fixturePath,
+      provider: new MockProvider({ turns: [{ text: ["Hi ", "there"] }] }),
+    })
+    expect(recorder.mode).toBe("record")
+    expect(await run(recorder)).toBe("Hi there")
+
+    const replayer = new RecordingProvider({ fixturePath })
+    expect(replayer.mode).toBe("replay")
+    expect(await run(replayer)).toBe("Hi there")
+    expect(() => replayer.assertDone()).not.toThrow()
+  })
+
+  it("should fail when a replayed request differs from the recording", async () => {
+    const fixturePath = join(dir, "chat.json")
+    const request: LLMRequest = { messages: [{ role: "user", content: "Hello" }], config: { model: "m", apiKey: "secret" } }
+    const recorder = new RecordingProvider({ fixturePath, provider: new MockProvider({ turns: [{ text: "Hi" }] }) })
+    for await (const _ of await recorder.stream(request)) {
+      // drain
+    }
+    expect(await readFile(fixturePath, "utf-8")).not.toContain("secret")
+
+    const replayer = new RecordingProvider({ fixturePath, mode: "replay" })
+    const error = await replayer
+      .stream({ ...request, messages: [{ role: "user", content: "Goodbye" }] })
+      .catch((e) => e)
+    expect(error).toBeInstanceOf(RecordingMismatchError)
+    expect(error.path).toBe("messages[0].content")
+    expect(error.message).toContain('recorded "Hello", got "Goodbye"')
+
+    const ignoring = new RecordingProvider({ fixturePath, mode: "replay", ignore: ["messages"] })
+    await expect(ignoring.stream({ ...request, messages: [] })).resolves.toBeDefined()
+    await expect(ignoring.stream(request)).rejects.toThrow("Request #2 has no recording")
+  })
+})
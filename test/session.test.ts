@@ -12,13 +12,43 @@ import {
   MemorySessionStorage,
   FileSessionStorage,
   createSessionStorage,
+  listSessionSummaries,
 } from "../src/session/storage"
-import type { LLMProvider, LLMRequest } from "../src/types/provider"
+import { SqliteSessionStorage } from "../src/session/sqlite-storage"
+import { JsonlSessionStorage } from "../src/session/jsonl-storage"
+import { SessionLockedError, acquireFileLock, readLockInfo } from "../src/session/lock"
+import {
+  SESSION_SCHEMA_VERSION,
+  SessionMigrationRegistry,
+  SessionSchemaError,
+  migrateSessionState,
+  migrateSessionStorage,
+} from "../src/session/migrations"
+import { pruneSessions } from "../src/session/retention"
+import {
+  EncryptedSessionStorage,
+  SessionEncryptionError,
+  generateSessionKey,
+  SESSION_KEY_ENV,
+} from "../src/session/encrypted-storage"
+import {
+  exportSessionMarkdown,
+  exportSessionHtml,
+  exportSessionArchive,
+  importSessionArchive,
+} from "../src/session/export"
+import type { LLMProvider, LLMRequest, LLMResponse } from "../src/types/provider"
+import type { ContentBlock, StreamEvent, UsageInfo } from "../src/types/core"
 import type { SessionConfig, SessionState } from "../src/types/session"
 import type { ToolDefinition } from "../src/types/tool"
-import { rm, mkdir } from "fs/promises"
+import { createWriteTool } from "../src/tools/builtin/write"
+import { ArtifactStore } from "../src/session/artifacts"
+import { createReadArtifactTool } from "../src/tools/artifact"
+import { followSession } from "../src/session/follow"
+import { rm, mkdir, readFile, readdir, writeFile, appendFile, stat } from "fs/promises"
+import { existsSync } from "fs"
 import { join } from "path"
-import { tmpdir } from "os"
+import { hostname, tmpdir } from "os"
 
 // =============================================================================
 // Mock Provider
@@ -151,6 +181,93 @@ function createLooseTextMockProvider(text: string): LLMProvider {
   }
 }
 
+/**
+ * One response played back by createScriptedMockProvider()
+ */
+interface ScriptedTurn {
+  text?: string
+  toolUses?: Array<{ id: string; name: string; input?: Record<string, unknown> }>
+  thinking?: { thinking: string; signature?: string }
+  usage?: Partial<UsageInfo>
+}
+
+/**
+ * Create a mock provider that plays back one scripted response per call.
+ * The last response is repeated once the script runs out.
+ */
+function createScriptedMockProvider(turns: ScriptedTurn[]): LLMProvider {
+  let call = 0
+
+  const mockStream = async function* (request: LLMRequest): AsyncGenerator<StreamEvent> {
+    const turn = turns[Math.min(call++, turns.length - 1)]
+
+    yield {
+      type: "message_start",
+      message: {
+        id: `msg_scripted_${call}`,
+        type: "message",
+        role: "assistant",
+        content: [],
+        model: request.config.model,
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 0, ...turn.usage },
+      },
+    }
+
+    const blocks: ContentBlock[] = [
+      ...(turn.thinking ? [{ type: "thinking" as const, ...turn.thinking }] : []),
+      ...(turn.text ? [{ type: "text" as const, text: turn.text }] : []),
+      ...(turn.toolUses ?? []).map((t) => ({ type: "tool_use" as const, ...t, input: t.input ?? {} })),
+    ]
+
+    for (const [index, block] of blocks.entries()) {
+      if (block.type === "text") {
+        yield { type: "content_block_start", index, content_block: { type: "text", text: "" } }
+        yield { type: "content_block_delta", index, delta: { type: "text_delta", text: block.text } }
+      } else if (block.type === "thinking") {
+        yield { type: "content_block_start", index, content_block: { type: "thinking", thinking: "", provider: "mock" } }
+        yield { type: "content_block_delta", index, delta: { type: "thinking_delta", thinking: block.thinking } }
+        if (block.signature) {
+          yield { type: "content_block_delta", index, delta: { type: "signature_delta", signature: block.signature } }
+        }
+      } else if (block.type === "tool_use") {
+        yield { type: "content_block_start", index, content_block: { ...block, input: {} } }
+        yield {
+          type: "content_block_delta",
+          index,
+          delta: { type: "input_json_delta", partial_json: JSON.stringify(block.input) },
+        }
+      }
+      yield { type: "content_block_stop", index }
+    }
+
+    yield {
+      type: "message_delta",
+      delta: { stop_reason: turn.toolUses?.length ? "tool_use" : "end_turn" },
+      usage: { output_tokens: 20 },
+    }
+    yield { type: "message_stop" }
+  }
+
+  return {
+    id: "scripted-mock",
+    name: "Scripted Mock Provider",
+    supportedModels: [/^mock-model$/],
+    supportsModel: (model) => model === "mock-model",
+    stream: mock(async (request: LLMRequest) => mockStream(request)),
+    complete: mock(
+      async (): Promise<LLMResponse> => ({
+        id: "",
+        model: "",
+        content: [{ type: "text", text: "Mock response" }],
+        usage: { input_tokens: 10, output_tokens: 20 },
+        stopReason: "end_turn",
+      })
+    ),
+  }
+}
+
 // =============================================================================
 // SessionImpl Tests
 // =============================================================================
@@ -374,570 +491,2835 @@ describe("SessionImpl", () => {
     })
   })
 
-  describe("getMessages()", () => {
-    it("should return copy of messages", async () => {
+  describe("turn loop", () => {
+    it("should yield turn_start for each model request", async () => {
+      provider = createScriptedMockProvider([
+        { toolUses: [{ id: "t1", name: "Missing", input: {} }] },
+        { toolUses: [{ id: "t2", name: "Missing", input: {} }] },
+        { text: "Done" },
+      ])
       const session = createSessionImpl(config, provider)
       await session.send("Hello!")
 
-      const messages = session.getMessages()
-      messages.push({ id: "fake", role: "user", content: "Fake" })
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
 
-      // Original should not be modified
-      expect(session.getMessages()).toHaveLength(1)
+      const turns = events.filter((e) => e.type === "turn_start")
+      expect(turns.map((e) => e.turn)).toEqual([1, 2, 3])
+      expect(events[0].type).toBe("turn_start")
+      expect(events.at(-1).type).toBe("stop")
     })
-  })
 
-  describe("getUsage()", () => {
-    it("should return copy of usage", async () => {
+    it("should handle long tool loops without recursion", async () => {
+      const turns = Array.from({ length: 200 }, (_, i) => ({
+        toolUses: [{ id: `t${i}`, name: "Missing", input: {} }],
+      }))
+      provider = createScriptedMockProvider([...turns, { text: "Done" }])
       const session = createSessionImpl(config, provider)
-      await session.send("Hello!")
+      await session.send("Keep going")
 
+      let last: any
       for await (const event of session.receive()) {
-        // Consume
+        last = event
       }
 
-      const usage = session.getUsage()
-      const originalInput = usage.input_tokens
-      usage.input_tokens = 99999
-
-      // Original should not be modified
-      expect(session.getUsage().input_tokens).toBe(originalInput)
+      expect(provider.stream).toHaveBeenCalledTimes(201)
+      expect(last.type).toBe("stop")
+      expect(last.stop_reason).toBe("end_turn")
     })
   })
 
-  describe("close()", () => {
-    it("should mark session as closed", async () => {
-      const session = createSessionImpl(config, provider)
-      await session.close()
-
-      expect(session.send("Test")).rejects.toThrow("Session is closed")
-    })
+  describe("autosave", () => {
+    const stepTool: ToolDefinition = {
+      name: "Step",
+      description: "Step",
+      inputSchema: { type: "object", properties: {} },
+      execute: async () => ({ content: "Stepped" }),
+    }
 
-    it("should be idempotent", async () => {
-      const session = createSessionImpl(config, provider)
-      await session.close()
-      await session.close() // Should not throw
+    async function run(session: SessionImpl, prompt: string) {
+      await session.send(prompt)
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+      return events
+    }
 
-      expect(true).toBe(true)
+    beforeEach(() => {
+      provider = createScriptedMockProvider([
+        { toolUses: [{ id: "t1", name: "Step", input: {} }] },
+        { text: "Done" },
+      ])
     })
-  })
 
-  describe("asyncDispose", () => {
-    it("should support async disposal", async () => {
-      const session = createSessionImpl(config, provider)
+    it("should save after each assistant message and before the stop event", async () => {
+      const storage = new MemorySessionStorage()
+      const session = createSessionImpl(
+        { ...config, tools: [stepTool], storage, autosave: "assistant_message" },
+        provider
+      ) as SessionImpl
 
-      await session[Symbol.asyncDispose]()
+      const events = await run(session, "Step once")
+      const persisted = events.filter((e) => e.type === "persisted")
 
-      expect(session.send("Test")).rejects.toThrow("Session is closed")
+      expect(persisted.map((e) => e.trigger)).toEqual(["assistant_message", "assistant_message", "stop"])
+      expect(persisted[0].message_count).toBe(2)
+      expect(events.findIndex((e) => e.type === "persisted" && e.trigger === "stop")).toBe(events.length - 2)
+      expect((await storage.load(session.id))?.messages).toHaveLength(4)
     })
-  })
-})
 
-// =============================================================================
-// SessionManager Tests
-// =============================================================================
-
-describe("SessionManagerImpl", () => {
-  let provider: LLMProvider
-  let storage: MemorySessionStorage
-  let manager: SessionManagerImpl
-
-  beforeEach(() => {
-    provider = createMockProvider({ text: "Hello!" })
-    storage = new MemorySessionStorage()
-    manager = new SessionManagerImpl({ provider, storage })
-  })
-
-  afterEach(async () => {
-    await manager.closeAll()
-  })
+    it("should save after tool results", async () => {
+      const storage = new MemorySessionStorage()
+      const session = createSessionImpl(
+        { ...config, tools: [stepTool], storage, autosave: { policy: "tool_result" } },
+        provider
+      ) as SessionImpl
 
-  describe("create()", () => {
-    it("should create new session", async () => {
-      const session = await manager.create({ model: "test-model" })
+      const events = await run(session, "Step once")
 
-      expect(session).toBeDefined()
-      expect(session.id).toBeDefined()
+      expect(events.filter((e) => e.type === "persisted").map((e) => [e.trigger, e.message_count])).toEqual([
+        ["tool_result", 3],
+        ["stop", 4],
+      ])
     })
 
-    it("should store session in active sessions", async () => {
-      const session = await manager.create()
-
-      expect(manager.get(session.id)).toBe(session)
-    })
+    it("should coalesce debounced saves and flush on close", async () => {
+      const storage = new MemorySessionStorage()
+      const save = spyOn(storage, "save")
+      const session = createSessionImpl(
+        { ...config, tools: [stepTool], storage, autosave: { policy: "debounced", debounceMs: 60_000 } },
+        provider
+      ) as SessionImpl
 
-    it("should save initial state to storage", async () => {
-      const session = await manager.create()
+      const events = await run(session, "Step once")
+      expect(events.filter((e) => e.type === "persisted").map((e) => e.trigger)).toEqual(["stop"])
+      expect(save).toHaveBeenCalledTimes(1)
 
-      const storedState = await storage.load(session.id)
-      expect(storedState).toBeDefined()
-      expect(storedState?.id).toBe(session.id)
+      await session.send("Unsaved prompt")
+      await session.close()
+      expect(save).toHaveBeenCalledTimes(2)
+      expect((await storage.load(session.id))?.messages.at(-1)?.content).toBe("Unsaved prompt")
     })
 
-    it("should merge default config with provided config", async () => {
-      const managerWithDefaults = new SessionManagerImpl({
-        provider,
-        storage,
-        defaultConfig: { model: "default-model", maxTurns: 10 },
+    it("should report failed saves without ending the run", async () => {
+      const storage = new MemorySessionStorage()
+      spyOn(storage, "save").mockImplementation(async () => {
+        throw new Error("disk full")
       })
+      const session = createSessionImpl(
+        { ...config, tools: [stepTool], storage, autosave: "assistant_message" },
+        provider
+      ) as SessionImpl
 
-      const session = await managerWithDefaults.create({ model: "custom-model" })
+      const events = await run(session, "Step once")
 
-      expect(session.config.model).toBe("custom-model")
-      expect(session.config.maxTurns).toBe(10)
+      expect(events.find((e) => e.type === "persisted").error.message).toBe("disk full")
+      expect(events.at(-1).type).toBe("stop")
     })
 
-    it("should handle resume option", async () => {
-      // Create initial session
-      const original = await manager.create()
-      await original.send("Hello!")
-      await manager.close(original.id)
+    it("should not save without autosave", async () => {
+      const storage = new MemorySessionStorage()
+      const session = createSessionImpl({ ...config, tools: [stepTool], storage }, provider) as SessionImpl
 
-      // Resume
-      const resumed = await manager.create({ resume: original.id })
+      const events = await run(session, "Step once")
 
-      expect(resumed.id).toBe(original.id)
-      expect(resumed.state.messages).toHaveLength(1)
+      expect(events.some((e) => e.type === "persisted")).toBe(false)
+      expect(await storage.list()).toEqual([])
     })
 
-    it("should handle fork option", async () => {
-      // Create initial session
-      const original = await manager.create()
-      await original.send("Hello!")
-      // Save state to storage before forking
-      await storage.save(original.state)
+    it("should autosave to the manager storage", async () => {
+      const storage = new MemorySessionStorage()
+      const manager = new SessionManagerImpl({ provider, storage, defaultConfig: { tools: [stepTool] } })
+      const session = (await manager.create({ autosave: "assistant_message" })) as SessionImpl
 
-      // Fork
-      const forked = await manager.create({ fork: original.id })
+      await run(session, "Step once")
 
-      expect(forked.id).not.toBe(original.id)
-      expect(forked.state.parentId).toBe(original.id)
-      expect(forked.state.messages).toHaveLength(1)
+      expect((await storage.load(session.id))?.messages).toHaveLength(4)
     })
   })
 
-  describe("resume()", () => {
-    it("should resume existing session from storage", async () => {
-      // Create and close session
-      const original = await manager.create()
-      await original.send("Test message")
-      await manager.close(original.id)
+  describe("auto titles", () => {
+    async function run(session: SessionImpl, prompt: string) {
+      await session.send(prompt)
+      for await (const _ of session.receive()) {
+        // drain
+      }
+    }
 
-      // Resume
-      const resumed = await manager.resume(original.id)
+    it("should set a title and summary in the background after the first run", async () => {
+      let reply!: (text: string) => void
+      provider = createMockProvider({ text: "Sure" })
+      provider.complete = mock(
+        () =>
+          new Promise<any>((resolve) => {
+            reply = (text) =>
+              resolve({ content: [{ type: "text", text }], usage: { input_tokens: 5, output_tokens: 5 } })
+          })
+      )
+      const storage = new MemorySessionStorage()
+      const session = createSessionImpl(
+        { ...config, storage, autosave: "assistant_message", autoTitle: { model: "small-model" } },
+        provider
+      ) as SessionImpl
 
-      expect(resumed.id).toBe(original.id)
-      expect(resumed.state.messages).toHaveLength(1)
-      expect(resumed.state.messages[0].content).toBe("Test message")
-    })
+      // The run finishes while the title call is still pending
+      await run(session, "Help me fix the flaky login test")
+      expect(session.state.metadata.title).toBeUndefined()
 
-    it("should return active session if already exists", async () => {
-      const original = await manager.create()
+      reply("Title: \"Fix flaky login test.\"\nSummary: The user wants the login test fixed.")
+      await session.close()
 
-      const resumed = await manager.resume(original.id)
+      const request = (provider.complete as any).mock.calls[0][0]
+      expect(request.config.model).toBe("small-model")
+      expect(request.messages[0].content).toContain("User: Help me fix the flaky login test")
+      expect(session.state.metadata).toMatchObject({
+        title: "Fix flaky login test",
+        summary: "The user wants the login test fixed.",
+      })
+      expect((await storage.load(session.id))?.metadata.title).toBe("Fix flaky login test")
+      expect(session.getUsage().input_tokens).toBe(15)
+    })
+
+    it("should refresh the summary every summaryInterval runs and keep the title", async () => {
+      provider = createMockProvider({ text: "Sure" })
+      let call = 0
+      provider.complete = mock(async () => {
+        call++
+        return {
+          content: [{ type: "text", text: `Title: Title ${call}\nSummary: Summary ${call}` }],
+          usage: { input_tokens: 1, output_tokens: 1 },
+        } as any
+      })
+      const session = createSessionImpl({ ...config, autoTitle: { summaryInterval: 2 } }, provider) as SessionImpl
 
-      expect(resumed).toBe(original)
-    })
+      for (const prompt of ["One", "Two", "Three"]) {
+        await run(session, prompt)
+        await new Promise((resolve) => setTimeout(resolve, 0))
+      }
 
-    it("should throw if session not found", async () => {
-      expect(manager.resume("non-existent")).rejects.toThrow("Session not found")
+      expect(provider.complete).toHaveBeenCalledTimes(2)
+      expect(session.state.metadata).toMatchObject({ title: "Title 1", summary: "Summary 2" })
+      expect((provider.complete as any).mock.calls[1][0].messages[0].content).toContain("Previous summary:\nSummary 1")
     })
 
-    it("should merge additional config", async () => {
-      const original = await manager.create({ model: "original-model" })
-      await manager.close(original.id)
+    it("should ignore failed title calls", async () => {
+      provider = createMockProvider({ text: "Sure" })
+      provider.complete = mock(async () => {
+        throw new Error("rate limited")
+      })
+      const session = createSessionImpl({ ...config, autoTitle: true }, provider) as SessionImpl
 
-      const resumed = await manager.resume(original.id, { maxTurns: 5 })
+      await run(session, "Hello")
+      await session.close()
 
-      expect(resumed.config.maxTurns).toBe(5)
+      expect(session.state.metadata.title).toBeUndefined()
     })
   })
 
-  describe("fork()", () => {
-    it("should create new session with copied state", async () => {
-      const original = await manager.create()
-      await original.send("Message 1")
-      await original.send("Message 2")
-      // Save state to storage before forking
-      await storage.save(original.state)
-
-      const forked = await manager.fork(original.id)
+  describe("steering and interrupts", () => {
+    it("should merge steered messages into the next request after tool results", async () => {
+      let session: SessionImpl
+      const planTool: ToolDefinition = {
+        name: "Plan",
+        description: "Plan",
+        inputSchema: { type: "object", properties: {} },
+        execute: async () => {
+          await session.steer("Also cover the edge cases")
+          return { content: "Planned" }
+        },
+      }
+      provider = createScriptedMockProvider([
+        { toolUses: [{ id: "t1", name: "Plan", input: {} }] },
+        { text: "Done" },
+      ])
+      session = createSessionImpl({ ...config, tools: [planTool] }, provider)
+      await session.send("Make a plan")
+
+      for await (const _ of session.receive()) {
+        // drain
+      }
 
-      expect(forked.id).not.toBe(original.id)
-      expect(forked.state.messages).toHaveLength(2)
+      const secondRequest = (provider.stream as any).mock.calls[1][0]
+      expect(secondRequest.messages.at(-1).content).toEqual([
+        { type: "tool_result", tool_use_id: "t1", content: "Planned", is_error: undefined },
+        { type: "text", text: "Also cover the edge cases" },
+      ])
     })
 
-    it("should set parentId to original session", async () => {
-      const original = await manager.create()
-      // State is saved on create, so fork should work
+    it("should run UserPromptSubmit hooks on steered messages", async () => {
+      let session: SessionImpl
+      const planTool: ToolDefinition = {
+        name: "Plan",
+        description: "Plan",
+        inputSchema: { type: "object", properties: {} },
+        execute: async () => {
+          await session.steer("my password is hunter2")
+          await session.steer("Also cover the edge cases")
+          return { content: "Planned" }
+        },
+      }
+      provider = createScriptedMockProvider([
+        { toolUses: [{ id: "t1", name: "Plan", input: {} }] },
+        { text: "Done" },
+      ])
+      session = createSessionImpl(
+        {
+          ...config,
+          tools: [planTool],
+          hooks: {
+            UserPromptSubmit: [
+              {
+                hooks: [
+                  async (input) =>
+                    "prompt" in input && input.prompt.includes("hunter2")
+                      ? { continue: false, stopReason: "Contains a secret" }
+                      : { hookSpecificOutput: { hookEventName: "UserPromptSubmit", additionalContext: "Branch: main" } },
+                ],
+              },
+            ],
+          },
+        },
+        provider
+      )
+      await session.send("Make a plan")
 
-      const forked = await manager.fork(original.id)
+      for await (const _ of session.receive()) {
+        // drain
+      }
 
-      expect(forked.state.parentId).toBe(original.id)
+      const secondRequest = (provider.stream as any).mock.calls[1][0]
+      expect(JSON.stringify(secondRequest.messages)).not.toContain("hunter2")
+      expect(secondRequest.messages.at(-1).content.slice(1)).toEqual([
+        { type: "text", text: "Also cover the edge cases" },
+        { type: "text", text: "Branch: main" },
+      ])
+      expect(JSON.stringify(session.getMessages())).not.toContain("hunter2")
     })
 
-    it("should deep clone messages", async () => {
-      const original = await manager.create()
-      await original.send("Original message")
-      // Save state to storage before forking
-      await storage.save(original.state)
+    it("should treat steer() like send() when idle", async () => {
+      const session = createSessionImpl(config, provider)
+      await session.steer("Hello!")
 
-      const forked = await manager.fork(original.id)
-      await forked.send("Forked message")
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
 
-      // Original should not be affected
-      expect(original.state.messages).toHaveLength(1)
-      expect(forked.state.messages).toHaveLength(2)
+      expect(events.at(-1).type).toBe("stop")
+      expect(session.getMessages()[0].content).toBe("Hello!")
     })
 
-    it("should throw if session not found", async () => {
-      expect(manager.fork("non-existent")).rejects.toThrow("Session not found")
-    })
+    it("should stop the tool round on interrupt and keep the partial history", async () => {
+      let session: SessionImpl
+      const executed: string[] = []
+      const stepTool: ToolDefinition = {
+        name: "Step",
+        description: "Step",
+        inputSchema: { type: "object", properties: {} },
+        execute: async (_input, context) => {
+          executed.push(context.sessionId)
+          session.interrupt()
+          return { content: "Stepped" }
+        },
+      }
+      provider = createScriptedMockProvider([
+        {
+          toolUses: [
+            { id: "t1", name: "Step", input: {} },
+            { id: "t2", name: "Step", input: {} },
+          ],
+        },
+        { text: "Done" },
+      ])
+      session = createSessionImpl({ ...config, tools: [stepTool] }, provider)
+      await session.send("Take two steps")
 
-    it("should save forked state to storage", async () => {
-      const original = await manager.create()
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
 
-      const forked = await manager.fork(original.id)
+      expect(provider.stream).toHaveBeenCalledTimes(1)
+      expect(executed).toHaveLength(1)
+      expect(events.at(-1).stop_reason).toBe("interrupted")
 
-      const storedState = await storage.load(forked.id)
-      expect(storedState).toBeDefined()
-      expect(storedState?.parentId).toBe(original.id)
+      const messages = session.getMessages()
+      expect(messages.map((m) => m.role)).toEqual(["user", "assistant", "user"])
+      const results = messages[2].content as any[]
+      expect(results[0].content).toBe("Stepped")
+      expect(results[1]).toMatchObject({ tool_use_id: "t2", content: "Interrupted by user", is_error: true })
     })
   })
 
-  describe("get()", () => {
-    it("should return active session", async () => {
-      const session = await manager.create()
+  describe("rewind", () => {
+    const rewindDir = join(tmpdir(), `formagent-rewind-${Date.now()}`)
+    const filePath = join(rewindDir, "notes.txt")
 
-      expect(manager.get(session.id)).toBe(session)
+    beforeEach(async () => {
+      await mkdir(rewindDir, { recursive: true })
     })
 
-    it("should return undefined for unknown session", () => {
-      expect(manager.get("unknown")).toBeUndefined()
+    afterEach(async () => {
+      await rm(rewindDir, { recursive: true, force: true })
     })
-  })
 
-  describe("list()", () => {
-    it("should return list of active session ids", async () => {
-      const session1 = await manager.create()
-      const session2 = await manager.create()
+    async function writeTurn(session: SessionImpl, prompt: string) {
+      await session.send(prompt)
+      for await (const _ of session.receive()) {
+        // drain
+      }
+    }
 
-      const list = manager.list()
+    it("should cut the history and restore files changed since the checkpoint", async () => {
+      provider = createScriptedMockProvider([
+        { toolUses: [{ id: "w1", name: "Write", input: { file_path: filePath, content: "v1" } }] },
+        { text: "Wrote v1" },
+        { toolUses: [{ id: "w2", name: "Write", input: { file_path: filePath, content: "v2" } }] },
+        { text: "Wrote v2" },
+      ])
+      const session = createSessionImpl({ ...config, tools: [createWriteTool({ cwd: rewindDir })] }, provider) as SessionImpl
+
+      await writeTurn(session, "Write v1")
+      await writeTurn(session, "Write v2")
+      expect(await readFile(filePath, "utf-8")).toBe("v2")
+
+      const checkpoints = session.getCheckpoints()
+      expect(checkpoints.map((c) => c.prompt)).toEqual(["Write v1", "Write v2"])
+      expect(checkpoints[0].files).toEqual([filePath])
+
+      const result = await session.rewind(checkpoints[1].messageId, { restoreFiles: true })
+      expect(result).toEqual({ removedMessages: 4, restoredFiles: [filePath] })
+      expect(await readFile(filePath, "utf-8")).toBe("v1")
+      expect(session.getMessages()).toHaveLength(4)
+
+      // The file did not exist before the first prompt
+      await session.rewind(checkpoints[0].messageId, { restoreFiles: true })
+      expect(existsSync(filePath)).toBe(false)
+      expect(session.getMessages()).toHaveLength(0)
+      expect(session.state.fileSnapshots).toEqual([])
+    })
+
+    it("should keep files unless asked to restore them", async () => {
+      provider = createScriptedMockProvider([
+        { toolUses: [{ id: "w1", name: "Write", input: { file_path: filePath, content: "v1" } }] },
+        { text: "Wrote v1" },
+      ])
+      const session = createSessionImpl({ ...config, tools: [createWriteTool({ cwd: rewindDir })] }, provider) as SessionImpl
+      await writeTurn(session, "Write v1")
+
+      const [checkpoint] = session.getCheckpoints()
+      const result = await session.rewind(checkpoint.messageId)
+
+      expect(result.restoredFiles).toEqual([])
+      expect(await readFile(filePath, "utf-8")).toBe("v1")
+    })
+
+    it("should reject messages that are not checkpoints", async () => {
+      provider = createScriptedMockProvider([
+        { toolUses: [{ id: "w1", name: "Write", input: { file_path: filePath, content: "v1" } }] },
+        { text: "Wrote v1" },
+      ])
+      const session = createSessionImpl({ ...config, tools: [createWriteTool({ cwd: rewindDir })] }, provider)
+      await writeTurn(session as SessionImpl, "Write v1")
+
+      const toolResultMessage = session.getMessages()[2]
+      await expect(session.rewind(toolResultMessage.id!)).rejects.toThrow("Checkpoint not found")
+    })
+  })
+
+  describe("branches", () => {
+    async function turn(session: SessionImpl, prompt: string) {
+      await session.send(prompt)
+      for await (const _ of session.receive()) {
+        // drain
+      }
+    }
+
+    it("should start with a single main branch", () => {
+      const session = createSessionImpl(config, provider)
+
+      expect(session.getActiveBranch()).toBe("main")
+      expect(session.getBranches()).toEqual([
+        expect.objectContaining({ name: "main", messageCount: 0, active: true }),
+      ])
+      expect(session.state.branches).toBeUndefined()
+    })
+
+    it("should share the prefix between branches and switch history", async () => {
+      provider = createScriptedMockProvider([{ text: "one" }, { text: "two" }, { text: "alt" }])
+      const session = createSessionImpl(config, provider) as SessionImpl
+      await turn(session, "first")
+      const firstReply = session.getMessages()[1]
+      await turn(session, "second")
+
+      session.createBranch("alt", { fromMessageId: firstReply.id, switch: true })
+      expect(session.getActiveBranch()).toBe("alt")
+      expect(session.getMessages()).toHaveLength(2)
+
+      await turn(session, "other")
+      expect(session.getMessages().map((m) => m.content)).toContainEqual("other")
+
+      const { branches } = session.state
+      expect(branches?.main.messages).toHaveLength(4)
+      expect(branches?.alt).toMatchObject({ parent: "main", forkIndex: 2 })
+      expect(branches?.alt.messages).toHaveLength(2)
+
+      session.switchBranch("main")
+      expect(session.getMessages()).toHaveLength(4)
+      expect(session.getBranches().map((b) => [b.name, b.messageCount, b.active])).toEqual([
+        ["main", 4, true],
+        ["alt", 4, false],
+      ])
+
+      const diff = session.diffBranches("alt")
+      expect(diff.commonMessages).toBe(2)
+      expect(diff.onlyInA.map((m) => m.content)).toContainEqual("other")
+      expect(diff.onlyInB.map((m) => m.content)).toContainEqual("second")
+    })
+
+    it("should reject duplicate and unknown branches", () => {
+      const session = createSessionImpl(config, provider)
+      session.createBranch("alt")
+
+      expect(() => session.createBranch("alt")).toThrow("Branch already exists")
+      expect(() => session.switchBranch("missing")).toThrow("Branch not found")
+      expect(() => session.createBranch("x", { fromMessageId: "nope" })).toThrow("Message not found")
+    })
+
+    it("should keep child branches intact when the parent is rewound", async () => {
+      provider = createScriptedMockProvider([{ text: "one" }, { text: "two" }])
+      const session = createSessionImpl(config, provider) as SessionImpl
+      await turn(session, "first")
+      await turn(session, "second")
+      session.createBranch("alt")
+
+      await session.rewind(session.getCheckpoints()[0].messageId)
+      expect(session.getMessages()).toHaveLength(0)
+
+      session.switchBranch("alt")
+      expect(session.getMessages()).toHaveLength(4)
+      expect(session.state.branches?.alt.parent).toBeUndefined()
+    })
+
+    it("should merge a branch summary into the active branch", async () => {
+      provider = createScriptedMockProvider([{ text: "one" }, { text: "tried it" }])
+      const session = createSessionImpl(config, provider) as SessionImpl
+      await turn(session, "first")
+      session.createBranch("experiment", { switch: true })
+      await turn(session, "try something")
+      session.switchBranch("main")
+
+      const summary = await session.mergeBranch("experiment")
+
+      expect(summary).toBe("Mock response")
+      expect(provider.complete).toHaveBeenCalledTimes(1)
+      const last = session.getMessages().at(-1)!
+      expect(last.role).toBe("user")
+      expect(last.content).toContain('[Summary of branch "experiment"]')
+
+      await expect(session.mergeBranch("main")).rejects.toThrow("into itself")
+    })
+
+    it("should use a given summary without calling the model", async () => {
+      provider = createScriptedMockProvider([{ text: "one" }])
+      const session = createSessionImpl(config, provider) as SessionImpl
+      session.createBranch("empty")
+      await turn(session, "first")
+
+      await expect(session.mergeBranch("empty", { summary: "x" })).rejects.toThrow("Nothing to merge")
+
+      session.switchBranch("empty")
+      expect(await session.mergeBranch("main", { summary: "Done on main" })).toBe("Done on main")
+      expect(provider.complete).not.toHaveBeenCalled()
+      expect(session.getMessages()).toHaveLength(1)
+    })
+  })
+
+  describe("compaction", () => {
+    const longHistory = (): SessionState["messages"] =>
+      Array.from({ length: 16 }, (_, i) => ({
+        id: `msg${i}`,
+        role: i % 2 === 0 ? "user" : "assistant",
+        content: i % 2 === 0 ? `question ${i} ${"x".repeat(800)}` : [{ type: "text", text: `answer ${i} ${"y".repeat(800)}` }],
+      })) as SessionState["messages"]
+
+    it("should summarize history past the threshold and emit compact event", async () => {
+      const preCompactInputs: any[] = []
+      const session = createSessionImpl(
+        {
+          ...config,
+          compaction: { maxInputTokens: 1000 },
+          hooks: {
+            PreCompact: [
+              {
+                hooks: [
+                  async (input) => {
+                    preCompactInputs.push(input)
+                    return {}
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        provider,
+        { messages: longHistory() }
+      )
+      await session.send("Next question")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      const compactEvent = events.find((e) => e.type === "compact")
+      expect(compactEvent).toBeDefined()
+      expect(compactEvent.trigger).toBe("auto")
+      expect(compactEvent.tokens_after).toBeLessThan(compactEvent.tokens_before)
+      expect(preCompactInputs).toHaveLength(1)
+      expect(preCompactInputs[0].trigger).toBe("auto")
+      expect(provider.complete).toHaveBeenCalledTimes(1)
+
+      const messages = session.getMessages()
+      expect(messages.length).toBeLessThan(18)
+      expect(
+        messages.some(
+          (m) => Array.isArray(m.content) && m.content.some((b: any) => b.type === "text" && b.text.includes("[Session Summary]"))
+        )
+      ).toBe(true)
+    })
+
+    it("should skip compaction when PreCompact hook stops it", async () => {
+      const session = createSessionImpl(
+        {
+          ...config,
+          compaction: { maxInputTokens: 1000 },
+          hooks: { PreCompact: [{ hooks: [async () => ({ continue: false })] }] },
+        },
+        provider,
+        { messages: longHistory() }
+      )
+      await session.send("Next question")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      expect(events.some((e) => e.type === "compact")).toBe(false)
+      expect(provider.complete).not.toHaveBeenCalled()
+    })
+
+    it("should send tool calls to the summary request as text", async () => {
+      const history = longHistory()
+      history[1] = { id: "msg1", role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Read", input: { file_path: "a.txt" } }] }
+      history[2] = { id: "msg2", role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "z".repeat(800) }] }
+      const session = createSessionImpl({ ...config, compaction: { maxInputTokens: 1000 } }, provider, { messages: history })
+      await session.send("Next question")
+      for await (const _ of session.receive()) {
+        // Consume
+      }
+
+      const summaryRequest = (provider.complete as any).mock.calls[0][0] as LLMRequest
+      const blocks = summaryRequest.messages.flatMap((m) => (Array.isArray(m.content) ? m.content : []))
+      expect(blocks.some((b) => b.type === "tool_use" || b.type === "tool_result")).toBe(false)
+      expect(blocks.some((b) => b.type === "text" && b.text.startsWith("[Tool call: Read]"))).toBe(true)
+    })
+
+    it("should continue the turn when the summary request fails", async () => {
+      provider.complete = mock(async () => {
+        throw new Error("overloaded")
+      }) as any
+      const session = createSessionImpl({ ...config, compaction: { maxInputTokens: 1000 } }, provider, {
+        messages: longHistory(),
+      })
+      await session.send("Next question")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      const compactEvent = events.find((e) => e.type === "compact")
+      expect(compactEvent.error.message).toBe("overloaded")
+      expect(events.some((e) => e.type === "error")).toBe(false)
+      expect(provider.stream).toHaveBeenCalledTimes(1)
+      expect(session.getMessages()).toHaveLength(18)
+    })
+
+    it("should not compact when compaction is not configured", async () => {
+      const session = createSessionImpl(config, provider, { messages: longHistory() })
+      await session.send("Next question")
+
+      for await (const _ of session.receive()) {
+        // Consume
+      }
+
+      expect(provider.complete).not.toHaveBeenCalled()
+      expect(session.getMessages()).toHaveLength(18)
+    })
+  })
+
+  describe("structured output", () => {
+    const outputFormat = {
+      type: "json_schema" as const,
+      schema: {
+        type: "object",
+        properties: { name: { type: "string" } },
+        required: ["name"],
+      },
+    }
+
+    it("should accept output from the synthetic tool when provider has no native mode", async () => {
+      provider = createMockProvider({
+        toolUse: { id: "tool_out", name: "StructuredOutput", input: { name: "Ada" } },
+      })
+      const session = createSessionImpl({ ...config, outputFormat }, provider)
+      await session.send("Who wrote the first program?")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      const request = (provider.stream as any).mock.calls[0][0]
+      expect(request.tools.map((t: any) => t.name)).toContain("StructuredOutput")
+      expect(request.outputFormat).toBeUndefined()
+
+      const result = events.find((e) => e.type === "result")
+      expect(result.subtype).toBe("success")
+      expect(result.structured_output).toEqual({ name: "Ada" })
+      expect(events[events.length - 1].type).toBe("stop")
+      expect(provider.stream).toHaveBeenCalledTimes(1)
+    })
+
+    it("should leave structured output out of summary requests", async () => {
+      const session = createSessionImpl({ ...config, outputFormat }, provider, {
+        messages: [
+          { id: "u1", role: "user", content: "first" },
+          { id: "a1", role: "assistant", content: [{ type: "text", text: "one" }] },
+          { id: "u2", role: "user", content: "try something" },
+          { id: "a2", role: "assistant", content: [{ type: "text", text: "tried it" }] },
+        ],
+      }) as SessionImpl
+      session.createBranch("short", { fromMessageId: "a1", switch: true })
+
+      await session.mergeBranch("main")
+
+      const request = (provider.complete as any).mock.calls[0][0]
+      expect(request.systemPrompt ?? "").not.toContain("StructuredOutput")
+    })
+
+    it("should use native mode and validate the final text", async () => {
+      provider = { ...createMockProvider({ text: '{"name": "Ada"}' }), supportsOutputFormat: () => true }
+      const session = createSessionImpl({ ...config, outputFormat }, provider)
+      await session.send("Who wrote the first program?")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      const request = (provider.stream as any).mock.calls[0][0]
+      expect(request.outputFormat).toEqual(outputFormat)
+      expect(request.tools.map((t: any) => t.name)).not.toContain("StructuredOutput")
+      expect(events.find((e) => e.type === "result").structured_output).toEqual({ name: "Ada" })
+    })
+
+    it("should re-prompt with validation errors until retries run out", async () => {
+      provider = { ...createMockProvider({ text: '{"title": 1}' }), supportsOutputFormat: () => true }
+      const session = createSessionImpl({ ...config, outputFormat, maxStructuredOutputRetries: 1 }, provider)
+      await session.send("Who wrote the first program?")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      expect(provider.stream).toHaveBeenCalledTimes(2)
+      const retryPrompt = (provider.stream as any).mock.calls[1][0].messages.at(-1)
+      expect(retryPrompt.content).toContain("$.name: is required")
+
+      const result = events.find((e) => e.type === "result")
+      expect(result.subtype).toBe("error_max_structured_output_retries")
+      expect(result.structured_output).toBeUndefined()
+    })
+  })
+
+  describe("prompt and stop hooks", () => {
+    it("should add UserPromptSubmit context to the prompt", async () => {
+      const session = createSessionImpl(
+        {
+          ...config,
+          hooks: {
+            UserPromptSubmit: [
+              {
+                hooks: [
+                  async () => ({
+                    hookSpecificOutput: { hookEventName: "UserPromptSubmit", additionalContext: "Branch: main" },
+                  }),
+                ],
+              },
+            ],
+          },
+        },
+        provider
+      )
+      await session.send("Hello!")
+
+      for await (const _ of session.receive()) {
+        // drain
+      }
+
+      const prompt = (provider.stream as any).mock.calls[0][0].messages[0]
+      expect(prompt.content).toEqual([
+        { type: "text", text: "Hello!" },
+        { type: "text", text: "Branch: main" },
+      ])
+    })
+
+    it("should block the prompt when a UserPromptSubmit hook stops it", async () => {
+      const session = createSessionImpl(
+        {
+          ...config,
+          hooks: {
+            UserPromptSubmit: [{ hooks: [async () => ({ continue: false, stopReason: "Contains a secret" })] }],
+          },
+        },
+        provider
+      )
+      await session.send("my password is hunter2")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      expect(provider.stream).not.toHaveBeenCalled()
+      expect(events).toHaveLength(1)
+      expect(events[0].stop_reason).toBe("prompt_blocked")
+      expect(events[0].reason).toBe("Contains a secret")
+      expect(session.getMessages()).toHaveLength(0)
+    })
+
+    it("should keep working when a Stop hook asks to continue", async () => {
+      const stopInputs: any[] = []
+      const session = createSessionImpl(
+        {
+          ...config,
+          hooks: {
+            Stop: [
+              {
+                hooks: [
+                  async (input: any) => {
+                    stopInputs.push(input)
+                    return input.stop_hook_active
+                      ? { continue: false, stopReason: "Tests pass" }
+                      : { continue: true, systemMessage: "Run the tests first." }
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        provider
+      )
+      await session.send("Hello!")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      expect(provider.stream).toHaveBeenCalledTimes(2)
+      expect((provider.stream as any).mock.calls[1][0].messages.at(-1).content).toBe("Run the tests first.")
+      expect(stopInputs.map((i) => i.stop_hook_active)).toEqual([false, true])
+      expect(events.filter((e) => e.type === "stop")).toHaveLength(1)
+      expect(events.at(-1).reason).toBe("Tests pass")
+    })
+  })
+
+  describe("concurrent tool calls", () => {
+    /** Tool that records how many calls overlap */
+    function createTrackedTool(
+      name: string,
+      tracker: { active: number; peak: number; order: string[] },
+      flags: Partial<ToolDefinition>
+    ): ToolDefinition {
+      return {
+        name,
+        description: name,
+        inputSchema: { type: "object", properties: { delay: { type: "number" } } },
+        ...flags,
+        execute: async (input: any) => {
+          tracker.active++
+          tracker.peak = Math.max(tracker.peak, tracker.active)
+          await new Promise((resolve) => setTimeout(resolve, input.delay ?? 0))
+          tracker.active--
+          tracker.order.push(`${name}:${input.delay}`)
+          return { content: `${name} ${input.delay}` }
+        },
+      }
+    }
+
+    it("should run read-only calls in parallel and keep result order", async () => {
+      const tracker = { active: 0, peak: 0, order: [] as string[] }
+      provider = createScriptedMockProvider([
+        {
+          toolUses: [
+            { id: "t1", name: "Lookup", input: { delay: 30 } },
+            { id: "t2", name: "Lookup", input: { delay: 10 } },
+            { id: "t3", name: "Lookup", input: { delay: 20 } },
+          ],
+        },
+        { text: "Done" },
+      ])
+      const session = createSessionImpl(
+        { ...config, tools: [createTrackedTool("Lookup", tracker, { readOnly: true })], maxConcurrentTools: 2 },
+        provider
+      )
+      await session.send("Look things up")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      expect(tracker.peak).toBe(2)
+      // Events stream in completion order
+      expect(events.filter((e) => e.type === "tool_result").map((e) => e.tool_use_id)).toEqual(["t2", "t1", "t3"])
+      // The tool result message keeps call order
+      const resultMessage = session.getMessages()[2]
+      expect((resultMessage.content as any[]).map((b) => b.tool_use_id)).toEqual(["t1", "t2", "t3"])
+    })
+
+    it("should serialize tools with side effects", async () => {
+      const tracker = { active: 0, peak: 0, order: [] as string[] }
+      provider = createScriptedMockProvider([
+        {
+          toolUses: [
+            { id: "t1", name: "Lookup", input: { delay: 20 } },
+            { id: "t2", name: "Save", input: { delay: 0 } },
+            { id: "t3", name: "Lookup", input: { delay: 10 } },
+          ],
+        },
+        { text: "Done" },
+      ])
+      const session = createSessionImpl(
+        {
+          ...config,
+          tools: [createTrackedTool("Lookup", tracker, { readOnly: true }), createTrackedTool("Save", tracker, {})],
+        },
+        provider
+      )
+      await session.send("Look up and save")
+
+      for await (const _ of session.receive()) {
+        // drain
+      }
+
+      expect(tracker.peak).toBe(1)
+      expect(tracker.order).toEqual(["Lookup:20", "Save:0", "Lookup:10"])
+    })
+  })
+
+  describe("cost tracking", () => {
+    it("should not track cost unless enabled", async () => {
+      const session = createSessionImpl(config, provider)
+      await session.send("Hello!")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      expect(session.getCost()).toBeUndefined()
+      expect(events.at(-1).total_cost_usd).toBeUndefined()
+    })
+
+    it("should price every assistant message with the model id", async () => {
+      provider = createScriptedMockProvider([
+        { toolUses: [{ id: "t1", name: "Missing", input: {} }] },
+        { text: "Done" },
+      ])
+      const session = createSessionImpl({ ...config, model: "gpt-4o", trackCost: true }, provider)
+      await session.send("Hello!")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      // gpt-4o: $5 / 1M input, $15 / 1M output; two calls of 10 in / 20 out
+      const expected = 2 * ((10 / 1_000_000) * 5 + (20 / 1_000_000) * 15)
+      const cost = session.getCost()!
+      expect(cost.callCount).toBe(2)
+      expect(cost.byModel["gpt-4o"].calls).toBe(2)
+      expect(cost.totalCostUsd).toBeCloseTo(expected, 10)
+
+      const stop = events.at(-1)
+      expect(stop.type).toBe("stop")
+      expect(stop.total_cost_usd).toBeCloseTo(expected, 10)
+      expect(session.getUsage().total_cost_usd).toBeCloseTo(expected, 10)
+    })
+
+    it("should price prompt cache reads and writes and report the hit rate", async () => {
+      provider = createScriptedMockProvider([
+        {
+          toolUses: [{ id: "t1", name: "Missing", input: {} }],
+          usage: {
+            cache_creation_input_tokens: 1000,
+            cache_creation: { ephemeral_5m_input_tokens: 600, ephemeral_1h_input_tokens: 400 },
+          },
+        },
+        { text: "Done", usage: { cache_read_input_tokens: 1000 } },
+      ])
+      const session = createSessionImpl({ ...config, model: "claude-sonnet-4-20250514", trackCost: true }, provider)
+      await session.send("Hello!")
+      for await (const _ of session.receive()) {
+        // drain
+      }
+
+      // claude-sonnet-4: $3 in, $15 out, $3.75 5m writes, $6 1h writes, $0.30 reads per 1M
+      const expected =
+        2 * ((10 / 1_000_000) * 3 + (20 / 1_000_000) * 15) +
+        (600 / 1_000_000) * 3.75 +
+        (400 / 1_000_000) * 6 +
+        (1000 / 1_000_000) * 0.3
+      const cost = session.getCost()!
+      expect(cost.totalCostUsd).toBeCloseTo(expected, 10)
+      expect(cost.totalCacheReadTokens).toBe(1000)
+      expect(cost.cacheHitRate).toBeCloseTo(1000 / 2020, 10)
+
+      const usage = session.getUsage()
+      expect(usage.cache_creation_input_tokens).toBe(1000)
+      expect(usage.cache_read_input_tokens).toBe(1000)
+      expect(usage.cache_hit_rate).toBeCloseTo(1000 / 2020, 10)
+    })
+  })
+
+  describe("budgets", () => {
+    const toolLoop = () =>
+      createScriptedMockProvider([{ toolUses: [{ id: "t1", name: "Missing", input: {} }] }])
+
+    it("should stop once the cost budget is spent", async () => {
+      provider = toolLoop()
+      const session = createSessionImpl(
+        {
+          ...config,
+          // $1 per 1M tokens in and out: each call costs $0.00003
+          pricing: { default: { inputPricePerMillion: 1, outputPricePerMillion: 1 } },
+          maxBudgetUsd: 0.00005,
+        },
+        provider
+      )
+      await session.send("Loop forever")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      expect(provider.stream).toHaveBeenCalledTimes(2)
+      const stop = events.at(-1)
+      expect(stop.stop_reason).toBe("budget_exceeded")
+      expect(stop.reason).toContain("Cost budget")
+      expect(stop.total_cost_usd).toBeCloseTo(0.00006, 10)
+    })
+
+    it("should stop once the token budget is used", async () => {
+      provider = toolLoop()
+      const session = createSessionImpl({ ...config, maxTotalTokens: 90 }, provider)
+      await session.send("Loop forever")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      // 30 tokens per call
+      expect(provider.stream).toHaveBeenCalledTimes(3)
+      expect(events.at(-1).stop_reason).toBe("budget_exceeded")
+
+      // Later prompts stop before calling the model
+      await session.send("Again")
+      const again: any[] = []
+      for await (const event of session.receive()) {
+        again.push(event)
+      }
+      expect(provider.stream).toHaveBeenCalledTimes(3)
+      expect(again).toHaveLength(1)
+      expect(again[0].stop_reason).toBe("budget_exceeded")
+    })
+
+    it("should not run tool calls beyond the tool call budget", async () => {
+      provider = toolLoop()
+      const session = createSessionImpl({ ...config, maxToolCalls: 2 }, provider)
+      await session.send("Loop forever")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      expect(events.filter((e) => e.type === "tool_result")).toHaveLength(2)
+      expect(events.at(-1).stop_reason).toBe("budget_exceeded")
+      expect(events.at(-1).reason).toContain("Tool call budget of 2")
+    })
+
+    it("should answer tool calls skipped by the tool call budget", async () => {
+      const loop = { toolUses: [{ id: "t1", name: "Missing", input: {} }] }
+      provider = createScriptedMockProvider([loop, loop, { text: "Done" }])
+      const session = createSessionImpl({ ...config, maxToolCalls: 1 }, provider)
+      await session.send("Loop forever")
+      for await (const _ of session.receive()) {
+        // drain
+      }
+
+      // The next prompt is sent with every tool call answered
+      await session.send("Stop looping")
+      for await (const _ of session.receive()) {
+        // drain
+      }
+
+      const messages: SDKMessage[] = (provider.stream as any).mock.calls[2][0].messages
+      expect(messages.at(-3)!.content).toEqual([expect.objectContaining({ type: "tool_use", id: "t1" })])
+      expect(messages.at(-2)!.content).toEqual([
+        { type: "tool_result", tool_use_id: "t1", content: "Tool call budget exceeded", is_error: true },
+      ])
+      expect(messages.at(-1)!.content).toBe("Stop looping")
+    })
+  })
+
+  describe("thinking", () => {
+    it("should stream thinking and keep the signed block in the history", async () => {
+      provider = createScriptedMockProvider([
+        {
+          thinking: { thinking: "Need the weather tool", signature: "sig-1" },
+          toolUses: [{ id: "t1", name: "Missing", input: {} }],
+        },
+        { text: "Sunny" },
+      ])
+      const session = createSessionImpl({ model: "mock-model" }, provider)
+      await session.send("Weather?")
+
+      const events: any[] = []
+      for await (const event of session.receive()) {
+        events.push(event)
+      }
+
+      expect(events.filter((e) => e.type === "thinking")).toEqual([
+        { type: "thinking", thinking: "Need the weather tool" },
+      ])
+      const assistant = session.state.messages[1].content as any[]
+      expect(assistant[0]).toEqual({
+        type: "thinking",
+        thinking: "Need the weather tool",
+        signature: "sig-1",
+        provider: "mock",
+      })
+      expect(assistant[1].type).toBe("tool_use")
+
+      // Sent back unchanged on the tool result turn
+      const secondRequest = (provider.stream as any).mock.calls[1][0] as LLMRequest
+      expect((secondRequest.messages[1].content as any[])[0]).toEqual(assistant[0])
+    })
+  })
+
+  describe("tool choice", () => {
+    const tool: ToolDefinition = {
+      name: "Lookup",
+      description: "Look something up",
+      inputSchema: { type: "object", properties: {} },
+      execute: async () => ({ content: "found" }),
+    }
+
+    it("should pick the tool choice per turn from the config and TurnStart hooks", async () => {
+      provider = createScriptedMockProvider([
+        { toolUses: [{ id: "t1", name: "Lookup", input: {} }] },
+        { toolUses: [{ id: "t2", name: "Lookup", input: {} }] },
+        { text: "Done" },
+      ])
+      const hookInputs: any[] = []
+      const session = createSessionImpl(
+        {
+          model: "mock-model",
+          tools: [tool],
+          toolChoice: (turn) => (turn === 1 ? { name: "Lookup" } : "auto"),
+          parallelToolCalls: false,
+          hooks: {
+            TurnStart: [
+              {
+                hooks: [
+                  async (input: any) => {
+                    hookInputs.push(input)
+                    return input.turn === 3 ? { hookSpecificOutput: { hookEventName: "TurnStart", toolChoice: "none" } } : {}
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        provider
+      )
+      await session.send("Find it")
+      for await (const _ of session.receive()) {
+        // drain
+      }
+
+      const requests = (provider.stream as any).mock.calls.map((call: any[]) => call[0] as LLMRequest)
+      expect(requests.map((r: LLMRequest) => r.toolChoice)).toEqual([{ name: "Lookup" }, "auto", "none"])
+      expect(requests.every((r: LLMRequest) => r.parallelToolCalls === false)).toBe(true)
+      expect(hookInputs.map((i) => i.turn)).toEqual([1, 2, 3])
+      expect(hookInputs[0].tool_names).toContain("Lookup")
+    })
+  })
+
+  describe("getMessages()", () => {
+    it("should return copy of messages", async () => {
+      const session = createSessionImpl(config, provider)
+      await session.send("Hello!")
+
+      const messages = session.getMessages()
+      messages.push({ id: "fake", role: "user", content: "Fake" })
+
+      // Original should not be modified
+      expect(session.getMessages()).toHaveLength(1)
+    })
+  })
+
+  describe("getUsage()", () => {
+    it("should return copy of usage", async () => {
+      const session = createSessionImpl(config, provider)
+      await session.send("Hello!")
+
+      for await (const event of session.receive()) {
+        // Consume
+      }
+
+      const usage = session.getUsage()
+      const originalInput = usage.input_tokens
+      usage.input_tokens = 99999
+
+      // Original should not be modified
+      expect(session.getUsage().input_tokens).toBe(originalInput)
+    })
+  })
+
+  describe("close()", () => {
+    it("should mark session as closed", async () => {
+      const session = createSessionImpl(config, provider)
+      await session.close()
+
+      expect(session.send("Test")).rejects.toThrow("Session is closed")
+    })
+
+    it("should be idempotent", async () => {
+      const session = createSessionImpl(config, provider)
+      await session.close()
+      await session.close() // Should not throw
+
+      expect(true).toBe(true)
+    })
+  })
+
+  describe("asyncDispose", () => {
+    it("should support async disposal", async () => {
+      const session = createSessionImpl(config, provider)
+
+      await session[Symbol.asyncDispose]()
+
+      expect(session.send("Test")).rejects.toThrow("Session is closed")
+    })
+  })
+})
+
+// =============================================================================
+// SessionManager Tests
+// =============================================================================
+
+describe("SessionManagerImpl", () => {
+  let provider: LLMProvider
+  let storage: MemorySessionStorage
+  let manager: SessionManagerImpl
+
+  beforeEach(() => {
+    provider = createMockProvider({ text: "Hello!" })
+    storage = new MemorySessionStorage()
+    manager = new SessionManagerImpl({ provider, storage })
+  })
+
+  afterEach(async () => {
+    await manager.closeAll()
+  })
+
+  describe("create()", () => {
+    it("should create new session", async () => {
+      const session = await manager.create({ model: "test-model" })
+
+      expect(session).toBeDefined()
+      expect(session.id).toBeDefined()
+    })
+
+    it("should store session in active sessions", async () => {
+      const session = await manager.create()
+
+      expect(manager.get(session.id)).toBe(session)
+    })
+
+    it("should save initial state to storage", async () => {
+      const session = await manager.create()
+
+      const storedState = await storage.load(session.id)
+      expect(storedState).toBeDefined()
+      expect(storedState?.id).toBe(session.id)
+    })
+
+    it("should merge default config with provided config", async () => {
+      const managerWithDefaults = new SessionManagerImpl({
+        provider,
+        storage,
+        defaultConfig: { model: "default-model", maxTurns: 10 },
+      })
+
+      const session = await managerWithDefaults.create({ model: "custom-model" })
+
+      expect(session.config.model).toBe("custom-model")
+      expect(session.config.maxTurns).toBe(10)
+    })
+
+    it("should handle resume option", async () => {
+      // Create initial session
+      const original = await manager.create()
+      await original.send("Hello!")
+      await manager.close(original.id)
+
+      // Resume
+      const resumed = await manager.create({ resume: original.id })
+
+      expect(resumed.id).toBe(original.id)
+      expect(resumed.state.messages).toHaveLength(1)
+    })
+
+    it("should handle fork option", async () => {
+      // Create initial session
+      const original = await manager.create()
+      await original.send("Hello!")
+      // Save state to storage before forking
+      await storage.save(original.state)
+
+      // Fork
+      const forked = await manager.create({ fork: original.id })
+
+      expect(forked.id).not.toBe(original.id)
+      expect(forked.state.parentId).toBe(original.id)
+      expect(forked.state.messages).toHaveLength(1)
+    })
+  })
+
+  describe("resume()", () => {
+    it("should resume existing session from storage", async () => {
+      // Create and close session
+      const original = await manager.create()
+      await original.send("Test message")
+      await manager.close(original.id)
+
+      // Resume
+      const resumed = await manager.resume(original.id)
+
+      expect(resumed.id).toBe(original.id)
+      expect(resumed.state.messages).toHaveLength(1)
+      expect(resumed.state.messages[0].content).toBe("Test message")
+    })
+
+    it("should return active session if already exists", async () => {
+      const original = await manager.create()
+
+      const resumed = await manager.resume(original.id)
+
+      expect(resumed).toBe(original)
+    })
+
+    it("should throw if session not found", async () => {
+      expect(manager.resume("non-existent")).rejects.toThrow("Session not found")
+    })
+
+    it("should merge additional config", async () => {
+      const original = await manager.create({ model: "original-model" })
+      await manager.close(original.id)
+
+      const resumed = await manager.resume(original.id, { maxTurns: 5 })
+
+      expect(resumed.config.maxTurns).toBe(5)
+    })
+  })
+
+  describe("fork()", () => {
+    it("should create new session with copied state", async () => {
+      const original = await manager.create()
+      await original.send("Message 1")
+      await original.send("Message 2")
+      // Save state to storage before forking
+      await storage.save(original.state)
+
+      const forked = await manager.fork(original.id)
+
+      expect(forked.id).not.toBe(original.id)
+      expect(forked.state.messages).toHaveLength(2)
+    })
+
+    it("should set parentId to original session", async () => {
+      const original = await manager.create()
+      // State is saved on create, so fork should work
+
+      const forked = await manager.fork(original.id)
+
+      expect(forked.state.parentId).toBe(original.id)
+    })
+
+    it("should deep clone messages", async () => {
+      const original = await manager.create()
+      await original.send("Original message")
+      // Save state to storage before forking
+      await storage.save(original.state)
+
+      const forked = await manager.fork(original.id)
+      await forked.send("Forked message")
+
+      // Original should not be affected
+      expect(original.state.messages).toHaveLength(1)
+      expect(forked.state.messages).toHaveLength(2)
+    })
+
+    it("should throw if session not found", async () => {
+      expect(manager.fork("non-existent")).rejects.toThrow("Session not found")
+    })
+
+    it("should save forked state to storage", async () => {
+      const original = await manager.create()
+
+      const forked = await manager.fork(original.id)
+
+      const storedState = await storage.load(forked.id)
+      expect(storedState).toBeDefined()
+      expect(storedState?.parentId).toBe(original.id)
+    })
+
+    describe("with FileSessionStorage", () => {
+      let dir: string
+      let fileStorage: FileSessionStorage
+      let fileManager: SessionManagerImpl
+
+      beforeEach(() => {
+        dir = join(tmpdir(), `session-fork-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+        fileStorage = new FileSessionStorage(dir)
+        fileManager = new SessionManagerImpl({ provider, storage: fileStorage })
+      })
+
+      afterEach(async () => {
+        await fileManager.closeAll()
+        await rm(dir, { recursive: true, force: true })
+      })
+
+      it("should not store the parent's messages again", async () => {
+        const original = await fileManager.create()
+        await original.send("Parent message")
+        await fileStorage.save(original.state)
+
+        const forked = await fileManager.fork(original.id)
+        await forked.send("Fork message")
+        await fileStorage.save(forked.state)
+
+        const raw = await readFile(join(dir, `${forked.id}.json`), "utf-8")
+        expect(raw).not.toContain("Parent message")
+        expect(JSON.parse(raw)).toMatchObject({ parentId: original.id, forkIndex: 1 })
+
+        const loaded = await fileStorage.load(forked.id)
+        expect(loaded?.messages.map((m) => m.content)).toEqual(["Parent message", "Fork message"])
+      })
+
+      it("should give forks their shared history before the parent changes it", async () => {
+        const original = await fileManager.create()
+        await original.send("Parent message")
+        await fileStorage.save(original.state)
+
+        const rewound = await fileManager.fork(original.id)
+
+        // The parent's history is replaced
+        await fileStorage.save({ ...original.state, messages: [{ id: "other", role: "user", content: "Other" }] })
+        expect((await fileStorage.load(rewound.id))?.messages.map((m) => m.content)).toEqual(["Parent message"])
+        expect(await readFile(join(dir, `${rewound.id}.json`), "utf-8")).toContain("Parent message")
+
+        // The parent is deleted
+        const orphaned = await fileManager.fork(original.id)
+        expect(await readFile(join(dir, `${orphaned.id}.json`), "utf-8")).not.toContain("Other")
+        await fileStorage.delete(original.id)
+        expect((await fileStorage.load(orphaned.id))?.messages.map((m) => m.content)).toEqual(["Other"])
+        expect(await readdir(dir)).not.toContain(`${original.id}.json.forks`)
+      })
+
+      it("should not reload the parent on every save", async () => {
+        const original = await fileManager.create()
+        await original.send("Parent message")
+        await fileStorage.save(original.state)
+        const forked = await fileManager.fork(original.id)
+
+        const load = spyOn(fileStorage, "load")
+        try {
+          for (let i = 0; i < 3; i++) {
+            await forked.send(`Fork message ${i}`)
+            await fileStorage.save(forked.state)
+            await original.send(`Parent message ${i}`)
+            await fileStorage.save(original.state)
+          }
+          // Only the parent's first save reads its previous history
+          expect(load.mock.calls.map(([id]) => id)).toEqual([original.id])
+        } finally {
+          load.mockRestore()
+        }
+        expect((await fileStorage.load(forked.id))?.messages).toHaveLength(4)
+      })
+
+      it("should count and remove fork lists when pruning", async () => {
+        const original = await fileManager.create()
+        await original.send("Parent message")
+        await fileStorage.save({ ...original.state, updatedAt: 0 })
+        const forked = await fileManager.fork(original.id)
+
+        const parentFile = join(dir, `${original.id}.json`)
+        const bytes = (await stat(parentFile)).size + (await stat(`${parentFile}.forks`)).size
+        expect(await fileStorage.sizeOf(original.id)).toBe(bytes)
+
+        const result = await pruneSessions(fileStorage, { maxAgeMs: 60_000 })
+        expect(result.deleted).toEqual([original.id])
+        expect(result.freedBytes).toBe(bytes)
+        const files = await readdir(dir)
+        expect(files).not.toContain(`${original.id}.json`)
+        expect(files).not.toContain(`${original.id}.json.forks`)
+        expect((await fileStorage.load(forked.id))?.messages.map((m) => m.content)).toEqual(["Parent message"])
+      })
+    })
+  })
+
+  describe("get()", () => {
+    it("should return active session", async () => {
+      const session = await manager.create()
+
+      expect(manager.get(session.id)).toBe(session)
+    })
+
+    it("should return undefined for unknown session", () => {
+      expect(manager.get("unknown")).toBeUndefined()
+    })
+  })
+
+  describe("list()", () => {
+    it("should return list of active session ids", async () => {
+      const session1 = await manager.create()
+      const session2 = await manager.create()
+
+      const list = manager.list()
 
       expect(list).toContain(session1.id)
       expect(list).toContain(session2.id)
     })
 
-    it("should return empty array when no sessions", () => {
-      expect(manager.list()).toEqual([])
+    it("should return empty array when no sessions", () => {
+      expect(manager.list()).toEqual([])
+    })
+  })
+
+  describe("close()", () => {
+    it("should save final state before closing", async () => {
+      const session = await manager.create()
+      await session.send("Final message")
+
+      await manager.close(session.id)
+
+      const storedState = await storage.load(session.id)
+      expect(storedState?.messages).toHaveLength(1)
+    })
+
+    it("should remove session from active sessions", async () => {
+      const session = await manager.create()
+
+      await manager.close(session.id)
+
+      expect(manager.get(session.id)).toBeUndefined()
+    })
+
+    it("should be safe to call on non-existent session", async () => {
+      await manager.close("non-existent") // Should not throw
+
+      expect(true).toBe(true)
+    })
+  })
+
+  describe("closeAll()", () => {
+    it("should close all active sessions", async () => {
+      await manager.create()
+      await manager.create()
+      await manager.create()
+
+      await manager.closeAll()
+
+      expect(manager.list()).toEqual([])
+    })
+  })
+
+  describe("getStorage()", () => {
+    it("should return storage instance", () => {
+      expect(manager.getStorage()).toBe(storage)
+    })
+  })
+
+  describe("getProvider()", () => {
+    it("should return provider instance", () => {
+      expect(manager.getProvider()).toBe(provider)
+    })
+  })
+})
+
+// =============================================================================
+// SessionStorage Tests
+// =============================================================================
+
+describe("MemorySessionStorage", () => {
+  let storage: MemorySessionStorage
+
+  beforeEach(() => {
+    storage = new MemorySessionStorage()
+  })
+
+  const createTestState = (id: string): SessionState => ({
+    id,
+    messages: [{ id: "msg1", role: "user", content: "Hello" }],
+    usage: { input_tokens: 10, output_tokens: 20 },
+    metadata: { key: "value" },
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  })
+
+  describe("save()", () => {
+    it("should save session state", async () => {
+      const state = createTestState("session1")
+
+      await storage.save(state)
+
+      expect(await storage.load("session1")).toBeDefined()
+    })
+
+    it("should clone state to prevent mutations", async () => {
+      const state = createTestState("session1")
+
+      await storage.save(state)
+      state.messages.push({ id: "msg2", role: "user", content: "Modified" })
+
+      const loaded = await storage.load("session1")
+      expect(loaded?.messages).toHaveLength(1)
+    })
+  })
+
+  describe("load()", () => {
+    it("should return undefined for non-existent session", async () => {
+      expect(await storage.load("unknown")).toBeUndefined()
+    })
+
+    it("should return clone of stored state", async () => {
+      const state = createTestState("session1")
+      await storage.save(state)
+
+      const loaded1 = await storage.load("session1")
+      const loaded2 = await storage.load("session1")
+
+      // Should be equal but not same reference
+      expect(loaded1).toEqual(loaded2)
+      expect(loaded1).not.toBe(loaded2)
+    })
+  })
+
+  describe("delete()", () => {
+    it("should remove session from storage", async () => {
+      const state = createTestState("session1")
+      await storage.save(state)
+
+      await storage.delete("session1")
+
+      expect(await storage.load("session1")).toBeUndefined()
+    })
+
+    it("should be safe to delete non-existent session", async () => {
+      await storage.delete("unknown") // Should not throw
+
+      expect(true).toBe(true)
+    })
+  })
+
+  describe("list()", () => {
+    it("should return all session ids", async () => {
+      await storage.save(createTestState("session1"))
+      await storage.save(createTestState("session2"))
+
+      const list = await storage.list()
+
+      expect(list).toContain("session1")
+      expect(list).toContain("session2")
+    })
+
+    it("should return empty array when no sessions", async () => {
+      expect(await storage.list()).toEqual([])
+    })
+  })
+
+  describe("clear()", () => {
+    it("should remove all sessions", async () => {
+      await storage.save(createTestState("session1"))
+      await storage.save(createTestState("session2"))
+
+      storage.clear()
+
+      expect(await storage.list()).toEqual([])
+    })
+  })
+
+  describe("size()", () => {
+    it("should return number of stored sessions", async () => {
+      await storage.save(createTestState("session1"))
+      await storage.save(createTestState("session2"))
+
+      expect(storage.size()).toBe(2)
+    })
+  })
+})
+
+describe("FileSessionStorage", () => {
+  let storage: FileSessionStorage
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `session-test-${Date.now()}`)
+    await mkdir(testDir, { recursive: true })
+    storage = new FileSessionStorage(testDir)
+  })
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true })
+    } catch {
+      // Ignore cleanup errors
+    }
+  })
+
+  const createTestState = (id: string): SessionState => ({
+    id,
+    messages: [{ id: "msg1", role: "user", content: "Hello" }],
+    usage: { input_tokens: 10, output_tokens: 20 },
+    metadata: { key: "value" },
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  })
+
+  describe("validation", () => {
+    it("should reject empty session ids", async () => {
+      await expect(storage.load("")).rejects.toThrow("Session ID must be non-empty")
+      await expect(storage.delete("")).rejects.toThrow("Session ID must be non-empty")
+      await expect(storage.save(createTestState(""))).rejects.toThrow(
+        "Session ID must be non-empty"
+      )
+    })
+
+    it("should reject path traversal session ids", async () => {
+      await expect(storage.load("../evil")).rejects.toThrow("Invalid session ID")
+      await expect(storage.delete("../evil")).rejects.toThrow("Invalid session ID")
+      await expect(storage.save(createTestState("../evil"))).rejects.toThrow("Invalid session ID")
+    })
+  })
+
+  describe("save()", () => {
+    it("should save session to file", async () => {
+      const state = createTestState("session1")
+
+      await storage.save(state)
+
+      const loaded = await storage.load("session1")
+      expect(loaded).toBeDefined()
+      expect(loaded?.id).toBe("session1")
+    })
+
+    it("should create directory if not exists", async () => {
+      const nestedDir = join(testDir, "nested", "dir")
+      const nestedStorage = new FileSessionStorage(nestedDir)
+
+      await nestedStorage.save(createTestState("test"))
+
+      const loaded = await nestedStorage.load("test")
+      expect(loaded).toBeDefined()
     })
   })
 
-  describe("close()", () => {
-    it("should save final state before closing", async () => {
-      const session = await manager.create()
-      await session.send("Final message")
+  describe("load()", () => {
+    it("should return undefined for non-existent session", async () => {
+      expect(await storage.load("unknown")).toBeUndefined()
+    })
 
-      await manager.close(session.id)
+    it("should load session from file", async () => {
+      const state = createTestState("session1")
+      state.metadata = { custom: "data" }
+
+      await storage.save(state)
+      const loaded = await storage.load("session1")
+
+      expect(loaded?.metadata).toEqual({ custom: "data" })
+    })
+
+    it("should store branch history once and rebuild messages", async () => {
+      const state = createTestState("branched")
+      state.messages = [
+        { id: "msg1", role: "user", content: "Hello" },
+        { id: "msg2", role: "user", content: "Alt" },
+      ]
+      state.branches = {
+        main: { forkIndex: 0, messages: [{ id: "msg1", role: "user", content: "Hello" }], createdAt: 1 },
+        alt: { parent: "main", forkIndex: 1, messages: [{ id: "msg2", role: "user", content: "Alt" }], createdAt: 2 },
+      }
+      state.activeBranch = "alt"
+
+      await storage.save(state)
+      const raw = JSON.parse(await readFile(join(testDir, "branched.json"), "utf-8"))
+      const loaded = await storage.load("branched")
+
+      expect(raw.messages).toBeUndefined()
+      expect(loaded?.messages.map((m) => m.id)).toEqual(["msg1", "msg2"])
+    })
+  })
+
+  describe("delete()", () => {
+    it("should delete session file", async () => {
+      await storage.save(createTestState("session1"))
+
+      await storage.delete("session1")
+
+      expect(await storage.load("session1")).toBeUndefined()
+    })
+
+    it("should be safe to delete non-existent session", async () => {
+      await storage.delete("unknown") // Should not throw
+
+      expect(true).toBe(true)
+    })
+  })
+
+  describe("list()", () => {
+    it("should list all session files", async () => {
+      await storage.save(createTestState("session1"))
+      await storage.save(createTestState("session2"))
+
+      const list = await storage.list()
+
+      expect(list).toContain("session1")
+      expect(list).toContain("session2")
+    })
+
+    it("should return empty array for empty directory", async () => {
+      expect(await storage.list()).toEqual([])
+    })
+
+    it("should return empty array if directory does not exist", async () => {
+      const nonExistent = new FileSessionStorage("/non/existent/path")
+
+      expect(await nonExistent.list()).toEqual([])
+    })
+  })
+})
+
+describe("JsonlSessionStorage", () => {
+  let storage: JsonlSessionStorage
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `session-jsonl-${Date.now()}`)
+    storage = new JsonlSessionStorage(testDir)
+  })
+
+  afterEach(async () => {
+    await storage.close()
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  const createTestState = (id: string): SessionState => ({
+    id,
+    messages: [{ id: "msg1", role: "user", content: "Hello" }],
+    usage: { input_tokens: 10, output_tokens: 20 },
+    metadata: {},
+    createdAt: 1000,
+    updatedAt: 1000,
+  })
+
+  const readLines = async (id: string) =>
+    (await readFile(join(testDir, `${id}.jsonl`), "utf-8")).split("\n").filter(Boolean)
+
+  it("should round-trip session state", async () => {
+    const state = createTestState("session1")
+    await storage.save(state)
+
+    expect(await storage.load("session1")).toEqual({ ...state, schemaVersion: 1 })
+    expect(await storage.load("unknown")).toBeUndefined()
+    expect(await storage.list()).toEqual(["session1"])
+  })
+
+  it("should append new messages instead of rewriting", async () => {
+    const state = createTestState("session1")
+    await storage.save(state)
+    expect(await readLines("session1")).toHaveLength(2)
+
+    state.messages.push({ id: "msg2", role: "assistant", content: [{ type: "text", text: "Hi" }] })
+    await storage.save(state)
+    expect(await readLines("session1")).toHaveLength(3)
+
+    state.usage = { input_tokens: 20, output_tokens: 40 }
+    await storage.save(state)
+    const lines = await readLines("session1")
+    expect(lines).toHaveLength(4)
+    expect(JSON.parse(lines[3]).type).toBe("state")
+    expect((await storage.load("session1"))?.usage.input_tokens).toBe(20)
+  })
+
+  it("should rewrite the file when earlier messages change", async () => {
+    const state = createTestState("session1")
+    state.messages.push({ id: "msg2", role: "user", content: "More" })
+    await storage.save(state)
+
+    state.messages = [{ id: "msg3", role: "user", content: "Rewound" }]
+    await storage.save(state)
+
+    expect(await readLines("session1")).toHaveLength(2)
+    expect((await storage.load("session1"))?.messages).toEqual(state.messages)
+  })
+
+  it("should drop a torn last line and repair it on the next save", async () => {
+    const state = createTestState("session1")
+    await storage.save(state)
+    await storage.close()
+    await appendFile(join(testDir, "session1.jsonl"), '{"type":"message","message":{"id":"msg2","ro')
+
+    const reopened = new JsonlSessionStorage(testDir)
+    const loaded = await reopened.load("session1")
+    expect(loaded?.messages).toHaveLength(1)
+
+    loaded!.messages.push({ id: "msg2", role: "user", content: "Again" })
+    await reopened.save(loaded!)
+    await reopened.close()
+
+    expect((await readLines("session1")).map((l) => JSON.parse(l).type)).toEqual(["state", "message", "message"])
+  })
+
+  it("should reject corrupt lines before the end", async () => {
+    await mkdir(testDir, { recursive: true })
+    await writeFile(join(testDir, "bad.jsonl"), 'not json\n{"type":"state","state":{}}\n')
+
+    await expect(storage.load("bad")).rejects.toThrow("Corrupt session transcript")
+  })
+
+  it("should lock a session against other writers until released", async () => {
+    await storage.save(createTestState("session1"))
+
+    const other = new JsonlSessionStorage(testDir)
+    await expect(other.save(createTestState("session1"))).rejects.toBeInstanceOf(SessionLockedError)
+
+    await storage.release("session1")
+    await other.save(createTestState("session1"))
+    await other.close()
+  })
+
+  it("should take over locks left by dead processes", async () => {
+    await mkdir(testDir, { recursive: true })
+    await writeFile(join(testDir, "session1.jsonl.lock"), JSON.stringify({ pid: 2 ** 22 + 1, acquiredAt: 0 }))
+
+    await storage.save(createTestState("session1"))
+    expect(await storage.load("session1")).toBeDefined()
+  })
+
+  it("should not take over locks held on another machine", async () => {
+    await mkdir(testDir, { recursive: true })
+    const lockPath = join(testDir, "session1.jsonl.lock")
+    await writeFile(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, host: `not-${hostname()}`, acquiredAt: 0 }))
+
+    await expect(storage.save(createTestState("session1"))).rejects.toBeInstanceOf(SessionLockedError)
+
+    await rm(lockPath)
+    await storage.save(createTestState("session1"))
+    expect((await readLockInfo(lockPath))?.host).toBe(hostname())
+  })
+
+  it("should let only one of several contenders take over a stale lock", async () => {
+    await mkdir(testDir, { recursive: true })
+    const lockPath = join(testDir, "race.lock")
+
+    // The interleaving that lets two contenders win is timing dependent, so race repeatedly
+    for (let round = 0; round < 20; round++) {
+      await writeFile(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, acquiredAt: round }))
+
+      const results = await Promise.allSettled(Array.from({ length: 8 }, () => acquireFileLock(lockPath, "race")))
+
+      expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1)
+      for (const result of results) {
+        if (result.status === "rejected") expect(result.reason).toBeInstanceOf(SessionLockedError)
+      }
+      expect((await readLockInfo(lockPath))?.pid).toBe(process.pid)
+      expect(await readdir(testDir)).toEqual(["race.lock"])
+      await rm(lockPath)
+    }
+  })
+})
+
+describe("SqliteSessionStorage", () => {
+  let storage: SqliteSessionStorage
+
+  beforeEach(() => {
+    storage = new SqliteSessionStorage()
+  })
+
+  afterEach(async () => {
+    await storage.close()
+  })
+
+  const createTestState = (id: string, overrides: Partial<SessionState> = {}): SessionState => ({
+    id,
+    messages: [{ id: "msg1", role: "user", content: "Hello" }],
+    usage: { input_tokens: 10, output_tokens: 20 },
+    metadata: {},
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  })
+
+  it("should round-trip session state", async () => {
+    const state = createTestState("session1", {
+      metadata: { project: "demo" },
+      parentId: "parent",
+      messages: [
+        { id: "msg1", role: "user", content: "Hello" },
+        { id: "msg2", role: "assistant", content: [{ type: "text", text: "Hi" }], stop_reason: "end_turn" },
+      ],
+    })
+
+    await storage.save(state)
+
+    expect(await storage.load("session1")).toEqual({ ...state, schemaVersion: 1 })
+    expect(await storage.load("unknown")).toBeUndefined()
+    expect(await storage.list()).toEqual(["session1"])
+  })
+
+  it("should replace changed messages and drop removed ones", async () => {
+    const state = createTestState("session1")
+    await storage.save(state)
+
+    state.messages = [
+      { id: "msg1", role: "user", content: "Hello" },
+      { id: "msg2", role: "assistant", content: [{ type: "text", text: "Hi" }] },
+    ]
+    await storage.save(state)
+    expect((await storage.load("session1"))?.messages).toHaveLength(2)
+
+    state.messages = [{ id: "msg3", role: "user", content: "Rewound" }]
+    await storage.save(state)
+    expect((await storage.load("session1"))?.messages).toEqual(state.messages)
+    expect(await storage.query({ search: "Hello" })).toEqual([])
+  })
+
+  it("should delete sessions", async () => {
+    await storage.save(createTestState("session1"))
+    await storage.delete("session1")
+
+    expect(await storage.load("session1")).toBeUndefined()
+    expect(await storage.count()).toBe(0)
+  })
+
+  it("should filter by time, parent and metadata", async () => {
+    await storage.save(createTestState("old", { createdAt: 100, updatedAt: 100, metadata: { team: "a" } }))
+    await storage.save(createTestState("new", { createdAt: 500, updatedAt: 900, metadata: { team: "b" } }))
+    await storage.save(createTestState("fork", { createdAt: 600, updatedAt: 600, parentId: "new" }))
+
+    expect((await storage.query({ updatedAfter: 500 })).map((s) => s.id)).toEqual(["new", "fork"])
+    expect((await storage.query({ createdBefore: 500 })).map((s) => s.id)).toEqual(["old"])
+    expect((await storage.query({ parentId: "new" })).map((s) => s.id)).toEqual(["fork"])
+    expect((await storage.query({ metadata: { team: "b" } })).map((s) => s.id)).toEqual(["new"])
+    expect(await storage.query({ metadata: { team: "b" } })).toEqual([
+      { id: "new", parentId: undefined, metadata: { team: "b" }, messageCount: 1, createdAt: 500, updatedAt: 900 },
+    ])
+  })
+
+  it("should filter by tool use and message text", async () => {
+    await storage.save(
+      createTestState("tools", {
+        messages: [
+          { id: "msg1", role: "user", content: "List the files" },
+          {
+            id: "msg2",
+            role: "assistant",
+            content: [{ type: "tool_use", id: "t1", name: "Bash", input: { command: "ls" } }],
+          },
+          {
+            id: "msg3",
+            role: "user",
+            content: [{ type: "tool_result", tool_use_id: "t1", content: "package.json" }],
+          },
+        ],
+      })
+    )
+    await storage.save(createTestState("chat"))
+
+    expect((await storage.query({ toolName: "Bash" })).map((s) => s.id)).toEqual(["tools"])
+    expect((await storage.query({ search: "package.json" })).map((s) => s.id)).toEqual(["tools"])
+    expect((await storage.query({ search: "hello" })).map((s) => s.id)).toEqual(["chat"])
+    expect((await storage.query({ search: 'the "files' })).map((s) => s.id)).toEqual(["tools"])
+  })
+
+  it("should page and sort results", async () => {
+    for (let i = 0; i < 5; i++) {
+      await storage.save(createTestState(`s${i}`, { createdAt: i, updatedAt: i }))
+    }
+
+    const page = await storage.query({ orderBy: "createdAt", order: "asc", limit: 2, offset: 2 })
+    expect(page.map((s) => s.id)).toEqual(["s2", "s3"])
+    expect((await storage.query({ limit: 1 }))[0].id).toBe("s4")
+    expect(await storage.count({ createdAfter: 3 })).toBe(2)
+  })
+
+  it("should persist to a database file", async () => {
+    const dir = join(tmpdir(), `session-sqlite-${Date.now()}`)
+    const file = new SqliteSessionStorage({ path: join(dir, "sessions.db") })
+    await file.save(createTestState("session1"))
+    await file.close()
+
+    const reopened = createSessionStorage("sqlite", { directory: dir }) as SqliteSessionStorage
+    expect((await reopened.load("session1"))?.messages).toHaveLength(1)
+    await reopened.close()
+    await rm(dir, { recursive: true, force: true })
+  })
+})
+
+describe("createSessionStorage()", () => {
+  it("should create MemorySessionStorage by default", () => {
+    const storage = createSessionStorage()
+
+    expect(storage).toBeInstanceOf(MemorySessionStorage)
+  })
+
+  it("should create MemorySessionStorage for type memory", () => {
+    const storage = createSessionStorage("memory")
+
+    expect(storage).toBeInstanceOf(MemorySessionStorage)
+  })
+
+  it("should create FileSessionStorage for type file", () => {
+    const storage = createSessionStorage("file", { directory: "/tmp/test" })
+
+    expect(storage).toBeInstanceOf(FileSessionStorage)
+  })
+
+  it("should throw if file storage without directory", () => {
+    expect(() => createSessionStorage("file")).toThrow(
+      "File storage requires a directory option"
+    )
+  })
+
+  it("should create JsonlSessionStorage for type jsonl", () => {
+    const storage = createSessionStorage("jsonl", { directory: "/tmp/test" })
+
+    expect(storage).toBeInstanceOf(JsonlSessionStorage)
+  })
+
+  it("should create SqliteSessionStorage for type sqlite", () => {
+    const storage = createSessionStorage("sqlite")
+
+    expect(storage).toBeInstanceOf(SqliteSessionStorage)
+  })
+})
+
+describe("session migrations", () => {
+  it("should upgrade records saved before versioning", () => {
+    const state = migrateSessionState({ id: "old", messages: [], createdAt: 5 })
+
+    expect(state).toMatchObject({
+      id: "old",
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      usage: { input_tokens: 0, output_tokens: 0 },
+      metadata: {},
+      updatedAt: 5,
+    })
+  })
+
+  it("should reject records from a newer schema", () => {
+    expect(() => migrateSessionState({ id: "new", schemaVersion: SESSION_SCHEMA_VERSION + 1 })).toThrow(
+      SessionSchemaError
+    )
+  })
+
+  it("should run registered migrations in order", () => {
+    const registry = new SessionMigrationRegistry(0)
+    registry.register({
+      from: 1,
+      to: 2,
+      description: "Rename label to title",
+      migrate: ({ label, ...record }) => ({ ...record, metadata: { title: label } }),
+    })
+    registry.register({ from: 0, to: 1, description: "Add label", migrate: (record) => ({ ...record, label: "x" }) })
+
+    expect(registry.version).toBe(2)
+    expect(registry.migrate({ id: "s" })).toEqual({ id: "s", metadata: { title: "x" }, schemaVersion: 2 } as any)
+    expect(() => registry.register({ from: 2, to: 4, description: "", migrate: (r) => r })).toThrow()
+  })
+
+  it("should rewrite a storage directory in place", async () => {
+    const dir = join(tmpdir(), `session-migrate-${Date.now()}`)
+    await mkdir(dir, { recursive: true })
+    await writeFile(join(dir, "old.json"), JSON.stringify({ id: "old", messages: [], createdAt: 5 }))
+
+    const result = await migrateSessionStorage(new FileSessionStorage(dir))
+    const raw = JSON.parse(await readFile(join(dir, "old.json"), "utf-8"))
+
+    expect(result).toEqual({ migrated: ["old"], failed: [] })
+    expect(raw.schemaVersion).toBe(SESSION_SCHEMA_VERSION)
+    await rm(dir, { recursive: true, force: true })
+  })
+})
+
+describe("session retention", () => {
+  const DAY = 24 * 60 * 60 * 1000
+  const now = Date.now()
+
+  const createTestState = (id: string, age: number, extra?: Partial<SessionState>): SessionState => ({
+    id,
+    messages: [{ id: "msg1", role: "user", content: "Hello" }],
+    usage: { input_tokens: 0, output_tokens: 0 },
+    metadata: {},
+    createdAt: now - age,
+    updatedAt: now - age,
+    ...extra,
+  })
+
+  it("should delete sessions past the maximum age and keep pinned ones", async () => {
+    const storage = new MemorySessionStorage({ retention: { maxAgeMs: 30 * DAY } })
+    await storage.save(createTestState("fresh", DAY))
+    await storage.save(createTestState("stale", 40 * DAY))
+    await storage.save(createTestState("pinned", 90 * DAY, { metadata: { pinned: true } }))
+
+    const result = await storage.prune()
+
+    expect(result.deleted).toEqual(["stale"])
+    expect(result.kept).toBe(2)
+    expect((await storage.list()).sort()).toEqual(["fresh", "pinned"])
+  })
+
+  it("should keep the most recent sessions within count and size limits", async () => {
+    const storage = new MemorySessionStorage()
+    for (let i = 0; i < 4; i++) {
+      await storage.save(createTestState(`s${i}`, i * DAY))
+    }
+
+    const byCount = await pruneSessions(storage, { maxCount: 3, pinned: ["s3"] }, { dryRun: true })
+    expect(byCount.deleted).toEqual([])
+
+    const size = Buffer.byteLength(JSON.stringify(await storage.load("s0")), "utf-8")
+    const bySize = await pruneSessions(storage, { maxTotalBytes: size * 2 })
+
+    expect(bySize.deleted).toEqual(["s2", "s3"])
+    expect(bySize.freedBytes).toBe(size * 2)
+    expect((await storage.list()).sort()).toEqual(["s0", "s1"])
+  })
+
+  it("should remove truncated outputs of deleted sessions unless still referenced", async () => {
+    const dir = join(tmpdir(), `session-retention-${Date.now()}`)
+    await mkdir(dir, { recursive: true })
+    const shared = join(dir, `tool_${now}_shared.txt`)
+    const own = join(dir, `tool_${now}_own.txt`)
+    const orphan = join(dir, `tool_${now - 8 * DAY}_orphan.txt`)
+    for (const file of [shared, own, orphan]) {
+      await writeFile(file, "output")
+    }
+
+    const storage = new FileSessionStorage(dir)
+    await storage.save(createTestState("parent", 10 * DAY, { outputFiles: [shared, own] }))
+    await storage.save(createTestState("fork", 0, { parentId: "parent", outputFiles: [shared] }))
+
+    const result = await storage.prune({ maxCount: 1 }, { tempDir: dir })
+
+    expect(result.deleted).toEqual(["parent"])
+    expect(result.removedOutputFiles).toBe(2)
+    expect(existsSync(shared)).toBe(true)
+    expect(existsSync(own)).toBe(false)
+    expect(existsSync(orphan)).toBe(false)
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it("should record truncated tool outputs in session state", async () => {
+    const tempDir = join(tmpdir(), `session-outputs-${Date.now()}`)
+    const bigTool: ToolDefinition = {
+      name: "Big",
+      description: "Returns a lot of output",
+      inputSchema: { type: "object", properties: {} },
+      execute: async () => ({ content: "line\n".repeat(5000) }),
+    }
+    const provider = createScriptedMockProvider([
+      { toolUses: [{ id: "t1", name: "Big", input: {} }] },
+      { text: "Done" },
+    ])
+    const session = createSessionImpl({ tools: [bigTool], tempDir }, provider)
+
+    await session.send("Go")
+    for await (const _ of session.receive()) {
+      // drain
+    }
+
+    expect(session.state.outputFiles).toHaveLength(1)
+    expect(existsSync(session.state.outputFiles![0])).toBe(true)
+    await rm(tempDir, { recursive: true, force: true })
+  })
+})
+
+describe("EncryptedSessionStorage", () => {
+  const createTestState = (id: string): SessionState => ({
+    id,
+    messages: [{ id: "msg1", role: "user", content: "my password is hunter2" }],
+    usage: { input_tokens: 10, output_tokens: 20 },
+    metadata: { project: "secret" },
+    createdAt: 1000,
+    updatedAt: 2000,
+  })
 
-      const storedState = await storage.load(session.id)
-      expect(storedState?.messages).toHaveLength(1)
-    })
+  it("should store only ciphertext in the wrapped storage", async () => {
+    const inner = new MemorySessionStorage()
+    const storage = new EncryptedSessionStorage(inner, { key: generateSessionKey() })
 
-    it("should remove session from active sessions", async () => {
-      const session = await manager.create()
+    await storage.save(createTestState("s1"))
 
-      await manager.close(session.id)
+    const raw = JSON.stringify(await inner.load("s1"))
+    expect(raw).not.toContain("hunter2")
+    expect(raw).not.toContain("secret")
+    expect(await storage.load("s1")).toEqual({ ...createTestState("s1"), schemaVersion: SESSION_SCHEMA_VERSION })
+  })
 
-      expect(manager.get(session.id)).toBeUndefined()
-    })
+  it("should work on top of FileSessionStorage with a key file", async () => {
+    const dir = join(tmpdir(), `session-encrypted-${Date.now()}`)
+    await mkdir(dir, { recursive: true })
+    const keyFile = join(dir, "session.key")
+    await writeFile(keyFile, `${generateSessionKey()}\n`)
 
-    it("should be safe to call on non-existent session", async () => {
-      await manager.close("non-existent") // Should not throw
+    const storage = new EncryptedSessionStorage(new FileSessionStorage(join(dir, "sessions")), { keyFile })
+    await storage.save(createTestState("s1"))
 
-      expect(true).toBe(true)
-    })
+    expect(await readFile(join(dir, "sessions", "s1.json"), "utf-8")).not.toContain("hunter2")
+    expect((await storage.load("s1"))?.messages).toEqual(createTestState("s1").messages)
+    await rm(dir, { recursive: true, force: true })
   })
 
-  describe("closeAll()", () => {
-    it("should close all active sessions", async () => {
-      await manager.create()
-      await manager.create()
-      await manager.create()
+  it("should fail clearly when the key is missing or wrong", async () => {
+    const previous = process.env[SESSION_KEY_ENV]
+    delete process.env[SESSION_KEY_ENV]
+    try {
+      expect(() => new EncryptedSessionStorage(new MemorySessionStorage())).toThrow(SessionEncryptionError)
+    } finally {
+      if (previous !== undefined) process.env[SESSION_KEY_ENV] = previous
+    }
+    expect(() => new EncryptedSessionStorage(new MemorySessionStorage(), { key: "too-short" })).toThrow(
+      /must be 32 bytes/
+    )
 
-      await manager.closeAll()
+    const inner = new MemorySessionStorage()
+    await new EncryptedSessionStorage(inner, { key: generateSessionKey() }).save(createTestState("s1"))
 
-      expect(manager.list()).toEqual([])
-    })
+    const error = await new EncryptedSessionStorage(inner, { key: generateSessionKey() }).load("s1").catch((e) => e)
+    expect(error).toBeInstanceOf(SessionEncryptionError)
+    expect(error.reason).toBe("unknown_key")
   })
 
-  describe("getStorage()", () => {
-    it("should return storage instance", () => {
-      expect(manager.getStorage()).toBe(storage)
-    })
-  })
+  it("should prefer an explicit key file over the environment", async () => {
+    const dir = join(tmpdir(), `session-keyfile-${Date.now()}`)
+    await mkdir(dir, { recursive: true })
+    const fileKey = generateSessionKey()
+    const keyFile = join(dir, "session.key")
+    await writeFile(keyFile, `${fileKey}\n`)
 
-  describe("getProvider()", () => {
-    it("should return provider instance", () => {
-      expect(manager.getProvider()).toBe(provider)
-    })
+    const previous = process.env[SESSION_KEY_ENV]
+    process.env[SESSION_KEY_ENV] = generateSessionKey()
+    try {
+      const fromFile = new EncryptedSessionStorage(new MemorySessionStorage(), { keyFile })
+      expect(fromFile.keyId).toBe(new EncryptedSessionStorage(new MemorySessionStorage(), { key: fileKey }).keyId)
+      expect(new EncryptedSessionStorage(new MemorySessionStorage()).keyId).not.toBe(fromFile.keyId)
+    } finally {
+      if (previous === undefined) delete process.env[SESSION_KEY_ENV]
+      else process.env[SESSION_KEY_ENV] = previous
+      await rm(dir, { recursive: true, force: true })
+    }
   })
-})
 
-// =============================================================================
-// SessionStorage Tests
-// =============================================================================
+  it("should reject tampered ciphertext", async () => {
+    const inner = new MemorySessionStorage()
+    const storage = new EncryptedSessionStorage(inner, { key: generateSessionKey() })
+    await storage.save(createTestState("s1"))
 
-describe("MemorySessionStorage", () => {
-  let storage: MemorySessionStorage
+    // Moving a payload to another session ID breaks authentication
+    await inner.save({ ...(await inner.load("s1"))!, id: "s2" })
 
-  beforeEach(() => {
-    storage = new MemorySessionStorage()
+    await expect(storage.load("s2")).rejects.toMatchObject({ reason: "decrypt_failed" })
   })
 
-  const createTestState = (id: string): SessionState => ({
-    id,
-    messages: [{ id: "msg1", role: "user", content: "Hello" }],
-    usage: { input_tokens: 10, output_tokens: 20 },
-    metadata: { key: "value" },
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
-  })
+  it("should bind each message to its position", async () => {
+    const inner = new MemorySessionStorage()
+    const storage = new EncryptedSessionStorage(inner, { key: generateSessionKey() })
+    const state = createTestState("s1")
+    await storage.save({ ...state, messages: [...state.messages, { id: "msg2", role: "user", content: "second" }] })
 
-  describe("save()", () => {
-    it("should save session state", async () => {
-      const state = createTestState("session1")
+    const envelope = (await inner.load("s1"))!
+    await inner.save({ ...envelope, messages: [...envelope.messages].reverse() })
+    await expect(storage.load("s1")).rejects.toMatchObject({ reason: "decrypt_failed" })
 
-      await storage.save(state)
+    await inner.save({ ...envelope, messages: envelope.messages.slice(1) })
+    await expect(storage.load("s1")).rejects.toMatchObject({ reason: "decrypt_failed" })
+  })
 
-      expect(await storage.load("session1")).toBeDefined()
-    })
+  it("should append only new messages when wrapping JsonlSessionStorage", async () => {
+    const dir = join(tmpdir(), `session-encrypted-jsonl-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    const key = generateSessionKey()
+    const inner = new JsonlSessionStorage(join(dir, "incremental"))
+    const storage = new EncryptedSessionStorage(inner, { key })
+    try {
+      const state = createTestState("s1")
+      for (let i = 0; i < 20; i++) {
+        state.messages = [...state.messages, { id: `m${i}`, role: "user", content: `message ${i} `.repeat(50) }]
+        state.updatedAt++
+        await storage.save(state)
+      }
+      await inner.close()
 
-    it("should clone state to prevent mutations", async () => {
-      const state = createTestState("session1")
+      const fresh = new JsonlSessionStorage(join(dir, "fresh"))
+      await new EncryptedSessionStorage(fresh, { key }).save(state)
+      await fresh.close()
 
-      await storage.save(state)
-      state.messages.push({ id: "msg2", role: "user", content: "Modified" })
+      const incrementalSize = (await stat(join(dir, "incremental", "s1.jsonl"))).size
+      const freshSize = (await stat(join(dir, "fresh", "s1.jsonl"))).size
+      expect(incrementalSize).toBeLessThan(freshSize * 2)
 
-      const loaded = await storage.load("session1")
-      expect(loaded?.messages).toHaveLength(1)
-    })
+      const reopened = new EncryptedSessionStorage(new JsonlSessionStorage(join(dir, "incremental")), { key })
+      expect((await reopened.load("s1"))?.messages).toEqual(state.messages)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
   })
 
-  describe("load()", () => {
-    it("should return undefined for non-existent session", async () => {
-      expect(await storage.load("unknown")).toBeUndefined()
-    })
+  it("should re-encrypt sessions with the current key on rotation", async () => {
+    const inner = new MemorySessionStorage()
+    const oldKey = generateSessionKey()
+    const newKey = generateSessionKey()
+    await new EncryptedSessionStorage(inner, { key: oldKey }).save(createTestState("s1"))
+    await inner.save(createTestState("plain"))
 
-    it("should return clone of stored state", async () => {
-      const state = createTestState("session1")
-      await storage.save(state)
+    const storage = new EncryptedSessionStorage(inner, { key: newKey, previousKeys: [oldKey], allowPlaintext: true })
+    expect((await storage.rotate()).rotated.sort()).toEqual(["plain", "s1"])
+    expect(JSON.stringify(await inner.load("plain"))).not.toContain("hunter2")
 
-      const loaded1 = await storage.load("session1")
-      const loaded2 = await storage.load("session1")
+    const rotated = new EncryptedSessionStorage(inner, { key: newKey })
+    expect((await rotated.load("s1"))?.metadata).toEqual({ project: "secret" })
+    expect(await rotated.rotate()).toEqual({ rotated: [], skipped: [] })
+  })
 
-      // Should be equal but not same reference
-      expect(loaded1).toEqual(loaded2)
-      expect(loaded1).not.toBe(loaded2)
-    })
+  it("should skip sessions locked elsewhere on rotation and keep their locks", async () => {
+    const dir = join(tmpdir(), `session-rotate-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    const oldKey = generateSessionKey()
+    const newKey = generateSessionKey()
+    try {
+      const writer = new JsonlSessionStorage(dir)
+      const old = new EncryptedSessionStorage(writer, { key: oldKey })
+      for (const id of ["s1", "s2", "s3"]) await old.save(createTestState(id))
+      await writer.close()
+
+      // s1 is held by a live session on the same storage, s2 by another process
+      const live = new JsonlSessionStorage(dir)
+      const liveLease = await live.lock("s1")
+      const other = new JsonlSessionStorage(dir)
+      const otherLease = await other.lock("s2")
+
+      const storage = new EncryptedSessionStorage(live, { key: newKey, previousKeys: [oldKey] })
+      const result = await storage.rotate()
+      expect(result.rotated).toEqual(["s3"])
+      expect(result.skipped.sort()).toEqual(["s1", "s2"])
+
+      const third = new JsonlSessionStorage(dir)
+      await expect(third.lock("s1")).rejects.toBeInstanceOf(SessionLockedError)
+      await expect(third.lock("s2")).rejects.toBeInstanceOf(SessionLockedError)
+      await (await third.lock("s3")).release()
+
+      await liveLease.release()
+      await otherLease.release()
+      expect((await storage.rotate()).rotated.sort()).toEqual(["s1", "s2"])
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
   })
+})
 
-  describe("delete()", () => {
-    it("should remove session from storage", async () => {
-      const state = createTestState("session1")
-      await storage.save(state)
+describe("session export", () => {
+  const createTranscript = (extra?: Partial<SessionState>): SessionState => ({
+    id: "export-test",
+    messages: [
+      { id: "u1", role: "user", content: "Rename foo to bar" },
+      {
+        id: "a1",
+        role: "assistant",
+        content: [
+          { type: "text", text: "Editing <main.ts>" },
+          {
+            type: "tool_use",
+            id: "t1",
+            name: "Edit",
+            input: { file_path: "/src/main.ts", old_string: "const foo = 1", new_string: "const bar = 1" },
+          },
+        ],
+      },
+      { id: "u2", role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "Edited file" }] },
+      { id: "a2", role: "assistant", content: [{ type: "text", text: "Done" }] },
+    ],
+    usage: { input_tokens: 1200, output_tokens: 340, total_cost_usd: 0.0123 },
+    metadata: { title: "Rename" },
+    createdAt: 1000,
+    updatedAt: 2000,
+    ...extra,
+  })
 
-      await storage.delete("session1")
+  it("should render Markdown with collapsed tool calls and diffs", () => {
+    const markdown = exportSessionMarkdown(createTranscript())
 
-      expect(await storage.load("session1")).toBeUndefined()
-    })
+    expect(markdown).toStartWith("# Rename\n")
+    expect(markdown).toContain("<summary>Edit: /src/main.ts</summary>")
+    expect(markdown).toContain("```diff\n--- /src/main.ts\n+++ /src/main.ts\n-const foo = 1\n+const bar = 1\n```")
+    expect(markdown).toContain("**Result**\n\n```\nEdited file\n```")
+    expect(markdown).toContain("1,200 input tokens · 340 output tokens · $0.0123")
+    // The tool result message is folded into the call
+    expect(markdown.match(/## User/g)).toHaveLength(1)
+  })
 
-    it("should be safe to delete non-existent session", async () => {
-      await storage.delete("unknown") // Should not throw
+  it("should render self-contained, escaped HTML", () => {
+    const html = exportSessionHtml(createTranscript())
 
-      expect(true).toBe(true)
-    })
+    expect(html).toStartWith("<!DOCTYPE html>")
+    expect(html).toContain("Editing &lt;main.ts&gt;")
+    expect(html).toContain(`<span class="add">+const bar = 1</span>`)
+    expect(html).toContain(`<details class="tool">`)
+    expect(html).not.toMatch(/<(script|link)\b/)
   })
 
-  describe("list()", () => {
-    it("should return all session ids", async () => {
-      await storage.save(createTestState("session1"))
-      await storage.save(createTestState("session2"))
-
-      const list = await storage.list()
+  it("should round-trip archives with truncated outputs into another storage", async () => {
+    const dir = join(tmpdir(), `session-archive-${Date.now()}`)
+    await mkdir(dir, { recursive: true })
+    const outputPath = join(dir, "tool_1_abc.txt")
+    await writeFile(outputPath, "full output")
 
-      expect(list).toContain("session1")
-      expect(list).toContain("session2")
+    const state = createTranscript({
+      outputFiles: [outputPath],
+      fileSnapshots: [{ messageId: "u1", toolUseId: "t1", path: "/src/main.ts", content: "const foo = 1", timestamp: 1 }],
     })
-
-    it("should return empty array when no sessions", async () => {
-      expect(await storage.list()).toEqual([])
+    state.messages.push({
+      id: "u3",
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "t9", content: `Full output saved to: ${outputPath}` }],
     })
-  })
 
-  describe("clear()", () => {
-    it("should remove all sessions", async () => {
-      await storage.save(createTestState("session1"))
-      await storage.save(createTestState("session2"))
+    const archive = await exportSessionArchive(state)
+    const storage = new MemorySessionStorage()
+    const imported = await importSessionArchive(archive, storage, { tempDir: join(dir, "restored") })
 
-      storage.clear()
+    const restored = imported.outputFiles![0]
+    expect(restored).toStartWith(join(dir, "restored"))
+    expect(await readFile(restored, "utf-8")).toBe("full output")
+    expect(JSON.stringify(imported.messages)).toContain(restored)
+    expect(imported.fileSnapshots).toEqual(state.fileSnapshots)
+    expect((await storage.load("export-test"))?.messages).toEqual(imported.messages)
 
-      expect(await storage.list()).toEqual([])
-    })
+    await expect(importSessionArchive(archive, storage)).rejects.toThrow(/already exists/)
+    expect((await importSessionArchive(archive, storage, { id: "copy", tempDir: dir })).id).toBe("copy")
+    await rm(dir, { recursive: true, force: true })
   })
 
-  describe("size()", () => {
-    it("should return number of stored sessions", async () => {
-      await storage.save(createTestState("session1"))
-      await storage.save(createTestState("session2"))
+  it("should reject data that is not an archive", async () => {
+    await expect(importSessionArchive(Buffer.from("{}"), new MemorySessionStorage())).rejects.toThrow(
+      "Not a .formagent session archive"
+    )
+  })
+})
 
-      expect(storage.size()).toBe(2)
-    })
+describe("listSessionSummaries()", () => {
+  it("should list titles and summaries, most recently updated first", async () => {
+    const storage = new MemorySessionStorage()
+    const base = { messages: [], usage: { input_tokens: 0, output_tokens: 0 }, createdAt: 1 }
+    await storage.save({ ...base, id: "old", metadata: { title: "Old work" }, updatedAt: 1 })
+    await storage.save({ ...base, id: "new", metadata: { title: "New work", summary: "Ongoing" }, updatedAt: 2 })
+
+    const summaries = await listSessionSummaries(storage)
+
+    expect(summaries.map((s) => [s.id, s.title, s.summary])).toEqual([
+      ["new", "New work", "Ongoing"],
+      ["old", "Old work", undefined],
+    ])
+    expect(await listSessionSummaries(storage, 1)).toHaveLength(1)
   })
 })
 
-describe("FileSessionStorage", () => {
-  let storage: FileSessionStorage
-  let testDir: string
+describe("ArtifactStore", () => {
+  let dir: string
+  let store: ArtifactStore
 
-  beforeEach(async () => {
-    testDir = join(tmpdir(), `session-test-${Date.now()}`)
-    await mkdir(testDir, { recursive: true })
-    storage = new FileSessionStorage(testDir)
+  beforeEach(() => {
+    dir = join(tmpdir(), `artifacts-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    store = new ArtifactStore(dir)
   })
 
   afterEach(async () => {
-    try {
-      await rm(testDir, { recursive: true, force: true })
-    } catch {
-      // Ignore cleanup errors
-    }
+    await rm(dir, { recursive: true, force: true })
   })
 
-  const createTestState = (id: string): SessionState => ({
-    id,
-    messages: [{ id: "msg1", role: "user", content: "Hello" }],
-    usage: { input_tokens: 10, output_tokens: 20 },
-    metadata: { key: "value" },
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
-  })
+  it("should deduplicate content by hash and read line and byte ranges", async () => {
+    const text = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join("\n")
+    const first = await store.put(text, { name: "log.txt" })
+    const second = await store.put(text)
 
-  describe("validation", () => {
-    it("should reject empty session ids", async () => {
-      await expect(storage.load("")).rejects.toThrow("Session ID must be non-empty")
-      await expect(storage.delete("")).rejects.toThrow("Session ID must be non-empty")
-      await expect(storage.save(createTestState(""))).rejects.toThrow(
-        "Session ID must be non-empty"
-      )
-    })
+    expect(first.id).toMatch(/^sha256:[0-9a-f]{64}$/)
+    expect(second.id).toBe(first.id)
+    expect(first).toMatchObject({ mediaType: "text/plain", lines: 10, name: "log.txt" })
+    expect(await store.list()).toEqual([first.id])
 
-    it("should reject path traversal session ids", async () => {
-      await expect(storage.load("../evil")).rejects.toThrow("Invalid session ID")
-      await expect(storage.delete("../evil")).rejects.toThrow("Invalid session ID")
-      await expect(storage.save(createTestState("../evil"))).rejects.toThrow("Invalid session ID")
-    })
+    expect(await store.readLines(first.id, 3, 2)).toEqual({ lines: ["line 3", "line 4"], total: 10 })
+    expect((await store.readBytes(first.id, 5, 1))?.toString()).toBe("1")
+    expect(await store.stat("sha256:" + "0".repeat(64))).toBeUndefined()
+    await expect(store.get("../etc/passwd")).rejects.toThrow("Invalid artifact ID")
   })
 
-  describe("save()", () => {
-    it("should save session to file", async () => {
-      const state = createTestState("session1")
+  it("should serve artifacts through the ReadArtifact tool", async () => {
+    const tool = createReadArtifactTool(store)
+    const context = { sessionId: "s", abortSignal: new AbortController().signal }
+    const text = await store.put("alpha\nbeta\ngamma")
+    const image = await store.put(new Uint8Array([137, 80, 78, 71]), { mediaType: "image/png" })
 
-      await storage.save(state)
+    const lines = await tool.execute({ artifact_id: text.id, offset: 2, limit: 1 }, context)
+    expect(lines.content).toBe("[Lines 2-2 of 3]\n\n2→beta")
 
-      const loaded = await storage.load("session1")
-      expect(loaded).toBeDefined()
-      expect(loaded?.id).toBe("session1")
-    })
+    const binary = await tool.execute({ artifact_id: image.id }, context)
+    expect(binary.content).toContain("Type: image/png")
 
-    it("should create directory if not exists", async () => {
-      const nestedDir = join(testDir, "nested", "dir")
-      const nestedStorage = new FileSessionStorage(nestedDir)
+    const bytes = await tool.execute({ artifact_id: image.id, byte_offset: 1, byte_length: 3 }, context)
+    expect(bytes.content).toBe(`[Bytes 1-4 of 4, base64]\n\n${Buffer.from("PNG").toString("base64")}`)
 
-      await nestedStorage.save(createTestState("test"))
+    const missing = await tool.execute({ artifact_id: "nope" }, context)
+    expect(missing.isError).toBe(true)
+  })
 
-      const loaded = await nestedStorage.load("test")
-      expect(loaded).toBeDefined()
-    })
+  it("should store large and binary tool outputs instead of keeping them in history", async () => {
+    const bigOutput = Array.from({ length: 3000 }, (_, i) => `row ${i}`).join("\n")
+    const tool: ToolDefinition = {
+      name: "Dump",
+      description: "Dump",
+      inputSchema: { type: "object", properties: {} },
+      execute: async () => ({
+        content: bigOutput,
+        artifacts: [{ data: new Uint8Array([1, 2, 3]), mediaType: "application/pdf", name: "report.pdf" }],
+      }),
+    }
+    const provider = createScriptedMockProvider([
+      { toolUses: [{ id: "t1", name: "Dump", input: {} }] },
+      { text: "Done" },
+    ])
+    const session = createSessionImpl({ model: "mock-model", tools: [tool], artifactStore: store }, provider)
+    await session.send("Dump it")
+
+    const events: any[] = []
+    for await (const event of session.receive()) {
+      events.push(event)
+    }
+
+    const result = events.find((e) => e.type === "tool_result")
+    expect(result.artifacts.map((a: any) => a.name ?? a.mediaType)).toEqual(["report.pdf", "text/plain"])
+    expect(result.content).toContain(`Full output stored as artifact ${result.artifacts[1].id}`)
+    expect((await store.get(result.artifacts[1].id))?.toString()).toBe(bigOutput)
+
+    const block = (session.getMessages()[2].content as any[])[0]
+    expect(block.artifacts).toEqual(result.artifacts)
+    expect(session.state.artifacts).toEqual(result.artifacts.map((a: any) => a.id))
+    expect(session.state.outputFiles).toBeUndefined()
+    const request = (provider.stream as any).mock.calls[0][0]
+    expect(request.tools.map((t: any) => t.name)).toContain("ReadArtifact")
   })
 
-  describe("load()", () => {
-    it("should return undefined for non-existent session", async () => {
-      expect(await storage.load("unknown")).toBeUndefined()
-    })
+  it("should remove artifacts only used by pruned sessions", async () => {
+    const shared = await store.put("shared")
+    const own = await store.put("own")
+    const storage = new MemorySessionStorage()
+    const base = { messages: [], usage: { input_tokens: 0, output_tokens: 0 }, metadata: {}, createdAt: 1 }
+    await storage.save({ ...base, id: "old", updatedAt: 1, artifacts: [shared.id, own.id] })
+    await storage.save({ ...base, id: "new", updatedAt: 2, artifacts: [shared.id] })
 
-    it("should load session from file", async () => {
-      const state = createTestState("session1")
-      state.metadata = { custom: "data" }
+    const result = await pruneSessions(storage, { maxCount: 1 }, { artifactStore: store })
 
-      await storage.save(state)
-      const loaded = await storage.load("session1")
+    expect(result.deleted).toEqual(["old"])
+    expect(result.removedArtifacts).toBe(1)
+    expect(await store.has(shared.id)).toBe(true)
+    expect(await store.has(own.id)).toBe(false)
+  })
 
-      expect(loaded?.metadata).toEqual({ custom: "data" })
-    })
+  it("should pack artifacts into archives and restore them on import", async () => {
+    const ref = await store.put("archived content")
+    const state: SessionState = {
+      id: "with-artifacts",
+      messages: [],
+      usage: { input_tokens: 0, output_tokens: 0 },
+      metadata: {},
+      createdAt: 1,
+      updatedAt: 1,
+      artifacts: [ref.id],
+    }
+
+    const archive = await exportSessionArchive(state, { artifactStore: store })
+    await rm(dir, { recursive: true, force: true })
+
+    await expect(importSessionArchive(archive, new MemorySessionStorage())).rejects.toThrow(/artifactStore/)
+    await importSessionArchive(archive, new MemorySessionStorage(), { artifactStore: store })
+    expect((await store.get(ref.id))?.toString()).toBe("archived content")
   })
+})
 
-  describe("delete()", () => {
-    it("should delete session file", async () => {
-      await storage.save(createTestState("session1"))
+describe("session locking", () => {
+  let dir: string
 
-      await storage.delete("session1")
+  beforeEach(() => {
+    dir = join(tmpdir(), `session-locks-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+  })
 
-      expect(await storage.load("session1")).toBeUndefined()
-    })
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
 
-    it("should be safe to delete non-existent session", async () => {
-      await storage.delete("unknown") // Should not throw
+  it("should hand out one lease per session across storage instances", async () => {
+    const first = new FileSessionStorage(dir)
+    const second = new FileSessionStorage(dir)
 
-      expect(true).toBe(true)
-    })
+    const lease = await first.lock("s1")
+    await expect(second.lock("s1")).rejects.toBeInstanceOf(SessionLockedError)
+    expect(await second.list()).toEqual([])
+
+    await lease.release()
+    await (await second.lock("s1")).release()
   })
 
-  describe("list()", () => {
-    it("should list all session files", async () => {
-      await storage.save(createTestState("session1"))
-      await storage.save(createTestState("session2"))
+  it("should lock sessions in a shared SQLite database", async () => {
+    const first = new SqliteSessionStorage({ path: join(dir, "sessions.db") })
+    await mkdir(dir, { recursive: true })
+    const lease = await first.lock("s1")
 
-      const list = await storage.list()
+    const second = new SqliteSessionStorage({ path: join(dir, "sessions.db") })
+    await expect(second.lock("s1")).rejects.toBeInstanceOf(SessionLockedError)
 
-      expect(list).toContain("session1")
-      expect(list).toContain("session2")
-    })
+    await lease.release()
+    await second.lock("s1")
+    await second.close()
+    await first.close()
+  })
 
-    it("should return empty array for empty directory", async () => {
-      expect(await storage.list()).toEqual([])
-    })
+  it("should fail fast or attach read-only when another manager holds the session", async () => {
+    const writer = createSessionManager({ provider: createMockProvider(), storage: new FileSessionStorage(dir) })
+    const session = await writer.create({ model: "mock-model" })
 
-    it("should return empty array if directory does not exist", async () => {
-      const nonExistent = new FileSessionStorage("/non/existent/path")
+    const other = createSessionManager({ provider: createMockProvider(), storage: new FileSessionStorage(dir) })
+    await expect(other.resume(session.id)).rejects.toBeInstanceOf(SessionLockedError)
 
-      expect(await nonExistent.list()).toEqual([])
+    const viewer = new SessionManagerImpl({
+      provider: createMockProvider(),
+      storage: new FileSessionStorage(dir),
+      onLocked: "readonly",
     })
+    const attached = await viewer.resume(session.id)
+    expect(attached.config.readOnly).toBe(true)
+    await expect(attached.send("Hi")).rejects.toThrow("read-only")
+    await viewer.close(session.id)
+
+    await writer.close(session.id)
+    const resumed = await other.resume(session.id)
+    expect(resumed.config.readOnly).toBeUndefined()
+    await other.close(session.id)
   })
-})
 
-describe("createSessionStorage()", () => {
-  it("should create MemorySessionStorage by default", () => {
-    const storage = createSessionStorage()
+  it("should save and release a session closed without the manager", async () => {
+    const storage = new FileSessionStorage(dir)
+    const manager = createSessionManager({ provider: createMockProvider(), storage })
+    const session = await manager.create({ model: "mock-model" })
+    session.state.metadata.note = "kept"
 
-    expect(storage).toBeInstanceOf(MemorySessionStorage)
+    await session.close()
+
+    expect(manager.get(session.id)).toBeUndefined()
+    expect((await storage.load(session.id))?.metadata.note).toBe("kept")
+    await (await new FileSessionStorage(dir).lock(session.id)).release()
   })
+})
 
-  it("should create MemorySessionStorage for type memory", () => {
-    const storage = createSessionStorage("memory")
+describe("followSession()", () => {
+  it("should stream messages saved by another writer until aborted", async () => {
+    const storage = new MemorySessionStorage()
+    const state: SessionState = {
+      id: "followed",
+      messages: [{ id: "m1", role: "user", content: "First" }],
+      usage: { input_tokens: 0, output_tokens: 0 },
+      metadata: {},
+      createdAt: 1,
+      updatedAt: 1,
+    }
+    await storage.save(state)
 
-    expect(storage).toBeInstanceOf(MemorySessionStorage)
+    const controller = new AbortController()
+    const events: any[] = []
+    const following = (async () => {
+      for await (const event of followSession(storage, "followed", { pollIntervalMs: 5, signal: controller.signal })) {
+        events.push(event)
+        if (event.type === "history_reset") {
+          controller.abort()
+        }
+      }
+    })()
+
+    await new Promise((resolve) => setTimeout(resolve, 15))
+    state.messages.push({ id: "m2", role: "assistant", content: "Second" })
+    await storage.save(state)
+    await new Promise((resolve) => setTimeout(resolve, 15))
+    await storage.save({ ...state, messages: [{ id: "m3", role: "user", content: "Rewound" }] })
+
+    await following
+    expect(events.map((e) => e.type)).toEqual(["message", "history_reset"])
+    expect(events[0].message.content).toBe("Second")
+    expect(events[1].messages).toHaveLength(1)
   })
 
-  it("should create FileSessionStorage for type file", () => {
-    const storage = createSessionStorage("file", { directory: "/tmp/test" })
+  it("should end when the session is deleted", async () => {
+    const storage = new MemorySessionStorage()
+    await storage.save({
+      id: "gone",
+      messages: [{ id: "m1", role: "user", content: "Hi" }],
+      usage: { input_tokens: 0, output_tokens: 0 },
+      metadata: {},
+      createdAt: 1,
+      updatedAt: 1,
+    })
 
-    expect(storage).toBeInstanceOf(FileSessionStorage)
-  })
+    const events: any[] = []
+    const following = (async () => {
+      for await (const event of followSession(storage, "gone", { pollIntervalMs: 5, fromStart: true })) {
+        events.push(event)
+      }
+    })()
+    await storage.delete("gone")
+    await following
 
-  it("should throw if file storage without directory", () => {
-    expect(() => createSessionStorage("file")).toThrow(
-      "File storage requires a directory option"
-    )
+    expect(events).toEqual([{ type: "message", message: { id: "m1", role: "user", content: "Hi" } }])
+    await expect(followSession(storage, "gone").next()).rejects.toThrow("Session not found")
   })
 })